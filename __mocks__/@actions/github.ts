@@ -24,11 +24,18 @@ export const getOctokit = vi.fn(() => ({
       { filename: 'promptfooconfig.yaml' },
     ]),
   ),
+  graphql: vi.fn(() => Promise.resolve({})),
   rest: {
+    checks: {
+      create: vi.fn(() => Promise.resolve({})),
+    },
     issues: {
       createComment: vi.fn(() => Promise.resolve({})),
+      listComments: vi.fn(),
+      updateComment: vi.fn(() => Promise.resolve({})),
     },
     pulls: {
+      createReview: vi.fn(() => Promise.resolve({})),
       listFiles: vi.fn(),
     },
   },
@@ -0,0 +1,27 @@
+import type { EvaluateResult } from 'promptfoo';
+
+/**
+ * Minimal EvaluateResult factory for testing: a passing result of the first
+ * test and prompt, with the given fields overridden.
+ */
+export function makeResult(
+  overrides: Partial<EvaluateResult> = {},
+): EvaluateResult {
+  const { description, vars = {} } = overrides;
+  const success = overrides.success ?? true;
+  return {
+    promptIdx: 0,
+    testIdx: 0,
+    testCase: { description, vars },
+    promptId: 'greeting',
+    provider: { id: 'openai:gpt-4o' },
+    prompt: { raw: 'Hello {{name}}', label: 'greeting' },
+    vars,
+    failureReason: success ? 0 : 1,
+    success,
+    score: success ? 1 : 0,
+    latencyMs: 0,
+    namedScores: {},
+    ...overrides,
+  };
+}
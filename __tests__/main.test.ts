@@ -21,12 +21,28 @@ const actualFs = await vi.importActual<typeof import('fs')>('fs');
 // Type definitions for mocks
 type MockOctokit = {
   paginate: Mock;
+  graphql: Mock;
   rest: {
+    checks: {
+      create: Mock;
+    };
     issues: {
       createComment: Mock;
+      listComments: Mock;
+      updateComment: Mock;
     };
     pulls: {
+      createReview: Mock;
+      get: Mock;
       listFiles: Mock;
+      listReviewComments: Mock;
+      updateReviewComment: Mock;
+    };
+    reactions: {
+      createForIssueComment: Mock;
+    };
+    repos: {
+      getCollaboratorPermissionLevel: Mock;
     };
   };
 };
@@ -48,6 +64,7 @@ const { mockGitInterface } = vi.hoisted(() => ({
     diff: vi.fn(() =>
       Promise.resolve('prompts/prompt1.txt\npromptfooconfig.yaml'),
     ),
+    raw: vi.fn(() => Promise.resolve('')),
   },
 }));
 
@@ -65,6 +82,7 @@ vi.mock('../src/utils/fs');
 import { handleError, run } from '../src/main';
 import * as auth from '../src/utils/auth';
 import * as cache from '../src/utils/cache';
+import { getCommentMarker } from '../src/utils/comment';
 import * as config from '../src/utils/config';
 import * as fsUtils from '../src/utils/fs';
 
@@ -82,9 +100,11 @@ const mockConfig = config as {
   extractFileDependencies: MockedFunction<
     typeof config.extractFileDependencies
   >;
+  extractConfigPrompts: MockedFunction<typeof config.extractConfigPrompts>;
 };
 const mockFsUtils = fsUtils as {
   isDirectory: MockedFunction<typeof fsUtils.isDirectory>;
+  isFile: MockedFunction<typeof fsUtils.isFile>;
 };
 
 // Note: @actions/core, @actions/github, and @actions/exec are already mocked via vitest.config.ts aliases
@@ -104,6 +124,7 @@ vi.mock('fs', async () => {
 });
 vi.mock('glob', () => ({
   sync: vi.fn(),
+  hasMagic: vi.fn((pattern: string) => /[*?[\]{}]/.test(pattern)),
 }));
 vi.mock('dotenv');
 
@@ -161,6 +182,8 @@ function setupCommonMocks(): MockOctokit {
   mockGitInterface.fetch.mockClear();
   mockGitInterface.revparse.mockClear();
   mockGitInterface.diff.mockClear();
+  mockGitInterface.raw.mockReset();
+  mockGitInterface.raw.mockResolvedValue('');
   mockGitInterface.revparse.mockResolvedValue('mock-commit-hash\n');
   mockGitInterface.diff.mockResolvedValue(
     'prompts/prompt1.txt\npromptfooconfig.yaml',
@@ -169,6 +192,7 @@ function setupCommonMocks(): MockOctokit {
   mockCache.createCacheManifest.mockResolvedValue();
   mockCache.logCacheMetrics.mockResolvedValue();
   mockConfig.extractFileDependencies.mockReturnValue([]);
+  mockConfig.extractConfigPrompts.mockReturnValue([]);
   mockFsUtils.isDirectory.mockReturnValue(false);
 
   // Setup octokit mock
@@ -179,12 +203,38 @@ function setupCommonMocks(): MockOctokit {
         { filename: 'promptfooconfig.yaml' },
       ]),
     ),
+    graphql: vi.fn(() => Promise.resolve({})),
     rest: {
+      checks: {
+        create: vi.fn(() => Promise.resolve({})),
+      },
       issues: {
         createComment: vi.fn(() => Promise.resolve({})),
+        listComments: vi.fn(),
+        updateComment: vi.fn(() => Promise.resolve({})),
       },
       pulls: {
+        createReview: vi.fn(() => Promise.resolve({})),
+        get: vi.fn(() =>
+          Promise.resolve({
+            data: {
+              number: 123,
+              head: { sha: 'c'.repeat(40) },
+              base: { sha: 'a'.repeat(40) },
+            },
+          }),
+        ),
         listFiles: vi.fn(),
+        listReviewComments: vi.fn(),
+        updateReviewComment: vi.fn(() => Promise.resolve({})),
+      },
+      reactions: {
+        createForIssueComment: vi.fn(() => Promise.resolve({})),
+      },
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn(() =>
+          Promise.resolve({ data: { permission: 'write' } }),
+        ),
       },
     },
   };
@@ -325,31 +375,295 @@ describe('GitHub Action Main', () => {
       );
     });
 
-    test('should process all matching prompts when PR file list hits GitHub cap', async () => {
-      mockOctokit.paginate.mockResolvedValue(
-        Array.from({ length: 3000 }, (_, index) => ({
-          filename: `docs/file-${index}.md`,
-        })),
-      );
-      mockGlob.sync.mockReturnValue([
-        'prompts/prompt1.txt',
-        'prompts/prompt2.txt',
-      ]);
+    describe('when the PR file list hits the GitHub cap', () => {
+      const baseSha = 'a'.repeat(40);
+      const headSha = 'b'.repeat(40);
+
+      beforeEach(() => {
+        mockOctokit.paginate.mockResolvedValue(
+          Array.from({ length: 3000 }, (_, index) => ({
+            filename: `docs/file-${index}.md`,
+          })),
+        );
+        mockGlob.sync.mockReturnValue([
+          'prompts/prompt1.txt',
+          'prompts/prompt2.txt',
+        ]);
+        Object.defineProperty(mockGithub.context, 'payload', {
+          value: {
+            pull_request: {
+              number: 1,
+              base: { sha: baseSha },
+              head: { sha: headSha },
+            },
+          },
+          configurable: true,
+        });
+      });
 
-      await run();
+      test('should list changed files with a local git diff', async () => {
+        mockGitInterface.diff.mockResolvedValueOnce('prompts/prompt2.txt\n');
 
-      expect(mockCore.warning).toHaveBeenCalledWith(
-        expect.stringContaining('GitHub only returns the first 3000 files'),
-      );
-      const promptfooCall = mockExec.exec.mock.calls[0];
-      const args = promptfooCall[1] as string[];
-      expect(args).toEqual(
-        expect.arrayContaining([
-          '--prompts',
+        await run();
+
+        expect(mockGitInterface.revparse).toHaveBeenCalledWith([
+          '--is-shallow-repository',
+        ]);
+        expect(mockGitInterface.fetch).not.toHaveBeenCalled();
+        expect(mockGitInterface.diff).toHaveBeenCalledWith([
+          '--name-only',
+          `${baseSha}...${headSha}`,
+          '--',
+        ]);
+        expect(mockCore.info).toHaveBeenCalledWith(
+          'Found 1 changed files with git',
+        );
+        const args = mockExec.exec.mock.calls[0][1] as string[];
+        expect(args).toContain('prompts/prompt2.txt');
+        expect(args).not.toContain('prompts/prompt1.txt');
+      });
+
+      test('should fetch history before diffing a shallow checkout', async () => {
+        mockGitInterface.revparse.mockResolvedValueOnce('true\n');
+        mockGitInterface.diff.mockResolvedValueOnce('prompts/prompt1.txt');
+
+        await run();
+
+        expect(mockGitInterface.fetch).toHaveBeenCalledWith([
+          '--no-tags',
+          '--unshallow',
+          'origin',
+          baseSha,
+          headSha,
+        ]);
+        expect(mockGitInterface.fetch.mock.invocationCallOrder[0]).toBeLessThan(
+          mockGitInterface.diff.mock.invocationCallOrder[0],
+        );
+        const args = mockExec.exec.mock.calls[0][1] as string[];
+        expect(args).toContain('prompts/prompt1.txt');
+        expect(args).not.toContain('prompts/prompt2.txt');
+      });
+
+      test('should process all matching prompts when git diff fails', async () => {
+        mockGitInterface.diff.mockRejectedValueOnce(new Error('bad object'));
+
+        await run();
+
+        expect(mockCore.warning).toHaveBeenCalledWith(
+          'Could not list the pull request files with git: bad object. Processing all matching prompt files to avoid missing changes.',
+        );
+        const args = mockExec.exec.mock.calls[0][1] as string[];
+        expect(args).toEqual(
+          expect.arrayContaining([
+            '--prompts',
+            'prompts/prompt1.txt',
+            'prompts/prompt2.txt',
+          ]),
+        );
+      });
+
+      test('should process all matching prompts without a base commit', async () => {
+        Object.defineProperty(mockGithub.context, 'payload', {
+          value: { pull_request: { number: 1 } },
+          configurable: true,
+        });
+
+        await run();
+
+        expect(mockGitInterface.diff).not.toHaveBeenCalled();
+        expect(mockCore.warning).toHaveBeenCalledWith(
+          expect.stringContaining('the pull request base commit is unknown'),
+        );
+        const args = mockExec.exec.mock.calls[0][1] as string[];
+        expect(args).toEqual(
+          expect.arrayContaining([
+            'prompts/prompt1.txt',
+            'prompts/prompt2.txt',
+          ]),
+        );
+      });
+
+      test('should reject invalid pull request commits', async () => {
+        Object.defineProperty(mockGithub.context, 'payload', {
+          value: {
+            pull_request: {
+              number: 1,
+              base: { sha: 'main' },
+              head: { sha: headSha },
+            },
+          },
+          configurable: true,
+        });
+
+        await run();
+
+        expect(mockGitInterface.revparse).not.toHaveBeenCalledWith([
+          '--is-shallow-repository',
+        ]);
+        expect(mockCore.warning).toHaveBeenCalledWith(
+          expect.stringContaining(
+            'Invalid pull request base commit "main": expected a 40-character commit SHA',
+          ),
+        );
+      });
+
+      test('should report non-Error git failures', async () => {
+        mockGitInterface.revparse.mockRejectedValueOnce('not a git repository');
+
+        await run();
+
+        expect(mockCore.warning).toHaveBeenCalledWith(
+          expect.stringContaining(
+            'Could not list the pull request files with git: not a git repository.',
+          ),
+        );
+      });
+    });
+
+    describe('pull request file statuses', () => {
+      function getCommentBody(): string {
+        return mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+      }
+
+      test('excludes removed prompt files from --prompts', async () => {
+        mockOctokit.paginate.mockResolvedValue([
+          { filename: 'prompts/prompt1.txt', status: 'removed' },
+          { filename: 'prompts/prompt2.txt', status: 'modified' },
+        ]);
+        // A pull_request_target checkout still has the removed file
+        mockGlob.sync.mockReturnValue([
           'prompts/prompt1.txt',
           'prompts/prompt2.txt',
-        ]),
-      );
+        ]);
+
+        await run();
+
+        const args = mockExec.exec.mock.calls[0][1] as string[];
+        expect(args).toEqual(
+          expect.arrayContaining(['--prompts', 'prompts/prompt2.txt']),
+        );
+        expect(args).not.toContain('prompts/prompt1.txt');
+        expect(getCommentBody()).toContain(
+          '⚠️ LLM prompt was modified in these files: prompts/prompt2.txt\n\n🗑️ LLM prompt removed: prompts/prompt1.txt',
+        );
+      });
+
+      test('evaluates when the only changed prompt was removed', async () => {
+        mockOctokit.paginate.mockResolvedValue([
+          { filename: 'prompts/old.txt', status: 'removed' },
+        ]);
+        mockGlob.sync.mockReturnValue([]);
+
+        await run();
+
+        const args = mockExec.exec.mock.calls[0][1] as string[];
+        expect(args).not.toContain('--prompts');
+        expect(getCommentBody()).toContain(
+          '🗑️ LLM prompt removed: prompts/old.txt',
+        );
+        expect(getCommentBody()).not.toContain('LLM prompt was modified');
+      });
+
+      test('matches removed prompts relative to working-directory', async () => {
+        withInputs({ 'working-directory': 'evals' });
+        mockOctokit.paginate.mockResolvedValue([
+          { filename: 'evals/prompts/old.txt', status: 'removed' },
+          { filename: 'prompts/other.txt', status: 'removed' },
+        ]);
+        mockGlob.sync.mockReturnValue([]);
+
+        await run();
+
+        expect(getCommentBody()).toContain(
+          '🗑️ LLM prompt removed: prompts/old.txt',
+        );
+        expect(getCommentBody()).not.toContain('other.txt');
+      });
+
+      test('counts a renamed prompt as a change to both paths', async () => {
+        mockOctokit.paginate.mockResolvedValue([
+          {
+            filename: 'prompts/new.txt',
+            status: 'renamed',
+            previous_filename: 'prompts/old.txt',
+          },
+        ]);
+        mockGlob.sync.mockReturnValue(['prompts/new.txt']);
+
+        await run();
+
+        expect(mockExec.exec).toHaveBeenCalledWith(
+          'npx',
+          expect.arrayContaining(['--prompts', 'prompts/new.txt']),
+          expect.any(Object),
+        );
+        expect(getCommentBody()).toContain(
+          '⚠️ LLM prompt was modified in these files: prompts/new.txt\n\n🗑️ LLM prompt removed: prompts/old.txt',
+        );
+      });
+
+      test('evaluates when a prompt is renamed out of the prompts glob', async () => {
+        mockOctokit.paginate.mockResolvedValue([
+          {
+            filename: 'archive/old.txt',
+            status: 'renamed',
+            previous_filename: 'prompts/old.txt',
+          },
+        ]);
+        mockGlob.sync.mockReturnValue([]);
+
+        await run();
+
+        expect(getCommentBody()).toContain(
+          '🗑️ LLM prompt removed: prompts/old.txt',
+        );
+      });
+
+      test('matches config dependencies against the old path of a rename', async () => {
+        withInputs({ prompts: '' });
+        mockOctokit.paginate.mockResolvedValue([
+          {
+            filename: 'data/tests-v2.csv',
+            status: 'renamed',
+            previous_filename: 'data/tests.csv',
+          },
+        ]);
+        mockConfig.extractFileDependencies.mockReturnValue(['data/tests.csv']);
+
+        await run();
+
+        expect(mockCore.info).toHaveBeenCalledWith(
+          'Detected changes in config file dependencies',
+        );
+      });
+
+      test('keeps the status of a file added at the old path of a rename', async () => {
+        mockOctokit.paginate.mockResolvedValue([
+          {
+            filename: 'prompts/v1.txt',
+            status: 'renamed',
+            previous_filename: 'prompts/prompt1.txt',
+          },
+          { filename: 'prompts/prompt1.txt', status: 'added' },
+        ]);
+        mockGlob.sync.mockReturnValue([
+          'prompts/prompt1.txt',
+          'prompts/v1.txt',
+        ]);
+
+        await run();
+
+        expect(mockExec.exec).toHaveBeenCalledWith(
+          'npx',
+          expect.arrayContaining([
+            '--prompts',
+            'prompts/prompt1.txt',
+            'prompts/v1.txt',
+          ]),
+          expect.any(Object),
+        );
+        expect(getCommentBody()).not.toContain('LLM prompt removed');
+      });
     });
 
     test('should handle empty prompts input', async () => {
@@ -889,6 +1203,124 @@ describe('GitHub Action Main', () => {
       }
     });
 
+    describe('merge_group events', () => {
+      const mergeGroupPayload = {
+        merge_group: {
+          base_sha: 'a'.repeat(40),
+          head_sha: 'c'.repeat(40),
+          head_ref: 'refs/heads/gh-readonly-queue/main/pr-1-abc',
+        },
+      };
+
+      beforeEach(() => {
+        Object.defineProperty(mockGithub.context, 'eventName', {
+          value: 'merge_group',
+          configurable: true,
+        });
+        Object.defineProperty(mockGithub.context, 'payload', {
+          value: mergeGroupPayload,
+          configurable: true,
+        });
+        Object.defineProperty(mockGithub.context, 'sha', {
+          value: 'c'.repeat(40),
+          configurable: true,
+        });
+      });
+
+      test('should diff the merge group base against its head', async () => {
+        mockGitInterface.diff.mockResolvedValueOnce('prompts/prompt1.txt\n');
+        mockCore.getBooleanInput.mockImplementation(
+          (name: string) => name === 'check-run',
+        );
+
+        await run();
+
+        expect(mockCore.info).toHaveBeenCalledWith(
+          'Running in merge_group mode',
+        );
+        expect(mockGitInterface.fetch).toHaveBeenCalledWith([
+          '--no-tags',
+          '--depth=1',
+          'origin',
+          'a'.repeat(40),
+        ]);
+        expect(mockGitInterface.diff).toHaveBeenCalledWith([
+          '--name-only',
+          'a'.repeat(40),
+          'c'.repeat(40),
+          '--',
+        ]);
+        expect(mockExec.exec).toHaveBeenCalled();
+        expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+        expect(mockCore.summary.write).toHaveBeenCalled();
+        expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            head_sha: 'c'.repeat(40),
+            conclusion: 'success',
+          }),
+        );
+      });
+
+      test('should skip the evaluation when nothing relevant changed', async () => {
+        mockGitInterface.diff.mockResolvedValueOnce('docs/readme.md\n');
+        mockGlob.sync.mockReturnValue(['prompts/prompt1.txt']);
+
+        await run();
+
+        expect(mockCore.info).toHaveBeenCalledWith(
+          'No LLM prompt, config files, or dependencies were modified.',
+        );
+        expect(mockExec.exec).not.toHaveBeenCalled();
+      });
+
+      test('should diff the merge group even when fetching the base fails', async () => {
+        mockGitInterface.fetch.mockRejectedValueOnce(new Error('offline'));
+
+        await run();
+
+        expect(mockCore.debug).toHaveBeenCalledWith(
+          `Could not fetch merge group base commit ${'a'.repeat(40)}: Error: offline`,
+        );
+        expect(mockGitInterface.diff).toHaveBeenCalled();
+      });
+
+      test('should process all prompts when the merge group diff fails', async () => {
+        mockGitInterface.diff.mockRejectedValueOnce(new Error('bad object'));
+
+        await run();
+
+        expect(mockCore.warning).toHaveBeenCalledWith(
+          expect.stringContaining('Could not compare the merge group commits'),
+        );
+        expect(mockExec.exec).toHaveBeenCalled();
+      });
+
+      test('should process all prompts without a base commit', async () => {
+        Object.defineProperty(mockGithub.context, 'payload', {
+          value: {},
+          configurable: true,
+        });
+
+        await run();
+
+        expect(mockCore.info).toHaveBeenCalledWith(
+          'Unable to determine changed files from merge_group event. Will process all matching prompt files.',
+        );
+        expect(mockGitInterface.diff).not.toHaveBeenCalled();
+        expect(mockExec.exec).toHaveBeenCalled();
+      });
+
+      test('should fail the action when the threshold is not met', async () => {
+        withInputs({ 'fail-on-threshold': '90' });
+
+        await run();
+
+        expect(mockCore.setFailed).toHaveBeenCalledWith(
+          expect.stringContaining('below the required threshold'),
+        );
+      });
+    });
+
     test('should handle unsupported events with warning', async () => {
       Object.defineProperty(mockGithub.context, 'eventName', {
         value: 'issues',
@@ -899,7 +1331,7 @@ describe('GitHub Action Main', () => {
 
       expect(mockCore.warning).toHaveBeenCalledWith(
         expect.stringContaining(
-          'This action is designed to run on pull request, push, or workflow_dispatch events',
+          'This action is designed to run on pull request, merge_group, push, or workflow_dispatch events',
         ),
       );
     });
@@ -1111,6 +1543,98 @@ describe('GitHub Action Main', () => {
       expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
     });
 
+    test('should update the previous PR comment for the same config', async () => {
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: {
+          pull_request: {
+            number: 123,
+            head: { sha: 'c'.repeat(40) },
+          },
+        },
+        configurable: true,
+      });
+      const marker = getCommentMarker(
+        'promptfooconfig.yaml',
+        process.env.GITHUB_JOB,
+      );
+      mockOctokit.paginate.mockImplementation((method: unknown) =>
+        Promise.resolve(
+          method === mockOctokit.rest.issues.listComments
+            ? [
+                {
+                  id: 7,
+                  node_id: 'IC_7',
+                  user: { login: 'github-actions[bot]', type: 'Bot' },
+                  body: `${marker}\nold results`,
+                },
+              ]
+            : [{ filename: 'prompts/prompt1.txt' }],
+        ),
+      );
+
+      await run();
+
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(
+        mockOctokit.rest.issues.listComments,
+        expect.objectContaining({ issue_number: 123 }),
+      );
+      expect(mockOctokit.rest.issues.updateComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 7,
+        body: expect.stringContaining('LLM prompt was modified'),
+      });
+      const body = mockOctokit.rest.issues.updateComment.mock.calls[0][0].body;
+      expect(body.startsWith(marker)).toBe(true);
+      expect(body).toContain(`"sha":"${'c'.repeat(40)}"`);
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    test('should post a new PR comment when comment-mode is create', async () => {
+      withInputs({ 'comment-mode': 'create' });
+      mockCore.getBooleanInput.mockImplementation(
+        (name: string) => name === 'hide-outdated-comments',
+      );
+      const marker = getCommentMarker(
+        'promptfooconfig.yaml',
+        process.env.GITHUB_JOB,
+      );
+      mockOctokit.paginate.mockImplementation((method: unknown) =>
+        Promise.resolve(
+          method === mockOctokit.rest.issues.listComments
+            ? [
+                {
+                  id: 7,
+                  node_id: 'IC_7',
+                  user: { login: 'github-actions[bot]', type: 'Bot' },
+                  body: `${marker}\nold results`,
+                },
+              ]
+            : [{ filename: 'prompts/prompt1.txt' }],
+        ),
+      );
+
+      await run();
+
+      expect(mockOctokit.rest.issues.updateComment).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.issues.createComment).toHaveBeenCalled();
+      expect(mockOctokit.graphql).toHaveBeenCalledWith(
+        expect.stringContaining('minimizeComment'),
+        { subjectId: 'IC_7' },
+      );
+    });
+
+    test('should reject an unknown comment-mode', async () => {
+      withInputs({ 'comment-mode': 'upsert' });
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('comment-mode must be one of update, create'),
+      );
+      expect(mockExec.exec).not.toHaveBeenCalled();
+    });
+
     test('should not include any flags when all are false', async () => {
       await run();
 
@@ -1374,6 +1898,10 @@ describe('GitHub Action Main', () => {
         'Repeat Check',
         3,
       );
+      expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+        'Failed Tests',
+        3,
+      );
       expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
         expect.stringContaining('Repeat check'),
       );
@@ -1383,57 +1911,251 @@ describe('GitHub Action Main', () => {
       expect(mockCore.summary.write).toHaveBeenCalled();
     });
 
-    test('should omit evaluated files when a non-PR run uses config prompts', async () => {
-      Object.defineProperty(mockGithub.context, 'eventName', {
-        value: 'workflow_dispatch',
-        configurable: true,
-      });
-      Object.defineProperty(mockGithub.context, 'payload', {
-        value: {
-          inputs: {},
-        },
-        configurable: true,
-      });
-      withInputs({ prompts: '' });
+    test('should break results down by provider and prompt', async () => {
+      const mockOctokit = setupCommonMocks();
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          results: {
+            results: [
+              {
+                testIdx: 0,
+                promptIdx: 0,
+                success: true,
+                provider: { id: 'openai:gpt-4o' },
+                prompt: { label: 'concise' },
+              },
+              {
+                testIdx: 0,
+                promptIdx: 1,
+                success: false,
+                provider: { id: 'anthropic:claude' },
+                prompt: { label: 'verbose' },
+              },
+            ],
+            stats: { successes: 1, failures: 1 },
+          },
+        }),
+      );
 
       await run();
 
-      expect(mockCore.summary.addHeading).not.toHaveBeenCalledWith(
-        'Evaluated Files',
-        3,
+      const commentBody =
+        mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+      expect(commentBody).toContain('**Results by provider**');
+      expect(commentBody).toContain('| anthropic:claude | 0 | 1 | 0% |');
+      expect(commentBody).toContain('| verbose | 0 | 1 | 0% |');
+      expect(commentBody.indexOf('Results by provider')).toBeLessThan(
+        commentBody.indexOf('**Failed tests**'),
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'provider-results',
+        JSON.stringify([
+          {
+            name: 'openai:gpt-4o',
+            id: 'openai:gpt-4o',
+            passed: 1,
+            failed: 0,
+            total: 1,
+            passRate: 100,
+          },
+          {
+            name: 'anthropic:claude',
+            id: 'anthropic:claude',
+            passed: 0,
+            failed: 1,
+            total: 1,
+            passRate: 0,
+          },
+        ]),
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'prompt-results',
+        expect.stringContaining('"name":"verbose","index":1'),
       );
-      expect(mockCore.summary.write).toHaveBeenCalled();
     });
 
-    test('should handle non-Error failures', async () => {
-      mockExec.exec.mockRejectedValue('subprocess unavailable');
+    test('should report token usage and cost', async () => {
+      const mockOctokit = setupCommonMocks();
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          results: {
+            results: [
+              {
+                testIdx: 0,
+                promptIdx: 0,
+                success: true,
+                tokenUsage: { total: 1200, prompt: 1000, completion: 200 },
+                cost: 0.0123456789,
+              },
+            ],
+            stats: { successes: 1, failures: 0 },
+          },
+        }),
+      );
 
       await run();
 
-      expect(mockCore.setFailed).toHaveBeenCalledWith(
-        'Error: subprocess unavailable',
+      expect(mockCore.setOutput).toHaveBeenCalledWith('total-tokens', '1200');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('total-cost', '0.012346');
+      const commentBody =
+        mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+      expect(commentBody).toContain(
+        '**Token usage**: 1,200 tokens (prompt 1,000, completion 200, cached 0), estimated cost $0.0123',
       );
     });
-  });
-
-  describe('handleError function', () => {
-    test('should set failed status with error message', () => {
-      const error = new Error('Test error');
-      handleError(error);
-      expect(mockCore.setFailed).toHaveBeenCalledWith('Error: Test error');
-    });
-  });
 
-  describe('security validation', () => {
-    test('should use the GitHub API instead of PR refs for changed files', async () => {
-      Object.defineProperty(mockGithub.context, 'payload', {
-        value: {
-          pull_request: {
-            number: 123,
-            base: { ref: '--upload-pack=/evil/script' },
-            head: { ref: 'feature branch' },
-          },
-        },
+    test('should report latency per provider', async () => {
+      const mockOctokit = setupCommonMocks();
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          results: {
+            results: [
+              {
+                testIdx: 0,
+                promptIdx: 0,
+                success: true,
+                description: 'Long answer',
+                latencyMs: 3200,
+              },
+            ],
+            stats: { successes: 1, failures: 0 },
+          },
+        }),
+      );
+
+      await run();
+
+      const commentBody =
+        mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+      expect(commentBody).toContain('**Latency by provider**');
+      expect(commentBody).toContain(
+        '| Long answer | unknown provider | prompt 0 | 3.2 s |',
+      );
+    });
+
+    test('should add token usage to a non-PR workflow summary', async () => {
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'workflow_dispatch',
+        configurable: true,
+      });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: { inputs: { files: 'prompts/prompt1.txt' } },
+        configurable: true,
+      });
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          results: {
+            results: [
+              {
+                testIdx: 0,
+                promptIdx: 0,
+                success: true,
+                cost: 2,
+                latencyMs: 120,
+              },
+            ],
+            stats: { successes: 1, failures: 0 },
+          },
+        }),
+      );
+
+      await run();
+
+      expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+        'Token Usage',
+        3,
+      );
+      expect(mockCore.summary.addHeading).toHaveBeenCalledWith('Latency', 3);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('total-tokens', '0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('total-cost', '2');
+    });
+
+    test('should add the breakdown to a non-PR workflow summary', async () => {
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'workflow_dispatch',
+        configurable: true,
+      });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: { inputs: { files: 'prompts/prompt1.txt' } },
+        configurable: true,
+      });
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          results: {
+            results: [
+              { testIdx: 0, promptIdx: 0, success: true },
+              { testIdx: 0, promptIdx: 1, success: true },
+            ],
+            stats: { successes: 2, failures: 0 },
+          },
+        }),
+      );
+
+      await run();
+
+      expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+        'Results Breakdown',
+        3,
+      );
+      expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+        expect.stringContaining('| prompt 1 | 1 | 0 | 100% |'),
+      );
+      expect(mockCore.summary.addRaw).not.toHaveBeenCalledWith(
+        expect.stringContaining('Results by provider'),
+      );
+    });
+
+    test('should omit evaluated files when a non-PR run uses config prompts', async () => {
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'workflow_dispatch',
+        configurable: true,
+      });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: {
+          inputs: {},
+        },
+        configurable: true,
+      });
+      withInputs({ prompts: '' });
+
+      await run();
+
+      expect(mockCore.summary.addHeading).not.toHaveBeenCalledWith(
+        'Evaluated Files',
+        3,
+      );
+      expect(mockCore.summary.write).toHaveBeenCalled();
+    });
+
+    test('should handle non-Error failures', async () => {
+      mockExec.exec.mockRejectedValue('subprocess unavailable');
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Error: subprocess unavailable',
+      );
+    });
+  });
+
+  describe('handleError function', () => {
+    test('should set failed status with error message', () => {
+      const error = new Error('Test error');
+      handleError(error);
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Error: Test error');
+    });
+  });
+
+  describe('security validation', () => {
+    test('should use the GitHub API instead of PR refs for changed files', async () => {
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: {
+          pull_request: {
+            number: 123,
+            base: { ref: '--upload-pack=/evil/script' },
+            head: { ref: 'feature branch' },
+          },
+        },
         configurable: true,
       });
 
@@ -1709,7 +2431,7 @@ describe('disable-comment feature', () => {
     expect(mainContent).toContain(
       'if (isPullRequest && pullRequestNumber && !disableComment)',
     );
-    expect(mainContent).toContain('octokit.rest.issues.createComment');
+    expect(mainContent).toContain('postPullRequestComment(octokit');
   });
 
   test('README.md should document the new parameter', () => {
@@ -2079,6 +2801,12 @@ describe('repeat-min-pass feature', () => {
     const commentBody =
       mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
     expect(commentBody).toContain('Repeat check');
+    // Failure details list the repeated test once, after the repeat section
+    expect(commentBody).toContain('**Failed tests** (1)');
+    expect(commentBody).toContain('Failing test (failed 3/3 runs)');
+    expect(commentBody.indexOf('Repeat check')).toBeLessThan(
+      commentBody.indexOf('**Failed tests**'),
+    );
     // And action should fail
     expect(mockCore.setFailed).toHaveBeenCalledWith(
       expect.stringContaining('failed the repeat check'),
@@ -2498,6 +3226,2558 @@ describe('exec error handling with repeat-min-pass', () => {
   });
 });
 
+describe('baseline comparison', () => {
+  const BASE_SHA = 'd'.repeat(40);
+  const headOutput = JSON.stringify({
+    results: {
+      results: [
+        { testIdx: 0, promptIdx: 0, success: false, description: 'Regressed' },
+        { testIdx: 1, promptIdx: 0, success: false, description: 'Broken' },
+        { testIdx: 2, promptIdx: 0, success: true, description: 'Stable' },
+      ],
+      stats: { successes: 1, failures: 2 },
+    },
+  });
+  const baselineOutput = JSON.stringify({
+    results: {
+      results: [
+        { testIdx: 0, promptIdx: 0, success: true, description: 'Regressed' },
+        { testIdx: 1, promptIdx: 0, success: false, description: 'Broken' },
+        { testIdx: 2, promptIdx: 0, success: true, description: 'Stable' },
+      ],
+      stats: { successes: 2, failures: 1 },
+    },
+  });
+  let mockOctokit: MockOctokit;
+
+  function withBaseline(baseline: string) {
+    mockFs.readFileSync.mockImplementation((filePath) =>
+      String(filePath).includes('baseline') ? baseline : headOutput,
+    );
+  }
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: {
+        pull_request: {
+          number: 123,
+          base: { ref: 'main', sha: BASE_SHA },
+          head: { ref: 'feature-branch', sha: 'e'.repeat(40) },
+        },
+      },
+      configurable: true,
+    });
+    withBaseline(baselineOutput);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.RUNNER_TEMP;
+  });
+
+  test('should evaluate the PR base commit in a temporary worktree', async () => {
+    process.env.RUNNER_TEMP = '/runner/temp';
+    withInputs({ baseline: 'base' });
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    expect(mockGitInterface.fetch).toHaveBeenCalledWith([
+      '--no-tags',
+      '--depth=1',
+      'origin',
+      BASE_SHA,
+    ]);
+    const worktreeCall = mockGitInterface.raw.mock.calls[0] as unknown as [
+      string[],
+    ];
+    const worktreePath = worktreeCall[0][3];
+    expect(worktreeCall[0]).toEqual([
+      'worktree',
+      'add',
+      '--detach',
+      worktreePath,
+      BASE_SHA,
+    ]);
+    expect(worktreePath).toMatch(/^\/runner\/temp\/promptfoo-baseline-/);
+
+    expect(mockExec.exec).toHaveBeenCalledTimes(2);
+    const [, baselineArgs, baselineOptions] = mockExec.exec.mock.calls[1];
+    expect(baselineArgs).toEqual(
+      expect.arrayContaining([
+        'promptfoo@latest',
+        'eval',
+        '-c',
+        path.join(worktreePath, 'promptfooconfig.yaml'),
+        '--prompts',
+        'prompts/prompt1.txt',
+        '--no-share',
+      ]),
+    );
+    expect(baselineArgs).not.toContain('--share');
+    expect(baselineOptions).toEqual(
+      expect.objectContaining({ cwd: worktreePath }),
+    );
+    expect(mockGitInterface.raw).toHaveBeenLastCalledWith([
+      'worktree',
+      'remove',
+      '--force',
+      worktreePath,
+    ]);
+
+    const commentBody =
+      mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(commentBody).toContain(
+      `**Baseline comparison** (vs base commit ${BASE_SHA.substring(0, 7)}): 1 newly failing`,
+    );
+    expect(commentBody).toContain('| 🔴 Newly failing | Regressed |');
+    expect(mockCore.setOutput).toHaveBeenCalledWith('regressions', '1');
+    // Without fail-on-regression, failing tests still fail the action
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('Promptfoo evaluation failed'),
+    );
+  });
+
+  test('should continue when the base commit cannot be fetched', async () => {
+    withInputs({ baseline: 'base' });
+    mockGitInterface.fetch.mockRejectedValueOnce(new Error('offline'));
+
+    await run();
+
+    expect(mockCore.debug).toHaveBeenCalledWith(
+      expect.stringContaining('Could not fetch baseline commit'),
+    );
+    expect(mockExec.exec).toHaveBeenCalledTimes(2);
+  });
+
+  test('should warn and skip the comparison when the baseline eval crashes', async () => {
+    withInputs({ baseline: 'base' });
+    mockExec.exec.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+    mockGitInterface.raw
+      .mockResolvedValueOnce('')
+      .mockRejectedValueOnce(new Error('worktree busy'));
+
+    await run();
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Skipping baseline comparison: Baseline evaluation exited with unexpected code 1',
+    );
+    expect(mockCore.setOutput).not.toHaveBeenCalledWith(
+      'regressions',
+      expect.any(String),
+    );
+    const commentBody =
+      mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(commentBody).not.toContain('Baseline comparison');
+  });
+
+  test('should report non-Error baseline failures', async () => {
+    withInputs({ baseline: 'base' });
+    mockGitInterface.raw.mockRejectedValueOnce('not a git repository');
+
+    await run();
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Skipping baseline comparison: not a git repository',
+    );
+  });
+
+  test('should compare push runs against the before commit', async () => {
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'push',
+      configurable: true,
+    });
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: { before: BASE_SHA, after: 'b'.repeat(40) },
+      configurable: true,
+    });
+    withInputs({ baseline: 'base' });
+
+    await run();
+
+    expect(mockGitInterface.raw).toHaveBeenCalledWith(
+      expect.arrayContaining(['worktree', 'add', '--detach', BASE_SHA]),
+    );
+    expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+      'Baseline Comparison',
+      3,
+    );
+  });
+
+  test('should warn when no base commit is available', async () => {
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'workflow_dispatch',
+      configurable: true,
+    });
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: { inputs: { files: 'prompts/prompt1.txt' } },
+      configurable: true,
+    });
+    withInputs({ baseline: 'base' });
+
+    await run();
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'No base commit is available for a "workflow_dispatch" event. Skipping baseline comparison.',
+    );
+    expect(mockExec.exec).toHaveBeenCalledTimes(1);
+  });
+
+  test('should load a stored baseline file', async () => {
+    withInputs({ 'baseline-file': 'baseline.json' });
+
+    await run();
+
+    expect(mockFs.readFileSync).toHaveBeenCalledWith(
+      path.resolve(process.cwd(), 'baseline.json'),
+      'utf8',
+    );
+    expect(mockGitInterface.raw).not.toHaveBeenCalled();
+    const commentBody =
+      mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(commentBody).toContain('(vs `baseline.json`)');
+  });
+
+  test('should pass gating when no tests regressed', async () => {
+    withInputs({ 'baseline-file': 'baseline.json' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'fail-on-regression',
+    );
+    withBaseline(headOutput);
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Regression check passed: no newly failing tests compared to the baseline (2 still failing)',
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Promptfoo exited with test-failure code 100, but regression check passed.',
+    );
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+  });
+
+  test('should fail gating when tests regressed', async () => {
+    withInputs({ 'baseline-file': 'baseline.json' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'fail-on-regression',
+    );
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('1 test(s) regressed compared to the baseline'),
+    );
+  });
+
+  test('should fail gating when a new test fails', async () => {
+    withInputs({ 'baseline-file': 'baseline.json' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'fail-on-regression',
+    );
+    withBaseline(
+      JSON.stringify({
+        results: {
+          results: [
+            {
+              testIdx: 0,
+              promptIdx: 0,
+              success: false,
+              description: 'Regressed',
+            },
+            { testIdx: 2, promptIdx: 0, success: true, description: 'Stable' },
+          ],
+          stats: { successes: 1, failures: 1 },
+        },
+      }),
+    );
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    expect(mockCore.setOutput).toHaveBeenCalledWith('regressions', '1');
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('1 test(s) regressed compared to the baseline'),
+    );
+  });
+
+  test('should fail gating when an edited test fails', async () => {
+    withInputs({ 'baseline-file': 'baseline.json' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'fail-on-regression',
+    );
+    withBaseline(headOutput.replace('"Broken"', '"Broken before the edit"'));
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    const commentBody =
+      mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(commentBody).toContain('| 🔴 New failing test | Broken |');
+    expect(mockCore.info).not.toHaveBeenCalledWith(
+      expect.stringContaining('but regression check passed'),
+    );
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('1 test(s) regressed compared to the baseline'),
+    );
+  });
+
+  test('should fall back to other checks when the baseline is unavailable', async () => {
+    withInputs({ 'baseline-file': 'baseline.json' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'fail-on-regression',
+    );
+    withBaseline('{oops');
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      expect.stringContaining('fail-on-regression is set but no baseline'),
+    );
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('Promptfoo evaluation failed'),
+    );
+  });
+
+  test('should require baseline-file for file baselines', async () => {
+    withInputs({ baseline: 'file' });
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('baseline: file requires baseline-file'),
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  test('should require a baseline for fail-on-regression', async () => {
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'fail-on-regression',
+    );
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'fail-on-regression requires a baseline to compare against',
+      ),
+    );
+  });
+});
+
+describe('check run', () => {
+  const HEAD_SHA = 'e'.repeat(40);
+  const configContent = `prompts:
+  - file://prompts/prompt1.txt
+tests:
+  - description: Greets the user
+    assert:
+      - type: contains
+        value: hello
+  - vars:
+      name: Bob
+`;
+  const evalOutput = JSON.stringify({
+    results: {
+      results: [
+        {
+          testIdx: 0,
+          promptIdx: 0,
+          success: false,
+          description: 'Greets the user',
+          provider: { id: 'openai:gpt-4o' },
+          gradingResult: {
+            pass: false,
+            score: 0,
+            reason: 'Expected output to contain "hello"',
+            assertion: { type: 'contains' },
+          },
+        },
+        { testIdx: 1, promptIdx: 0, success: true },
+      ],
+      stats: { successes: 1, failures: 1 },
+    },
+  });
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: {
+        pull_request: {
+          number: 123,
+          base: { ref: 'main' },
+          head: { ref: 'feature-branch', sha: HEAD_SHA },
+        },
+      },
+      configurable: true,
+    });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'check-run',
+    );
+    mockFs.readFileSync.mockImplementation((filePath) =>
+      String(filePath).endsWith('promptfooconfig.yaml')
+        ? configContent
+        : evalOutput,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should not create a check run by default', async () => {
+    mockCore.getBooleanInput.mockReturnValue(false);
+
+    await run();
+
+    expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+  });
+
+  test('should report failing tests as annotations', async () => {
+    mockExec.exec.mockResolvedValue(100);
+
+    await run();
+
+    expect(mockOctokit.rest.checks.create).toHaveBeenCalledTimes(1);
+    const request = mockOctokit.rest.checks.create.mock.calls[0][0];
+    expect(request).toMatchObject({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      name: 'promptfoo: promptfooconfig.yaml',
+      head_sha: HEAD_SHA,
+      status: 'completed',
+      conclusion: 'failure',
+    });
+    expect(request.output.title).toBe('1 passed, 1 failed');
+    expect(request.output.summary).toContain('**1 passed, 1 failed**');
+    expect(request.output.summary).toContain('**Failed tests** (1)');
+    expect(request.output.summary).toContain('View eval results in CI console');
+    expect(request.output.annotations).toEqual([
+      {
+        path: 'promptfooconfig.yaml',
+        start_line: 4,
+        end_line: 4,
+        annotation_level: 'failure',
+        title: 'Greets the user [openai:gpt-4o]',
+        message:
+          'contains: Expected output to contain "hello"\nPrompt: prompt 0',
+      },
+    ]);
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('Promptfoo evaluation failed'),
+    );
+  });
+
+  test('should conclude success when the thresholds pass', async () => {
+    withInputs({ 'fail-on-threshold': '50' });
+    mockExec.exec.mockResolvedValue(100);
+    mockFs.readFileSync.mockImplementation((filePath) => {
+      if (String(filePath).endsWith('promptfooconfig.yaml')) {
+        throw new Error('ENOENT');
+      }
+      return JSON.stringify({
+        ...JSON.parse(evalOutput),
+        shareableUrl: 'https://promptfoo.app/eval/1',
+      });
+    });
+
+    await run();
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+    const request = mockOctokit.rest.checks.create.mock.calls[0][0];
+    expect(request.conclusion).toBe('success');
+    expect(request.output.summary).toContain(
+      '[View eval results](https://promptfoo.app/eval/1)',
+    );
+    expect(request.output.annotations[0].start_line).toBe(1);
+  });
+
+  test('should conclude neutral when the evaluation is skipped', async () => {
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'README.md' }]);
+
+    await run();
+
+    expect(mockExec.exec).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        conclusion: 'neutral',
+        head_sha: HEAD_SHA,
+        output: expect.objectContaining({
+          title: 'Skipped: no relevant changes',
+        }),
+      }),
+    );
+  });
+});
+
+describe('review comments', () => {
+  const HEAD_SHA = 'e'.repeat(40);
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: {
+        pull_request: {
+          number: 123,
+          base: { ref: 'main' },
+          head: { ref: 'feature-branch', sha: HEAD_SHA },
+        },
+      },
+      configurable: true,
+    });
+    mockOctokit.paginate.mockResolvedValue([
+      {
+        filename: 'prompts/prompt1.txt',
+        patch: '@@ -1,2 +1,2 @@\n-Old line\n+New line\n Context',
+      },
+      { filename: 'promptfooconfig.yaml' },
+    ]);
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'review-comments',
+    );
+    mockFs.readFileSync.mockReturnValue(
+      JSON.stringify({
+        results: {
+          results: [
+            {
+              testIdx: 0,
+              promptIdx: 0,
+              success: false,
+              description: 'Greets the user',
+              provider: { id: 'openai:gpt-4o' },
+              prompt: { label: 'prompts/prompt1.txt: New line' },
+              error: 'Output did not match',
+            },
+          ],
+          stats: { successes: 0, failures: 1 },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should comment on the changed lines of failing prompts', async () => {
+    await run();
+
+    expect(mockOctokit.rest.pulls.createReview).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      pull_number: 123,
+      commit_id: HEAD_SHA,
+      event: 'COMMENT',
+      body: 'promptfoo found failing tests for 1 changed prompt file(s).',
+      comments: [
+        {
+          path: 'prompts/prompt1.txt',
+          line: 1,
+          side: 'RIGHT',
+          body: expect.stringContaining(
+            '- **Greets the user** [openai:gpt-4o]: Output did not match',
+          ),
+        },
+      ],
+    });
+  });
+
+  test('should not review unless enabled', async () => {
+    mockCore.getBooleanInput.mockReturnValue(false);
+
+    await run();
+
+    expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled();
+  });
+});
+
+describe('run reason', () => {
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+  });
+
+  function getRunReasonOutput(): unknown {
+    const call = mockCore.setOutput.mock.calls.find(
+      ([name]) => name === 'run-reason',
+    );
+    return JSON.parse(call?.[1] as string);
+  }
+
+  test('should report the triggering files in the output and comment', async () => {
+    await run();
+
+    expect(getRunReasonOutput()).toEqual({
+      run: true,
+      categories: ['prompt-files', 'config'],
+      files: ['prompts/prompt1.txt', 'promptfooconfig.yaml'],
+      description: 'prompt files changed; config changed',
+    });
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining(
+          '**Run reason:** prompt files changed; config changed (`prompts/prompt1.txt`, `promptfooconfig.yaml`)',
+        ),
+      }),
+    );
+  });
+
+  test('should add the run reason to a non-PR workflow summary', async () => {
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'workflow_dispatch',
+      configurable: true,
+    });
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: { inputs: { files: 'prompts/prompt1.txt' } },
+      configurable: true,
+    });
+
+    await run();
+
+    expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+      '**Run reason:** prompt files changed (`prompts/prompt1.txt`)',
+      true,
+    );
+  });
+
+  describe('when nothing relevant changed', () => {
+    beforeEach(() => {
+      mockOctokit.paginate.mockResolvedValue([{ filename: 'README.md' }]);
+      mockGlob.sync.mockReturnValue([]);
+    });
+
+    test('should write a summary explaining the skip', async () => {
+      await run();
+
+      expect(mockExec.exec).not.toHaveBeenCalled();
+      expect(getRunReasonOutput()).toEqual({
+        run: false,
+        categories: [],
+        files: [],
+        description:
+          'no LLM prompt, config files, or dependencies were modified',
+      });
+      expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+        'Promptfoo Evaluation Skipped',
+      );
+      expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+        '**Skipped:** no LLM prompt, config files, or dependencies were modified.',
+        true,
+      );
+      expect(mockCore.summary.write).toHaveBeenCalled();
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    test('should comment on the skip with comment-on-skip', async () => {
+      mockCore.getBooleanInput.mockImplementation(
+        (name: string) => name === 'comment-on-skip',
+      );
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          issue_number: 123,
+          body: expect.stringContaining(
+            '**Skipped:** no LLM prompt, config files, or dependencies were modified.',
+          ),
+        }),
+      );
+    });
+
+    test('should not comment on the skip when comments are disabled', async () => {
+      mockCore.getBooleanInput.mockImplementation(
+        (name: string) =>
+          name === 'comment-on-skip' || name === 'disable-comment',
+      );
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    test('should not comment on the skip outside pull requests', async () => {
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'push',
+        configurable: true,
+      });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: { before: 'a'.repeat(40), after: 'b'.repeat(40) },
+        configurable: true,
+      });
+      mockGitInterface.diff.mockResolvedValueOnce('README.md');
+      mockCore.getBooleanInput.mockImplementation(
+        (name: string) => name === 'comment-on-skip',
+      );
+
+      await run();
+
+      expect(mockExec.exec).not.toHaveBeenCalled();
+      expect(mockCore.summary.write).toHaveBeenCalled();
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('config prompt files', () => {
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    withInputs({ prompts: '' });
+    mockConfig.extractConfigPrompts.mockReturnValue([
+      { pattern: 'prompts/*.txt' },
+    ]);
+  });
+
+  test('should skip when none of the config prompt files changed', async () => {
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'README.md' }]);
+    mockGlob.sync.mockReturnValue(['prompts/prompt1.txt']);
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Watching the prompt files of promptfooconfig.yaml: prompts/*.txt',
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  test('should name changed config prompts without overriding them', async () => {
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/prompt1.txt' },
+    ]);
+    mockGlob.sync.mockReturnValue(['prompts/prompt1.txt']);
+
+    await run();
+
+    const args = mockExec.exec.mock.calls[0][1] as string[];
+    expect(args).not.toContain('--prompts');
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining(
+          '⚠️ LLM prompt was modified in these files: prompts/prompt1.txt',
+        ),
+      }),
+    );
+  });
+
+  test('should resolve config prompt files from working-directory', async () => {
+    withInputs({ prompts: '', 'working-directory': 'evals' });
+    mockConfig.extractConfigPrompts.mockReturnValue([
+      { pattern: 'evals/prompts/*.txt' },
+    ]);
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'evals/prompts/prompt1.txt' },
+    ]);
+    mockGlob.sync.mockReturnValue(['prompts/prompt1.txt']);
+
+    await run();
+
+    expect(mockGlob.sync).toHaveBeenCalledWith(
+      'prompts/*.txt',
+      expect.objectContaining({ cwd: path.join(process.cwd(), 'evals') }),
+    );
+    expect(mockExec.exec).toHaveBeenCalled();
+  });
+
+  test('should not pass config prompts in a dry run', async () => {
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'dry-run',
+    );
+
+    await run();
+
+    expect(
+      mockCore.setOutput.mock.calls.find(
+        ([name]) => name === 'promptfoo-args',
+      )?.[1],
+    ).not.toContain('--prompts');
+  });
+});
+
+describe('changed prompt filtering', () => {
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) =>
+        name === 'use-config-prompts' || name === 'filter-changed-prompts',
+    );
+    mockConfig.extractConfigPrompts.mockReturnValue([
+      { pattern: 'prompts/prompt1.txt', label: 'Main (v2)' },
+      { pattern: 'prompts/prompt2.txt' },
+    ]);
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/prompt1.txt' },
+    ]);
+  });
+
+  test('should filter the config prompts to the changed ones', async () => {
+    await run();
+
+    const args = mockExec.exec.mock.calls[0][1] as string[];
+    expect(args).not.toContain('--prompts');
+    expect(args).toEqual(
+      expect.arrayContaining(['--filter-prompts', '^Main \\(v2\\)(?::|$)']),
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Evaluating only the changed prompts of promptfooconfig.yaml: ^Main \\(v2\\)(?::|$)',
+    );
+  });
+
+  test('should filter prompts that the config lists as dependencies', async () => {
+    const actualConfig = await vi.importActual<typeof config>(
+      '../src/utils/config',
+    );
+    const actualFsUtils =
+      await vi.importActual<typeof fsUtils>('../src/utils/fs');
+    vi.mocked(fsUtils.isPathInside).mockImplementation(
+      actualFsUtils.isPathInside,
+    );
+    mockConfig.extractFileDependencies.mockImplementation(
+      actualConfig.extractFileDependencies,
+    );
+    mockConfig.extractConfigPrompts.mockImplementation(
+      actualConfig.extractConfigPrompts,
+    );
+    const output = mockFs.readFileSync.getMockImplementation();
+    mockFs.readFileSync.mockImplementation((filePath, options) =>
+      String(filePath).endsWith('promptfooconfig.yaml')
+        ? [
+            'prompts:',
+            '  - file://prompts/prompt1.txt',
+            '  - id: file://prompts/prompt2.txt',
+            '    label: Secondary',
+            'providers:',
+            '  - openai:gpt-4o-mini',
+          ].join('\n')
+        : output?.(filePath, options),
+    );
+
+    await run();
+
+    expect(mockConfig.extractFileDependencies).toHaveReturnedWith([
+      'prompts/prompt1.txt',
+    ]);
+    expect(mockExec.exec.mock.calls[0][1]).toEqual(
+      expect.arrayContaining([
+        '--filter-prompts',
+        '(?:^|/)prompts/prompt1\\.txt(?::|$)',
+      ]),
+    );
+  });
+
+  test('should filter watched config prompts in a dry run', async () => {
+    withInputs({ prompts: '' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'filter-changed-prompts' || name === 'dry-run',
+    );
+    mockConfig.extractConfigPrompts.mockReturnValue([
+      { pattern: 'prompts/*.txt' },
+    ]);
+
+    await run();
+
+    expect(
+      JSON.parse(
+        mockCore.setOutput.mock.calls.find(
+          ([name]) => name === 'promptfoo-args',
+        )?.[1],
+      )[0],
+    ).toEqual(
+      expect.arrayContaining([
+        '--filter-prompts',
+        '(?:^|/)prompts/prompt1\\.txt(?::|$)',
+      ]),
+    );
+  });
+
+  test('should evaluate every prompt when the config changed', async () => {
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/prompt1.txt' },
+      { filename: 'promptfooconfig.yaml' },
+    ]);
+
+    await run();
+
+    expect(mockExec.exec.mock.calls[0][1]).not.toContain('--filter-prompts');
+  });
+
+  test('should evaluate every prompt when a changed file is not a config prompt', async () => {
+    mockConfig.extractConfigPrompts.mockReturnValue([
+      { pattern: 'prompts/prompt2.txt' },
+    ]);
+
+    await run();
+
+    expect(mockExec.exec.mock.calls[0][1]).not.toContain('--filter-prompts');
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Evaluating every prompt of promptfooconfig.yaml: the changed files do not map to its prompts',
+    );
+  });
+
+  test('should keep --prompts without the config prompts', async () => {
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'filter-changed-prompts',
+    );
+
+    await run();
+
+    expect(mockConfig.extractConfigPrompts).not.toHaveBeenCalled();
+    const args = mockExec.exec.mock.calls[0][1] as string[];
+    expect(args).toEqual(
+      expect.arrayContaining(['--prompts', 'prompts/prompt1.txt']),
+    );
+    expect(args).not.toContain('--filter-prompts');
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'filter-changed-prompts is ignored because prompts are set without use-config-prompts; the changed prompt files are passed with --prompts instead',
+    );
+  });
+});
+
+describe('prompt ignore patterns', () => {
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+  });
+
+  test('should exclude negated prompts patterns from prompt selection', async () => {
+    withInputs({ prompts: 'prompts/**/*.txt\n  !**/*.draft.txt' });
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/prompt1.txt' },
+      { filename: 'prompts/chat.draft.txt' },
+    ]);
+    mockGlob.sync.mockReturnValue([
+      'prompts/prompt1.txt',
+      'prompts/chat.draft.txt',
+    ]);
+
+    await run();
+
+    expect(mockGlob.sync).toHaveBeenCalledTimes(1);
+    expect(mockGlob.sync).toHaveBeenCalledWith(
+      'prompts/**/*.txt',
+      expect.any(Object),
+    );
+    const args = mockExec.exec.mock.calls[0][1] as string[];
+    expect(args).toEqual(
+      expect.arrayContaining(['--prompts', 'prompts/prompt1.txt']),
+    );
+    expect(args).not.toContain('prompts/chat.draft.txt');
+  });
+
+  test('should skip when only ignored prompts changed', async () => {
+    withInputs({ 'prompts-ignore': '**/*.draft.txt\n' });
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/chat.draft.txt' },
+      { filename: 'prompts/old.draft.txt', status: 'removed' },
+    ]);
+    mockGlob.sync.mockReturnValue(['prompts/chat.draft.txt']);
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'No LLM prompt, config files, or dependencies were modified.',
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  test('should not trigger runs for ignored dependency changes', async () => {
+    withInputs({ 'prompts-ignore': '**/fixtures/**' });
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'data/fixtures/sample.json' },
+    ]);
+    mockGlob.sync.mockReturnValue([]);
+    mockConfig.extractFileDependencies.mockReturnValue(['data/']);
+
+    await run();
+
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  test('should match ignore patterns from working-directory', async () => {
+    withInputs({
+      'working-directory': 'evals',
+      'prompts-ignore': 'fixtures/**',
+    });
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'evals/fixtures/sample.json' },
+      { filename: 'evals/data/tests.csv' },
+    ]);
+    mockGlob.sync.mockReturnValue([]);
+    mockConfig.extractFileDependencies.mockReturnValue([
+      'evals/fixtures/sample.json',
+      'evals/data/tests.csv',
+    ]);
+
+    await run();
+
+    expect(mockExec.exec).toHaveBeenCalled();
+    expect(
+      JSON.parse(
+        mockCore.setOutput.mock.calls.find(
+          ([name]) => name === 'run-reason',
+        )?.[1] as string,
+      ).files,
+    ).toEqual(['evals/data/tests.csv']);
+  });
+
+  test('should exclude ignored prompts without change information', async () => {
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'schedule',
+      configurable: true,
+    });
+    withInputs({ 'prompts-ignore': '**/*.draft.txt' });
+    mockGlob.sync.mockReturnValue([
+      'prompts/prompt1.txt',
+      'prompts/chat.draft.txt',
+    ]);
+
+    await run();
+
+    const args = mockExec.exec.mock.calls[0][1] as string[];
+    expect(args).toEqual(
+      expect.arrayContaining(['--prompts', 'prompts/prompt1.txt']),
+    );
+    expect(args).not.toContain('prompts/chat.draft.txt');
+  });
+});
+
+describe('change detection outputs', () => {
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+  });
+
+  function getOutputs(): Record<string, string> {
+    return Object.fromEntries(mockCore.setOutput.mock.calls) as Record<
+      string,
+      string
+    >;
+  }
+
+  test('should expose the changed files and what they matched', async () => {
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/prompt1.txt' },
+      { filename: 'data/tests.csv' },
+    ]);
+    mockConfig.extractFileDependencies.mockReturnValue([
+      'data/tests.csv',
+      'prompts/shared.txt',
+    ]);
+
+    await run();
+
+    expect(getOutputs()).toMatchObject({
+      'changed-files': 'prompts/prompt1.txt\ndata/tests.csv',
+      'changed-files-json': '["prompts/prompt1.txt","data/tests.csv"]',
+      'prompt-files': 'prompts/prompt1.txt',
+      'prompt-files-json': '["prompts/prompt1.txt"]',
+      dependencies: 'data/tests.csv\nprompts/shared.txt',
+      'dependencies-json': '["data/tests.csv","prompts/shared.txt"]',
+      'config-changed': 'false',
+      'dependency-changed': 'true',
+      evaluated: 'true',
+    });
+  });
+
+  test('should not report a changed prompt file as a dependency change', async () => {
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'prompts/prompt1.txt' },
+    ]);
+    // Prompt files referenced with file:// are config dependencies too
+    mockConfig.extractFileDependencies.mockReturnValue(['prompts/prompt1.txt']);
+
+    await run();
+
+    const outputs = getOutputs();
+    expect(outputs['dependency-changed']).toBe('false');
+    expect(JSON.parse(outputs['run-reason'])).toMatchObject({
+      categories: ['prompt-files'],
+      description: 'prompt files changed',
+      files: ['prompts/prompt1.txt'],
+    });
+  });
+
+  test('should report a config change', async () => {
+    await run();
+
+    expect(getOutputs()).toMatchObject({
+      'config-changed': 'true',
+      'dependency-changed': 'false',
+      dependencies: '',
+      'dependencies-json': '[]',
+    });
+  });
+
+  test('should report that nothing was evaluated on a skip', async () => {
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'README.md' }]);
+    mockGlob.sync.mockReturnValue([]);
+
+    await run();
+
+    expect(getOutputs()).toMatchObject({
+      'changed-files': 'README.md',
+      'prompt-files': '',
+      'prompt-files-json': '[]',
+      evaluated: 'false',
+    });
+  });
+});
+
+describe('dry run', () => {
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+  });
+
+  function getOutput(name: string): string | undefined {
+    return mockCore.setOutput.mock.calls.find(
+      ([outputName]) => outputName === name,
+    )?.[1] as string | undefined;
+  }
+
+  test('should print the plan without running promptfoo', async () => {
+    withInputs({ 'openai-api-key': 'sk-test-key' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'dry-run' || name === 'check-run',
+    );
+
+    await run();
+
+    expect(mockExec.exec).not.toHaveBeenCalled();
+    expect(getOutput('would-run')).toBe('true');
+    expect(getOutput('prompt-files')).toBe('prompts/prompt1.txt');
+    expect(getOutput('evaluated')).toBe('false');
+    expect(JSON.parse(getOutput('promptfoo-args') as string)).toEqual([
+      [
+        'promptfoo@latest',
+        'eval',
+        '-c',
+        'promptfooconfig.yaml',
+        '--prompts',
+        'prompts/prompt1.txt',
+        '--no-share',
+      ],
+    ]);
+    expect(mockCore.info).toHaveBeenCalledWith('  OPENAI_API_KEY=***');
+    expect(mockCore.info).not.toHaveBeenCalledWith(
+      expect.stringContaining('sk-test-key'),
+    );
+    expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+      'Promptfoo Dry Run',
+    );
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+  });
+
+  test('should report a skip without posting anything', async () => {
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'README.md' }]);
+    mockGlob.sync.mockReturnValue([]);
+    mockCore.getBooleanInput.mockImplementation((name: string) =>
+      ['dry-run', 'check-run', 'comment-on-skip'].includes(name),
+    );
+
+    await run();
+
+    expect(getOutput('would-run')).toBe('false');
+    expect(getOutput('promptfoo-args')).toBe('[]');
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Reason: no LLM prompt, config files, or dependencies were modified',
+    );
+    expect(mockCore.summary.addHeading).not.toHaveBeenCalledWith(
+      'Promptfoo Evaluation Skipped',
+    );
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+  });
+
+  test('should not clean the cache', async () => {
+    process.env.CI = 'true';
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'dry-run',
+    );
+
+    try {
+      await run();
+    } finally {
+      delete process.env.CI;
+    }
+
+    expect(mockCache.cleanupOldCache).not.toHaveBeenCalled();
+  });
+
+  test('should reject dry-run in the two-phase modes', async () => {
+    withInputs({ mode: 'comment' });
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'dry-run',
+    );
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('dry-run cannot be combined with mode: comment'),
+    );
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+});
+
+describe('slash command', () => {
+  let mockOctokit: MockOctokit;
+
+  const setComment = (
+    body: string,
+    overrides: Record<string, unknown> = {},
+  ) => {
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: {
+        action: 'created',
+        issue: { number: 123, pull_request: { url: 'https://example.com' } },
+        comment: { id: 42, body, user: { login: 'maintainer' } },
+        ...overrides,
+      },
+      configurable: true,
+    });
+  };
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'issue_comment',
+      configurable: true,
+    });
+    setComment('/promptfoo eval');
+    mockGitInterface.revparse.mockResolvedValue(`${'c'.repeat(40)}\n`);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should evaluate the pull request and comment with the results', async () => {
+    await run();
+
+    expect(
+      mockOctokit.rest.repos.getCollaboratorPermissionLevel,
+    ).toHaveBeenCalledWith(expect.objectContaining({ username: 'maintainer' }));
+    expect(
+      mockOctokit.rest.reactions.createForIssueComment,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 42, content: 'rocket' }),
+    );
+    expect(mockOctokit.rest.pulls.get).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 123 }),
+    );
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      mockOctokit.rest.pulls.listFiles,
+      expect.objectContaining({ pull_number: 123 }),
+    );
+    expect(mockCore.warning).not.toHaveBeenCalled();
+    expect(mockExec.exec).toHaveBeenCalled();
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 123 }),
+    );
+  });
+
+  test('should evaluate even when no prompt changed', async () => {
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'docs/readme.md' }]);
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Evaluation requested with /promptfoo eval - running evaluation regardless of changes',
+    );
+    expect(mockExec.exec).toHaveBeenCalled();
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalled();
+  });
+
+  test('should apply the command options', async () => {
+    setComment('/promptfoo eval --repeat 3 --filter-providers openai');
+
+    await run();
+
+    const args = mockExec.exec.mock.calls[0][1] as string[];
+    expect(args).toEqual(
+      expect.arrayContaining(['--repeat', '3', '--filter-providers', 'openai']),
+    );
+  });
+
+  test('should validate the repeat option like the input', async () => {
+    setComment('/promptfoo eval --repeat 1');
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('repeat must be at least 2'),
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  test('should reject commenters without write access', async () => {
+    mockOctokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'read' },
+    });
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'maintainer is not allowed to run /promptfoo eval',
+      ),
+    );
+    expect(
+      mockOctokit.rest.reactions.createForIssueComment,
+    ).not.toHaveBeenCalled();
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  test('should fail when the checkout is not the pull request head', async () => {
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => name === 'check-run',
+    );
+    mockGitInterface.revparse.mockResolvedValue(`${'d'.repeat(40)}\n`);
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `The checkout is at ${'d'.repeat(40)}, but the pull request head is ${'c'.repeat(40)}`,
+      ),
+    );
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('Check out refs/pull/123/head'),
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    ['other comments', () => setComment('Nice work!')],
+    [
+      'issues that are not pull requests',
+      () => setComment('/promptfoo eval', { issue: { number: 7 } }),
+    ],
+    [
+      'edited comments',
+      () => setComment('/promptfoo eval', { action: 'edited' }),
+    ],
+    [
+      'payloads without a comment',
+      () => setComment('', { comment: undefined }),
+    ],
+  ])('should ignore %s', async (_name, setup) => {
+    setup();
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Skipping: the comment is not a new /promptfoo eval command on a pull request.',
+    );
+    expect(
+      mockOctokit.rest.repos.getCollaboratorPermissionLevel,
+    ).not.toHaveBeenCalled();
+    expect(mockExec.exec).not.toHaveBeenCalled();
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+  });
+});
+
+describe('two-phase mode', () => {
+  const HEAD_SHA = 'c'.repeat(40);
+  let mockOctokit: MockOctokit;
+  let booleanInputs: Record<string, boolean>;
+
+  const writtenBundle = () => {
+    const [filePath, content] = (mockFs.promises.writeFile as Mock).mock
+      .calls[0];
+    return { filePath, bundle: JSON.parse(content as string) };
+  };
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    booleanInputs = {};
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => booleanInputs[name] ?? false,
+    );
+    (mockFs.promises.writeFile as Mock).mockReset();
+    (mockFs.promises.mkdir as Mock).mockReset();
+    vi.stubEnv('GITHUB_JOB', 'evaluate');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('mode: report', () => {
+    beforeEach(() => {
+      withInputs({ mode: 'report' });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: {
+          pull_request: {
+            number: 123,
+            head: { sha: HEAD_SHA },
+            base: { sha: 'a'.repeat(40) },
+          },
+        },
+        configurable: true,
+      });
+    });
+
+    test('should write the results to a bundle instead of posting them', async () => {
+      booleanInputs['check-run'] = true;
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+      expect(mockFs.promises.mkdir).toHaveBeenCalledWith(process.cwd(), {
+        recursive: true,
+      });
+      const { filePath, bundle } = writtenBundle();
+      expect(filePath).toBe(path.join(process.cwd(), 'promptfoo-results.json'));
+      expect(bundle).toEqual({
+        version: 2,
+        pullRequestNumber: 123,
+        headSha: HEAD_SHA,
+        job: 'evaluate',
+        configs: [
+          {
+            config: 'promptfooconfig.yaml',
+            stats: { successes: 10, failures: 2, errors: 0 },
+            failures: [],
+          },
+        ],
+      });
+      expect(mockCore.info).toHaveBeenCalledWith(
+        `Wrote the results bundle to ${path.join(process.cwd(), 'promptfoo-results.json')}`,
+      );
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'check-run is ignored with mode: report; set it on the mode: comment job, which creates the Check Runs',
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    test('should write the bundle to the results-bundle path', async () => {
+      withInputs({ mode: 'report', 'results-bundle': 'out/results.json' });
+      vi.stubEnv('GITHUB_JOB', '');
+      delete process.env.GITHUB_JOB;
+
+      await run();
+
+      const { filePath, bundle } = writtenBundle();
+      expect(filePath).toBe(path.join(process.cwd(), 'out/results.json'));
+      expect(bundle.job).toBe('');
+    });
+
+    test('should write the bundle when a gate fails', async () => {
+      withInputs({ mode: 'report', 'fail-on-threshold': '90' });
+      booleanInputs['check-run'] = true;
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('below the required threshold'),
+      );
+      expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+      const { bundle } = writtenBundle();
+      expect(bundle.configs[0].stats).toEqual({
+        successes: 10,
+        failures: 2,
+        errors: 0,
+      });
+    });
+
+    test('should bundle failing tests without their output', async () => {
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          results: {
+            results: [
+              {
+                success: false,
+                description: 'Greets the user',
+                provider: { id: 'openai:gpt-4o' },
+                prompt: { label: 'prompt1' },
+                response: { output: 'model output' },
+                gradingResult: { reason: 'Expected "hi"' },
+              },
+            ],
+            stats: { successes: 0, failures: 1 },
+          },
+        }),
+      );
+
+      await run();
+
+      const { bundle } = writtenBundle();
+      expect(bundle.configs[0].failures).toEqual([
+        {
+          test: 'Greets the user',
+          provider: 'openai:gpt-4o',
+          prompt: 'prompt1',
+          reason: 'Expected "hi"',
+          failedRuns: 1,
+          totalRuns: 1,
+        },
+      ]);
+    });
+
+    test('should record skipped configs in the bundle', async () => {
+      booleanInputs['check-run'] = true;
+      mockOctokit.paginate.mockResolvedValue([{ filename: 'docs/readme.md' }]);
+
+      await run();
+
+      expect(mockExec.exec).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+      const { bundle } = writtenBundle();
+      expect(bundle.configs).toEqual([
+        { config: 'promptfooconfig.yaml', failures: [] },
+      ]);
+    });
+
+    test('should bundle skipped configs of a multi-config run', async () => {
+      withInputs({
+        mode: 'report',
+        config: 'a/promptfooconfig.yaml\nb/promptfooconfig.yaml',
+      });
+      mockOctokit.paginate.mockResolvedValue([
+        { filename: 'b/promptfooconfig.yaml' },
+      ]);
+
+      await run();
+
+      const { bundle } = writtenBundle();
+      expect(bundle.configs).toEqual([
+        { config: 'a/promptfooconfig.yaml', failures: [] },
+        {
+          config: 'b/promptfooconfig.yaml',
+          stats: { successes: 10, failures: 2, errors: 0 },
+          failures: [],
+        },
+      ]);
+    });
+
+    test('should not post review comments', async () => {
+      booleanInputs['review-comments'] = true;
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'review-comments is not supported with mode: report; no review will be posted',
+      );
+      expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled();
+    });
+
+    test('should warn when the bundle cannot be written after a failure', async () => {
+      withInputs({ mode: 'report', 'fail-on-threshold': '90' });
+      (mockFs.promises.writeFile as Mock).mockRejectedValue(
+        new Error('EACCES: permission denied'),
+      );
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not write the results bundle: EACCES: permission denied',
+      );
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('below the required threshold'),
+      );
+    });
+
+    test('should fail when the bundle cannot be written', async () => {
+      (mockFs.promises.writeFile as Mock).mockRejectedValue('disk full');
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not write the results bundle: disk full',
+      );
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('disk full'),
+      );
+    });
+
+    test('should require a pull request event', async () => {
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'push',
+        configurable: true,
+      });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: { before: 'a'.repeat(40), after: 'b'.repeat(40) },
+        configurable: true,
+      });
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'mode: report requires a pull request event, but a "push" event was received',
+        ),
+      );
+      expect(mockExec.exec).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mode: comment', () => {
+    const bundle = {
+      version: 2,
+      pullRequestNumber: 123,
+      headSha: HEAD_SHA,
+      job: 'evaluate',
+      configs: [
+        {
+          config: 'promptfooconfig.yaml',
+          stats: { successes: 10, failures: 2, errors: 0 },
+          failures: [
+            {
+              test: '[Greets](https://evil.example) the user',
+              provider: 'openai:gpt-4o',
+              prompt: 'prompt1',
+              reason: 'Expected "hi"',
+              failedRuns: 1,
+              totalRuns: 1,
+            },
+          ],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      withInputs({ mode: 'comment', config: '' });
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'workflow_run',
+        configurable: true,
+      });
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: { workflow_run: { id: 99, head_sha: HEAD_SHA } },
+        configurable: true,
+      });
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(bundle));
+      mockOctokit.rest.pulls.get.mockResolvedValue({
+        data: { number: 123, head: { sha: HEAD_SHA } },
+      });
+    });
+
+    test('should render the comment from the bundled results', async () => {
+      await run();
+
+      expect(mockFs.readFileSync).toHaveBeenCalledWith(
+        path.join(process.cwd(), 'promptfoo-results.json'),
+        'utf8',
+      );
+      expect(mockOctokit.rest.pulls.get).toHaveBeenCalledWith(
+        expect.objectContaining({ pull_number: 123 }),
+      );
+      const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+      expect(body).toContain(
+        `${getCommentMarker('promptfooconfig.yaml', 'evaluate')}\n| Success | Failure |`,
+      );
+      expect(body).toContain('| 10      | 2       |');
+      expect(body).toContain(
+        '| \\[Greets\\]\\(https\\:\\/\\/evil\\.example\\) the user |',
+      );
+      expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 123 }),
+      );
+      expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+      expect(mockCore.setSecret).toHaveBeenCalledWith('mock-github-token');
+      expect(mockExec.exec).not.toHaveBeenCalled();
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    test('should derive the check run conclusion from the bundled counts', async () => {
+      withInputs({ mode: 'comment', config: '', 'fail-on-threshold': '90' });
+      booleanInputs['check-run'] = true;
+
+      await run();
+
+      expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'promptfoo: promptfooconfig.yaml',
+          head_sha: HEAD_SHA,
+          status: 'completed',
+          conclusion: 'failure',
+          output: expect.objectContaining({
+            title: '10 passed, 2 failed',
+            summary: expect.stringContaining('| 10      | 2       |'),
+            annotations: [],
+          }),
+        }),
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    test('should fail the check run on failing tests without a threshold', async () => {
+      booleanInputs['check-run'] = true;
+
+      await run();
+
+      expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+        expect.objectContaining({ conclusion: 'failure' }),
+      );
+    });
+
+    test('should pass the check run when every test passed', async () => {
+      booleanInputs['check-run'] = true;
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          ...bundle,
+          configs: [
+            {
+              config: 'promptfooconfig.yaml',
+              stats: { successes: 10, failures: 0, errors: 0 },
+              failures: [],
+            },
+          ],
+        }),
+      );
+
+      await run();
+
+      expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+        expect.objectContaining({ conclusion: 'success' }),
+      );
+    });
+
+    test('should report skipped configs', async () => {
+      booleanInputs['check-run'] = true;
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          ...bundle,
+          configs: [{ config: 'promptfooconfig.yaml', failures: [] }],
+        }),
+      );
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conclusion: 'neutral',
+          output: expect.objectContaining({
+            title: 'Skipped: no relevant changes',
+          }),
+        }),
+      );
+    });
+
+    test('should comment on skipped configs with comment-on-skip', async () => {
+      booleanInputs['comment-on-skip'] = true;
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          ...bundle,
+          configs: [{ config: 'promptfooconfig.yaml', failures: [] }],
+        }),
+      );
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.stringContaining(
+            '**Skipped:** no LLM prompt, config files, or dependencies were modified.',
+          ),
+        }),
+      );
+    });
+
+    test('should respect disable-comment', async () => {
+      booleanInputs['disable-comment'] = true;
+      booleanInputs['check-run'] = true;
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.checks.create).toHaveBeenCalled();
+    });
+
+    test('should post nothing when the pull request has moved on', async () => {
+      mockOctokit.rest.pulls.get.mockResolvedValue({
+        data: { number: 123, head: { sha: 'e'.repeat(40) } },
+      });
+
+      await run();
+
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled();
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    test('should reject a bundle from another commit', async () => {
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: { workflow_run: { id: 99, head_sha: 'd'.repeat(40) } },
+        configurable: true,
+      });
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Results bundle is for commit'),
+      );
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    test('should require a workflow_run event', async () => {
+      Object.defineProperty(mockGithub.context, 'eventName', {
+        value: 'pull_request',
+        configurable: true,
+      });
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'mode: comment must run on a workflow_run event',
+        ),
+      );
+    });
+
+    test('should require the workflow_run payload', async () => {
+      Object.defineProperty(mockGithub.context, 'payload', {
+        value: {},
+        configurable: true,
+      });
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'mode: comment must run on a workflow_run event',
+        ),
+      );
+    });
+  });
+
+  test('should reject an unknown mode', async () => {
+    withInputs({ mode: 'publish' });
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('mode'),
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+});
+
+describe('comment templates', () => {
+  const template = [
+    '{{config}} ({{event}}) ran because {{runReason}}: {{passRate}}%',
+    'Files: {{changedFiles}}',
+    '{{#each providers}}- {{name}}: {{passRate}}%',
+    '{{/each}}{{#each failures}}* {{test}}: {{reason}}',
+    '{{/each}}{{#if shareUrl}}{{shareUrl}}{{else}}no link{{/if}}',
+  ].join('\n');
+  const evalOutput = JSON.stringify({
+    results: {
+      results: [
+        {
+          testIdx: 0,
+          promptIdx: 0,
+          success: false,
+          description: 'Greets the user',
+          provider: { id: 'openai:gpt-4o' },
+          error: 'Timeout',
+        },
+        {
+          testIdx: 1,
+          promptIdx: 0,
+          success: true,
+          provider: { id: 'openai:gpt-4o' },
+        },
+      ],
+      stats: { successes: 1, failures: 1 },
+    },
+  });
+  let mockOctokit: MockOctokit;
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    withInputs({ 'comment-template': 'comment.md' });
+    mockFs.readFileSync.mockImplementation((filePath) =>
+      String(filePath).endsWith('comment.md') ? template : evalOutput,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should render the PR comment from the template', async () => {
+    await run();
+
+    expect(mockFs.readFileSync).toHaveBeenCalledWith(
+      path.resolve(process.cwd(), 'comment.md'),
+      'utf8',
+    );
+    const commentBody =
+      mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(commentBody).toContain(
+      [
+        'promptfooconfig.yaml (pull_request) ran because prompt files changed; config changed: 50.00%',
+        'Files: prompts/prompt1.txt',
+        '- openai:gpt-4o: 50%',
+        '* Greets the user: Timeout',
+        'no link',
+      ].join('\n'),
+    );
+    expect(commentBody).not.toContain('LLM prompt was modified');
+  });
+
+  test('should render the workflow summary from the template', async () => {
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'workflow_dispatch',
+      configurable: true,
+    });
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: { inputs: { files: 'prompts/prompt1.txt' } },
+      configurable: true,
+    });
+
+    await run();
+
+    expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'promptfooconfig.yaml (workflow_dispatch) ran because prompt files changed',
+      ),
+    );
+    expect(mockCore.summary.addHeading).not.toHaveBeenCalled();
+    expect(mockCore.summary.write).toHaveBeenCalled();
+  });
+
+  test('should render empty values without results', async () => {
+    mockFs.readFileSync.mockImplementation((filePath) =>
+      String(filePath).endsWith('comment.md')
+        ? '[{{passRate}}] {{repeatSummary}}{{baselineComparison}}'
+        : JSON.stringify({
+            results: { results: [], stats: { successes: 0, failures: 0 } },
+            shareableUrl: 'https://promptfoo.app/eval/1',
+          }),
+    );
+
+    await run();
+
+    const commentBody =
+      mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(commentBody).toContain('\n[] \n');
+  });
+
+  test('should fail before evaluating with an invalid template', async () => {
+    mockFs.readFileSync.mockReturnValue('{{#if failures}}unclosed');
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Invalid comment-template: unclosed "{{#if}}" block',
+      ),
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+});
+
+describe('multiple configs', () => {
+  const CONFIGS = 'a/promptfooconfig.yaml\nb/promptfooconfig.yaml';
+  let mockOctokit: MockOctokit;
+  let configOutputs: Record<string, string>;
+  let exitCodes: Record<string, number>;
+  let template: string | undefined;
+  let booleanInputs: Record<string, boolean>;
+
+  const outputFor = (successes: number, failures: number) =>
+    JSON.stringify({
+      results: { results: [], stats: { successes, failures } },
+    });
+
+  const evaluatedConfigs = () =>
+    mockExec.exec.mock.calls.map(([, args]) => {
+      const evalArgs = args as string[];
+      return evalArgs[evalArgs.indexOf('-c') + 1];
+    });
+
+  beforeEach(() => {
+    mockOctokit = setupCommonMocks();
+    withInputs({ config: CONFIGS });
+    // Both configs use the shared prompt files
+    mockConfig.extractConfigPrompts.mockReturnValue([
+      { pattern: 'prompts/*.txt' },
+    ]);
+    configOutputs = {
+      'a/promptfooconfig.yaml': outputFor(3, 0),
+      'b/promptfooconfig.yaml': outputFor(1, 1),
+    };
+    exitCodes = {};
+    template = undefined;
+    booleanInputs = {};
+    let currentConfig = '';
+    mockExec.exec.mockImplementation(async (_command, args) => {
+      const evalArgs = args as string[];
+      currentConfig = evalArgs[evalArgs.indexOf('-c') + 1];
+      return exitCodes[currentConfig] ?? 0;
+    });
+    mockFs.readFileSync.mockImplementation((filePath) =>
+      template !== undefined && String(filePath).endsWith('comment.md')
+        ? template
+        : configOutputs[currentConfig],
+    );
+    mockCore.getBooleanInput.mockImplementation(
+      (name: string) => booleanInputs[name] ?? false,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should watch the prompts of each config when prompts is omitted', async () => {
+    withInputs({ config: CONFIGS, prompts: '' });
+    mockConfig.extractConfigPrompts.mockImplementation((configPath) =>
+      configPath.includes(`${path.sep}a${path.sep}`)
+        ? [{ pattern: 'a/prompts/*.txt' }]
+        : [{ pattern: 'b/prompts/*.txt' }],
+    );
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'a/prompts/chat.txt' },
+    ]);
+    mockGlob.sync.mockImplementation((pattern) =>
+      pattern === 'a/prompts/*.txt' ? ['a/prompts/chat.txt'] : [],
+    );
+
+    await run();
+
+    expect(evaluatedConfigs()).toEqual(['a/promptfooconfig.yaml']);
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Skipping b/promptfooconfig.yaml: no LLM prompt, config files, or dependencies were modified.',
+    );
+  });
+
+  test('should skip listed configs with inline prompts unless they changed', async () => {
+    withInputs({ config: CONFIGS, prompts: '' });
+    mockConfig.extractConfigPrompts.mockReturnValue([]);
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'docs/readme.md' }]);
+
+    await run();
+
+    expect(evaluatedConfigs()).toEqual([]);
+
+    vi.clearAllMocks();
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'docs/readme.md' },
+      { filename: 'b/promptfooconfig.yaml' },
+    ]);
+
+    await run();
+
+    expect(evaluatedConfigs()).toEqual(['b/promptfooconfig.yaml']);
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Skipping a/promptfooconfig.yaml: no LLM prompt, config files, or dependencies were modified.',
+    );
+  });
+
+  test('should pass each config only the shared prompts it references', async () => {
+    withInputs({ config: CONFIGS, prompts: '**/prompts/*.txt' });
+    mockConfig.extractConfigPrompts.mockImplementation((configPath) =>
+      configPath.includes(`${path.sep}a${path.sep}`)
+        ? [{ pattern: 'a/prompts/*.txt' }]
+        : [],
+    );
+    mockConfig.extractFileDependencies.mockImplementation((configPath) =>
+      configPath.includes(`${path.sep}b${path.sep}`)
+        ? ['b/prompts/', 'shared/prompts/common.txt']
+        : ['shared/prompts/common.txt'],
+    );
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'a/prompts/x.txt' }]);
+    mockGlob.sync.mockReturnValue([
+      'a/prompts/x.txt',
+      'b/prompts/y.txt',
+      'shared/prompts/common.txt',
+    ]);
+
+    await run();
+
+    expect(evaluatedConfigs()).toEqual(['a/promptfooconfig.yaml']);
+    expect(mockExec.exec.mock.calls[0][1]).toEqual(
+      expect.arrayContaining(['--prompts', 'a/prompts/x.txt']),
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Skipping b/promptfooconfig.yaml: no LLM prompt, config files, or dependencies were modified.',
+    );
+
+    // A prompt file both configs reference is passed to each of them
+    vi.clearAllMocks();
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'shared/prompts/common.txt' },
+      { filename: 'b/prompts/y.txt' },
+      { filename: 'prompts/unused.txt' },
+    ]);
+    mockGlob.sync.mockReturnValue([
+      'b/prompts/y.txt',
+      'shared/prompts/common.txt',
+      'prompts/unused.txt',
+    ]);
+
+    await run();
+
+    const promptsFor = (config: string) => {
+      const args = mockExec.exec.mock.calls.find(([, callArgs]) =>
+        (callArgs as string[]).includes(config),
+      )?.[1] as string[];
+      const start = args.indexOf('--prompts') + 1;
+      const end = args.findIndex(
+        (arg, index) => index >= start && arg.startsWith('--'),
+      );
+      return args.slice(start, end === -1 ? undefined : end);
+    };
+    expect(evaluatedConfigs()).toEqual([
+      'a/promptfooconfig.yaml',
+      'b/promptfooconfig.yaml',
+    ]);
+    expect(promptsFor('a/promptfooconfig.yaml')).toEqual([
+      'shared/prompts/common.txt',
+    ]);
+    expect(promptsFor('b/promptfooconfig.yaml')).toEqual([
+      'b/prompts/y.txt',
+      'shared/prompts/common.txt',
+    ]);
+    // Each config's section lists only its own changed prompts
+    const body = mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(body).toContain(
+      '### `a/promptfooconfig.yaml`\n\n⚠️ LLM prompt was modified in these files: shared/prompts/common.txt\n',
+    );
+    expect(body).toContain(
+      '### `b/promptfooconfig.yaml`\n\n⚠️ LLM prompt was modified in these files: b/prompts/y.txt, shared/prompts/common.txt\n',
+    );
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'prompts/unused.txt matches the prompt globs, but no config references it, so it is not evaluated',
+    );
+  });
+
+  test('should evaluate each config and post one combined comment', async () => {
+    await run();
+
+    expect(evaluatedConfigs()).toEqual([
+      'a/promptfooconfig.yaml',
+      'b/promptfooconfig.yaml',
+    ]);
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+    const body = mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(body).toContain(
+      '**promptfoo evaluated 2 of 2 configs**: 4 passed, 1 failed',
+    );
+    expect(body).toContain('| `a/promptfooconfig.yaml` | 3 | 0 | 100.00% |');
+    expect(body).toContain('| `b/promptfooconfig.yaml` | 1 | 1 | 50.00% |');
+    expect(body).toContain(
+      '### `b/promptfooconfig.yaml`\n\n⚠️ LLM prompt was modified in these files: prompts/prompt1.txt',
+    );
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+  });
+
+  test('should report the prompt results of each config separately', async () => {
+    const outputWithPrompt = (label: string, success: boolean) =>
+      JSON.stringify({
+        results: {
+          results: [{ promptIdx: 0, prompt: { label }, success }],
+          stats: { successes: success ? 1 : 0, failures: success ? 0 : 1 },
+        },
+      });
+    configOutputs = {
+      'a/promptfooconfig.yaml': outputWithPrompt('greeting', true),
+      'b/promptfooconfig.yaml': outputWithPrompt('summary', false),
+    };
+
+    await run();
+
+    const promptResults = mockCore.setOutput.mock.calls.find(
+      ([name]) => name === 'prompt-results',
+    )?.[1];
+    expect(JSON.parse(promptResults)).toEqual([
+      {
+        config: 'a/promptfooconfig.yaml',
+        name: 'greeting',
+        index: 0,
+        passed: 1,
+        failed: 0,
+        total: 1,
+        passRate: 100,
+      },
+      {
+        config: 'b/promptfooconfig.yaml',
+        name: 'summary',
+        index: 0,
+        passed: 0,
+        failed: 1,
+        total: 1,
+        passRate: 0,
+      },
+    ]);
+  });
+
+  test('should skip configs whose inputs did not change', async () => {
+    booleanInputs['check-run'] = true;
+    mockOctokit.paginate.mockResolvedValue([
+      { filename: 'b/promptfooconfig.yaml' },
+    ]);
+
+    await run();
+
+    expect(evaluatedConfigs()).toEqual(['b/promptfooconfig.yaml']);
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Skipping a/promptfooconfig.yaml: no LLM prompt, config files, or dependencies were modified.',
+    );
+    const body = mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(body).toContain('evaluated 1 of 2 configs');
+    expect(body).toContain('| `a/promptfooconfig.yaml` | - | - | Skipped |');
+    expect(body).toContain(
+      '### `a/promptfooconfig.yaml`\n\n_Skipped: no LLM prompt, config files, or dependencies were modified._',
+    );
+    const checkRuns = mockOctokit.rest.checks.create.mock.calls.map(
+      ([request]) => [request.name, request.conclusion],
+    );
+    expect(checkRuns).toEqual([
+      ['promptfoo: a/promptfooconfig.yaml', 'neutral'],
+      ['promptfoo: b/promptfooconfig.yaml', 'success'],
+    ]);
+  });
+
+  test('should detect dependency changes per config', async () => {
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'b/provider.py' }]);
+    mockConfig.extractFileDependencies.mockImplementation((configPath) =>
+      configPath.includes(`b${path.sep}`) ? ['b/provider.py'] : [],
+    );
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Detected changes in dependencies of b/promptfooconfig.yaml',
+    );
+    expect(evaluatedConfigs()).toEqual(['b/promptfooconfig.yaml']);
+  });
+
+  test('should skip the run when no config has relevant changes', async () => {
+    booleanInputs['check-run'] = true;
+    mockOctokit.paginate.mockResolvedValue([{ filename: 'docs/readme.md' }]);
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'No LLM prompt, config files, or dependencies were modified.',
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.checks.create).toHaveBeenCalledTimes(2);
+  });
+
+  test('should expand config globs', async () => {
+    withInputs({ config: 'products/*/promptfooconfig.yaml' });
+    mockGlob.sync.mockImplementation((pattern) =>
+      String(pattern).startsWith('products')
+        ? ['products/b/promptfooconfig.yaml', 'products/a/promptfooconfig.yaml']
+        : ['prompts/prompt1.txt'],
+    );
+    configOutputs = {
+      'products/a/promptfooconfig.yaml': outputFor(1, 0),
+      'products/b/promptfooconfig.yaml': outputFor(1, 0),
+    };
+
+    await run();
+
+    expect(evaluatedConfigs()).toEqual([
+      'products/a/promptfooconfig.yaml',
+      'products/b/promptfooconfig.yaml',
+    ]);
+  });
+
+  test('should write a summary section per config', async () => {
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'workflow_dispatch',
+      configurable: true,
+    });
+    Object.defineProperty(mockGithub.context, 'payload', {
+      value: { inputs: { files: 'prompts/prompt1.txt' } },
+      configurable: true,
+    });
+
+    await run();
+
+    expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+      'Promptfoo Evaluation Results',
+    );
+    expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+      expect.stringContaining('| `a/promptfooconfig.yaml` | 3 | 0 | 100.00% |'),
+    );
+    expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+      'a/promptfooconfig.yaml',
+      2,
+    );
+    expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+      'b/promptfooconfig.yaml',
+      2,
+    );
+    expect(mockCore.summary.addTable).toHaveBeenCalledTimes(2);
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Config: b/promptfooconfig.yaml',
+    );
+  });
+
+  test('should render the template for each config', async () => {
+    withInputs({ config: CONFIGS, 'comment-template': 'comment.md' });
+    template = '{{config}}: {{stats.successes}}/{{stats.failures}}';
+
+    await run();
+
+    const body = mockOctokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(body).toContain(
+      '### `a/promptfooconfig.yaml`\n\na/promptfooconfig.yaml: 3/0',
+    );
+    expect(body).toContain(
+      '### `b/promptfooconfig.yaml`\n\nb/promptfooconfig.yaml: 1/1',
+    );
+
+    Object.defineProperty(mockGithub.context, 'eventName', {
+      value: 'push',
+      configurable: true,
+    });
+    await run();
+
+    expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+      'b/promptfooconfig.yaml: 1/1',
+    );
+  });
+
+  test('should apply thresholds per config', async () => {
+    withInputs({ config: CONFIGS, 'fail-on-threshold': '60' });
+    booleanInputs['check-run'] = true;
+
+    await run();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Overall threshold passed: 80.00% >= 60%',
+    );
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'b/promptfooconfig.yaml: Evaluation success rate (50.00%) is below the required threshold (60%)',
+      ),
+    );
+    const conclusions = mockOctokit.rest.checks.create.mock.calls.map(
+      ([request]) => [request.name, request.conclusion],
+    );
+    expect(conclusions).toEqual([
+      ['promptfoo: a/promptfooconfig.yaml', 'success'],
+      ['promptfoo: b/promptfooconfig.yaml', 'failure'],
+    ]);
+  });
+
+  test('should apply the threshold to all configs together', async () => {
+    withInputs({ config: CONFIGS, 'fail-on-threshold': '90' });
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '2 checks failed: b/promptfooconfig.yaml: Evaluation success rate (50.00%) is below the required threshold (90%); overall: Success rate across all configs (80.00%) is below the required threshold (90%)',
+      ),
+    );
+  });
+
+  test('should fail the overall threshold when no tests ran', async () => {
+    withInputs({ config: CONFIGS, 'fail-on-threshold': '50' });
+    configOutputs = {
+      'a/promptfooconfig.yaml': outputFor(0, 0),
+      'b/promptfooconfig.yaml': outputFor(0, 0),
+    };
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'overall: No tests were run - cannot calculate success rate',
+      ),
+    );
+  });
+
+  test('should report which config failed its tests', async () => {
+    booleanInputs['check-run'] = true;
+    exitCodes['b/promptfooconfig.yaml'] = 100;
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'b/promptfooconfig.yaml: Promptfoo evaluation failed (exit code 100)',
+      ),
+    );
+    expect(mockOctokit.rest.checks.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        name: 'promptfoo: b/promptfooconfig.yaml',
+        conclusion: 'failure',
+      }),
+    );
+  });
+
+  test('should reject a baseline file with several configs', async () => {
+    withInputs({ config: CONFIGS, 'baseline-file': 'baseline.json' });
+
+    await run();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'baseline-file can only be used with a single config',
+      ),
+    );
+    expect(mockExec.exec).not.toHaveBeenCalled();
+  });
+
+  describe('discover-configs', () => {
+    beforeEach(() => {
+      withInputs({ config: '' });
+      booleanInputs['discover-configs'] = true;
+      mockFsUtils.isFile.mockReturnValue(true);
+      mockGitInterface.raw.mockResolvedValue(
+        'a/promptfooconfig.yaml\0a/prompts/main.txt\0b/promptfooconfig.yaml\0',
+      );
+    });
+
+    test('should evaluate the configs listed by git', async () => {
+      await run();
+
+      expect(mockGitInterface.raw).toHaveBeenCalledWith([
+        '-C',
+        process.cwd(),
+        'ls-files',
+        '-z',
+        '--cached',
+        '--others',
+        '--exclude-standard',
+      ]);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Discovered 2 promptfoo config(s): a/promptfooconfig.yaml, b/promptfooconfig.yaml',
+      );
+      expect(evaluatedConfigs()).toEqual([
+        'a/promptfooconfig.yaml',
+        'b/promptfooconfig.yaml',
+      ]);
+    });
+
+    test('should evaluate only the configs affected by the changes', async () => {
+      mockOctokit.paginate.mockResolvedValue([{ filename: 'b/provider.py' }]);
+      mockConfig.extractFileDependencies.mockImplementation((configPath) =>
+        configPath.includes(`b${path.sep}`) ? ['b/provider.py'] : [],
+      );
+
+      await run();
+
+      expect(evaluatedConfigs()).toEqual(['b/promptfooconfig.yaml']);
+    });
+
+    test('should skip discovered configs without watched prompts unless they changed', async () => {
+      withInputs({ config: '', prompts: '' });
+      mockConfig.extractConfigPrompts.mockImplementation((configPath) =>
+        configPath.includes(`a${path.sep}`)
+          ? [{ pattern: 'a/prompts/main.txt' }]
+          : [],
+      );
+      mockConfig.extractFileDependencies.mockImplementation((configPath) =>
+        configPath.includes(`b${path.sep}`) ? ['b/provider.py'] : [],
+      );
+      mockOctokit.paginate.mockResolvedValue([{ filename: 'b/provider.py' }]);
+
+      await run();
+
+      expect(evaluatedConfigs()).toEqual(['b/promptfooconfig.yaml']);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Skipping a/promptfooconfig.yaml: no LLM prompt, config files, or dependencies were modified.',
+      );
+
+      vi.clearAllMocks();
+      mockOctokit.paginate.mockResolvedValue([
+        { filename: 'a/prompts/main.txt' },
+      ]);
+      mockGlob.sync.mockReturnValue(['a/prompts/main.txt']);
+
+      await run();
+
+      expect(evaluatedConfigs()).toEqual(['a/promptfooconfig.yaml']);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Skipping b/promptfooconfig.yaml: no LLM prompt, config files, or dependencies were modified.',
+      );
+    });
+
+    test('should fall back to globbing without git', async () => {
+      mockGitInterface.raw.mockRejectedValue(new Error('not a git repository'));
+      mockGlob.sync.mockImplementation((pattern) =>
+        String(pattern).startsWith('**/')
+          ? ['a/promptfooconfig.yaml']
+          : ['prompts/prompt1.txt'],
+      );
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not list the workspace files with git: not a git repository. Searching for configs without applying .gitignore.',
+      );
+      expect(mockGlob.sync).toHaveBeenCalledWith(
+        '**/{promptfooconfig.yaml,promptfooconfig.yml,promptfooconfig.json,promptfooconfig.js}',
+        {
+          cwd: process.cwd(),
+          nodir: true,
+          ignore: ['**/node_modules/**'],
+        },
+      );
+      expect(evaluatedConfigs()).toEqual(['a/promptfooconfig.yaml']);
+    });
+
+    test('should fail when no config is found', async () => {
+      mockGitInterface.raw.mockResolvedValue('README.md\0');
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('No promptfoo configs found in'),
+      );
+      expect(mockExec.exec).not.toHaveBeenCalled();
+    });
+
+    test('should fail when the fallback search finds no config', async () => {
+      mockGitInterface.raw.mockRejectedValue('git not found');
+      mockGlob.sync.mockReturnValue([]);
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining('with git: git not found.'),
+      );
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('No promptfoo configs found in'),
+      );
+      expect(mockExec.exec).not.toHaveBeenCalled();
+    });
+
+    test('should reject an explicit config list', async () => {
+      withInputs({ config: CONFIGS });
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'config cannot be combined with discover-configs',
+        ),
+      );
+      expect(mockGitInterface.raw).not.toHaveBeenCalled();
+    });
+  });
+});
+
 describe('environment variable documentation', () => {
   test('README.md should document environment variable fallback', () => {
     const readmePath = path.join(__dirname, '..', 'README.md');
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import type { EvaluateResult } from 'promptfoo';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  type BaselineComparison,
+  compareWithBaseline,
+  countRegressions,
+  formatComparisonMarkdown,
+  readBaselineResults,
+} from '../../src/utils/baseline';
+import { ErrorCodes } from '../../src/utils/errors';
+import { makeResult } from '../helpers/results';
+
+vi.mock('fs', async () => {
+  const actual = await vi.importActual<typeof import('fs')>('fs');
+  return { ...actual, readFileSync: vi.fn() };
+});
+
+const mockFs = fs as unknown as { readFileSync: Mock };
+
+function makeTestResult(
+  description: string,
+  success: boolean,
+  overrides: Partial<EvaluateResult> = {},
+): EvaluateResult {
+  return makeResult({ description, success, ...overrides });
+}
+
+describe('readBaselineResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('reads results from a promptfoo output file', () => {
+    const result = makeTestResult('Test A', true);
+    mockFs.readFileSync.mockReturnValue(
+      JSON.stringify({ results: { results: [result], stats: {} } }),
+    );
+    expect(readBaselineResults('baseline.json')).toEqual([result]);
+    expect(mockFs.readFileSync).toHaveBeenCalledWith('baseline.json', 'utf8');
+  });
+
+  test('rejects unreadable files', () => {
+    mockFs.readFileSync.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+    expect(() => readBaselineResults('missing.json')).toThrow(
+      'Failed to read baseline output missing.json: ENOENT',
+    );
+  });
+
+  test('rejects invalid JSON and non-Error failures', () => {
+    mockFs.readFileSync.mockReturnValue('{oops');
+    expect(() => readBaselineResults('bad.json')).toThrow(
+      /Failed to read baseline output bad\.json/,
+    );
+    mockFs.readFileSync.mockImplementation(() => {
+      throw 'denied';
+    });
+    expect(() => readBaselineResults('denied.json')).toThrow(
+      'Failed to read baseline output denied.json: denied',
+    );
+  });
+
+  test('rejects files without promptfoo results', () => {
+    mockFs.readFileSync.mockReturnValue('null');
+    try {
+      readBaselineResults('empty.json');
+      expect.unreachable();
+    } catch (error) {
+      expect((error as { code: string }).code).toBe(ErrorCodes.BASELINE_FAILED);
+      expect((error as Error).message).toBe(
+        'Baseline output empty.json does not contain promptfoo results',
+      );
+    }
+  });
+});
+
+describe('compareWithBaseline', () => {
+  test('classifies each test by its baseline and current status', () => {
+    const comparison = compareWithBaseline(
+      [
+        makeTestResult('regressed', false),
+        makeTestResult('fixed', true),
+        makeTestResult('broken', false),
+        makeTestResult('stable', true),
+        makeTestResult('brand new', false),
+        makeTestResult('also new', true),
+      ],
+      [
+        makeTestResult('regressed', true),
+        makeTestResult('fixed', false),
+        makeTestResult('broken', false),
+        makeTestResult('stable', true),
+        makeTestResult('deleted', true),
+      ],
+      { baseline: 'base commit abc1234' },
+    );
+
+    expect(comparison.baseline).toBe('base commit abc1234');
+    expect(comparison.counts).toEqual({
+      'newly-failing': 1,
+      'newly-passing': 1,
+      'still-failing': 1,
+      'still-passing': 1,
+      added: 1,
+      'added-failing': 1,
+      removed: 1,
+    });
+    const statuses = Object.fromEntries(
+      comparison.tests.map((test) => [test.label, test.status]),
+    );
+    expect(statuses).toEqual({
+      'regressed [openai:gpt-4o]': 'newly-failing',
+      'fixed [openai:gpt-4o]': 'newly-passing',
+      'broken [openai:gpt-4o]': 'still-failing',
+      'stable [openai:gpt-4o]': 'still-passing',
+      'brand new [openai:gpt-4o]': 'added-failing',
+      'also new [openai:gpt-4o]': 'added',
+      'deleted [openai:gpt-4o]': 'removed',
+    });
+    const removed = comparison.tests.find((test) => test.status === 'removed');
+    expect(removed).not.toHaveProperty('head');
+    expect(removed?.base).toMatchObject({ successes: 1, total: 1 });
+  });
+
+  test('matches tests per provider', () => {
+    const comparison = compareWithBaseline(
+      [
+        makeTestResult('Test A', false, {
+          provider: { id: 'anthropic:claude' },
+        }),
+      ],
+      [makeTestResult('Test A', false)],
+      { baseline: 'baseline' },
+    );
+    expect(comparison.counts['added-failing']).toBe(1);
+    expect(comparison.counts.removed).toBe(1);
+  });
+
+  test('applies repeat-min-pass to repeated runs', () => {
+    const head = [
+      makeTestResult('Test A', true, { testIdx: 0 }),
+      makeTestResult('Test A', false, { testIdx: 1 }),
+      makeTestResult('Test A', true, { testIdx: 2 }),
+    ];
+    const base = [
+      makeTestResult('Test A', true, { testIdx: 0 }),
+      makeTestResult('Test A', true, { testIdx: 1 }),
+      makeTestResult('Test A', true, { testIdx: 2 }),
+    ];
+
+    expect(
+      compareWithBaseline(head, base, {
+        baseline: 'baseline',
+        minPass: 2,
+        repeatCount: 3,
+      }).counts['still-passing'],
+    ).toBe(1);
+    expect(
+      compareWithBaseline(head, base, {
+        baseline: 'baseline',
+        repeatCount: 3,
+      }).counts['newly-failing'],
+    ).toBe(1);
+  });
+});
+
+describe('countRegressions', () => {
+  test('counts newly failing tests and failing new tests', () => {
+    const comparison = compareWithBaseline(
+      [
+        makeTestResult('regressed', false),
+        makeTestResult('added and failing', false),
+        makeTestResult('renamed and failing', false),
+        makeTestResult('added and passing', true),
+      ],
+      [
+        makeTestResult('regressed', true),
+        makeTestResult('before rename', false),
+      ],
+      { baseline: 'baseline' },
+    );
+
+    expect(countRegressions(comparison)).toBe(3);
+    expect(formatComparisonMarkdown(comparison)).toContain(
+      '| 🔴 New failing test | renamed and failing [openai:gpt-4o] | - | 0/1 |',
+    );
+    expect(formatComparisonMarkdown(comparison)).toContain(
+      '0 still passing, 2 new failing, 1 new, 1 removed',
+    );
+  });
+
+  test('ignores tests that already failed on the baseline', () => {
+    expect(
+      countRegressions(
+        compareWithBaseline(
+          [makeTestResult('broken', false)],
+          [makeTestResult('broken', false)],
+          { baseline: 'baseline' },
+        ),
+      ),
+    ).toBe(0);
+  });
+});
+
+describe('formatComparisonMarkdown', () => {
+  function makeComparison(
+    overrides: Partial<BaselineComparison> = {},
+  ): BaselineComparison {
+    return {
+      baseline: 'base commit abc1234',
+      tests: [],
+      counts: {
+        'newly-failing': 0,
+        'newly-passing': 0,
+        'still-failing': 0,
+        'still-passing': 2,
+        added: 0,
+        'added-failing': 0,
+        removed: 0,
+      },
+      ...overrides,
+    };
+  }
+
+  test('summarizes a run without changes', () => {
+    expect(formatComparisonMarkdown(makeComparison())).toBe(
+      '**Baseline comparison** (vs base commit abc1234): 0 newly failing, 0 newly passing, 0 still failing, 2 still passing\n',
+    );
+  });
+
+  test('lists changed tests with regressions first', () => {
+    const comparison = compareWithBaseline(
+      [
+        makeTestResult('fixed', true),
+        makeTestResult('regressed | pipe', false),
+        makeTestResult('new', true),
+      ],
+      [
+        makeTestResult('fixed', false),
+        makeTestResult('regressed | pipe', true),
+        makeTestResult('gone', true),
+      ],
+      { baseline: '`baseline.json`' },
+    );
+    const md = formatComparisonMarkdown(comparison);
+
+    expect(md).toContain(
+      '(vs `baseline.json`): 1 newly failing, 1 newly passing, 0 still failing, 0 still passing, 1 new, 1 removed',
+    );
+    expect(md).toContain(
+      '| 🔴 Newly failing | regressed \\| pipe [openai:gpt-4o] | 1/1 | 0/1 |',
+    );
+    expect(md).toContain(
+      '| 🟢 Newly passing | fixed [openai:gpt-4o] | 0/1 | 1/1 |',
+    );
+    expect(md).toContain('| 🆕 New test | new [openai:gpt-4o] | - | 1/1 |');
+    expect(md).toContain(
+      '| ➖ Removed test | gone [openai:gpt-4o] | 1/1 | - |',
+    );
+    expect(md.indexOf('Newly failing |')).toBeLessThan(
+      md.indexOf('Newly passing |'),
+    );
+  });
+
+  test('limits the number of rows', () => {
+    const head = Array.from({ length: 30 }, (_, index) =>
+      makeTestResult(`Test ${index}`, false),
+    );
+    const base = head.map((result) => ({ ...result, success: true }));
+    const md = formatComparisonMarkdown(
+      compareWithBaseline(head, base, { baseline: 'baseline' }),
+    );
+    expect(md).toContain('| Test 24 [openai:gpt-4o] |');
+    expect(md).not.toContain('| Test 25 [openai:gpt-4o] |');
+    expect(md).toContain('...and 5 more changed test(s).');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'vitest';
+import {
+  formatBreakdownMarkdown,
+  getResultBreakdown,
+} from '../../src/utils/breakdown';
+import { makeResult } from '../helpers/results';
+
+describe('getResultBreakdown', () => {
+  test('returns empty breakdowns without results', () => {
+    expect(getResultBreakdown([])).toEqual({ providers: [], prompts: [] });
+  });
+
+  test('counts results per provider and prompt', () => {
+    const breakdown = getResultBreakdown([
+      makeResult(),
+      makeResult({ testIdx: 1, success: false }),
+      makeResult({ testIdx: 2 }),
+      makeResult({
+        promptIdx: 1,
+        prompt: { raw: 'Hi', label: 'variant' },
+        provider: { id: 'anthropic:claude' },
+        success: false,
+      }),
+    ]);
+
+    expect(breakdown.providers).toEqual([
+      {
+        name: 'openai:gpt-4o',
+        id: 'openai:gpt-4o',
+        passed: 2,
+        failed: 1,
+        total: 3,
+        passRate: 66.7,
+      },
+      {
+        name: 'anthropic:claude',
+        id: 'anthropic:claude',
+        passed: 0,
+        failed: 1,
+        total: 1,
+        passRate: 0,
+      },
+    ]);
+    expect(breakdown.prompts).toEqual([
+      {
+        name: 'greeting',
+        index: 0,
+        passed: 2,
+        failed: 1,
+        total: 3,
+        passRate: 66.7,
+      },
+      {
+        name: 'variant',
+        index: 1,
+        passed: 0,
+        failed: 1,
+        total: 1,
+        passRate: 0,
+      },
+    ]);
+  });
+
+  test('separates labeled providers and orders prompts by index', () => {
+    const breakdown = getResultBreakdown([
+      makeResult({ promptIdx: 2, prompt: undefined }),
+      makeResult({ provider: { id: 'openai:gpt-4o', label: 'strict' } }),
+      makeResult({ provider: undefined }),
+    ]);
+
+    expect(breakdown.providers.map(({ name, id }) => ({ name, id }))).toEqual([
+      { name: 'openai:gpt-4o', id: 'openai:gpt-4o' },
+      { name: 'strict', id: 'openai:gpt-4o' },
+      { name: 'unknown provider', id: 'unknown provider' },
+    ]);
+    expect(breakdown.prompts.map((row) => row.name)).toEqual([
+      'greeting',
+      'prompt 2',
+    ]);
+  });
+});
+
+describe('formatBreakdownMarkdown', () => {
+  test('omits tables for a single provider and prompt', () => {
+    expect(formatBreakdownMarkdown(getResultBreakdown([makeResult()]))).toBe(
+      '',
+    );
+  });
+
+  test('renders a table per dimension with several entries', () => {
+    const md = formatBreakdownMarkdown(
+      getResultBreakdown([
+        makeResult(),
+        makeResult({
+          promptIdx: 1,
+          prompt: { raw: 'Hi', label: 'a | b' },
+          provider: { id: 'anthropic:claude' },
+          success: false,
+        }),
+      ]),
+    );
+
+    expect(md).toContain('**Results by provider**');
+    expect(md).toContain('| Provider | Passed | Failed | Pass rate |');
+    expect(md).toContain('|----------|--------|--------|-----------|');
+    expect(md).toContain('| openai:gpt-4o | 1 | 0 | 100% |');
+    expect(md).toContain('**Results by prompt**');
+    expect(md).toContain('|--------|--------|--------|-----------|');
+    expect(md).toContain('| a \\| b | 0 | 1 | 0% |');
+  });
+
+  test('shows only the dimension that varies', () => {
+    const md = formatBreakdownMarkdown(
+      getResultBreakdown([
+        makeResult(),
+        makeResult({ provider: { id: 'anthropic:claude' } }),
+      ]),
+    );
+    expect(md).toContain('Results by provider');
+    expect(md).not.toContain('Results by prompt');
+  });
+});
@@ -0,0 +1,584 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import * as fs from 'fs';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  type BundledConfig,
+  formatBundleComment,
+  getBundledConclusion,
+  type ResultsBundle,
+  readResultsBundle,
+  verifyResultsBundle,
+  writeResultsBundle,
+} from '../../src/utils/bundle';
+import { ErrorCodes } from '../../src/utils/errors';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+}));
+
+vi.mock('fs', async () => {
+  const actual = await vi.importActual<typeof import('fs')>('fs');
+  return {
+    ...actual,
+    readFileSync: vi.fn(),
+    promises: { mkdir: vi.fn(), writeFile: vi.fn() },
+  };
+});
+
+const mockCore = core as unknown as { info: Mock };
+const mockFs = fs as unknown as {
+  readFileSync: Mock;
+  promises: { mkdir: Mock; writeFile: Mock };
+};
+
+const HEAD_SHA = 'c'.repeat(40);
+const repo = { owner: 'acme', repo: 'prompts' };
+
+function makeBundle(overrides: Record<string, unknown> = {}): ResultsBundle {
+  return {
+    version: 2,
+    pullRequestNumber: 7,
+    headSha: HEAD_SHA,
+    job: 'evaluate',
+    configs: [
+      {
+        config: 'promptfooconfig.yaml',
+        stats: { successes: 2, failures: 1, errors: 0 },
+        failures: [
+          {
+            test: 'Test A',
+            provider: 'openai:gpt-4o',
+            prompt: 'prompts/a.txt',
+            assertionType: 'contains',
+            reason: 'Expected "hi"',
+            failedRuns: 1,
+            totalRuns: 1,
+          },
+        ],
+        repeatSummary: {
+          totalGroups: 2,
+          failures: [],
+          groupingErrors: [],
+          minPass: 1,
+          repeatCount: 1,
+        },
+      },
+    ],
+    ...overrides,
+  } as ResultsBundle;
+}
+
+function withConfig(config: Record<string, unknown>): ResultsBundle {
+  return makeBundle({ configs: [{ ...makeBundle().configs[0], ...config }] });
+}
+
+function readBundle(bundle: unknown): ResultsBundle {
+  mockFs.readFileSync.mockReturnValue(JSON.stringify(bundle));
+  return readResultsBundle('/work/promptfoo-results.json');
+}
+
+describe('writeResultsBundle', () => {
+  test('creates the directory and writes the bundle as JSON', async () => {
+    await writeResultsBundle('/work/out/results.json', makeBundle());
+
+    expect(mockFs.promises.mkdir).toHaveBeenCalledWith('/work/out', {
+      recursive: true,
+    });
+    const [filePath, content] = mockFs.promises.writeFile.mock.calls[0];
+    expect(filePath).toBe('/work/out/results.json');
+    expect(JSON.parse(content)).toEqual(makeBundle());
+  });
+});
+
+describe('readResultsBundle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('reads a valid bundle', () => {
+    expect(readBundle(makeBundle())).toEqual(makeBundle());
+  });
+
+  test('drops unknown fields and keeps skipped configs', () => {
+    const [config] = makeBundle().configs;
+    const bundle = readBundle({
+      ...makeBundle({
+        configs: [
+          { config: 'other.yaml', extra: true },
+          {
+            ...config,
+            stats: { ...config.stats, extra: 1 },
+            failures: [{ ...config.failures[0], output: 'model output' }],
+          },
+        ],
+      }),
+      comment: { body: 'Posted as-is' },
+      token: 'secret',
+    });
+
+    expect(bundle).not.toHaveProperty('token');
+    expect(bundle).not.toHaveProperty('comment');
+    expect(bundle.configs).toEqual([
+      {
+        config: 'other.yaml',
+        stats: undefined,
+        failures: [],
+        repeatSummary: undefined,
+      },
+      config,
+    ]);
+  });
+
+  test('reads repeat check failures and grouping errors', () => {
+    const repeatSummary = {
+      totalGroups: 3,
+      failures: [{ label: 'Test A', passed: 1, total: 3 }],
+      groupingErrors: [
+        { label: 'Test B', actual: 2, expected: 3, kind: 'partial' },
+      ],
+      minPass: 2,
+      repeatCount: 3,
+    };
+
+    expect(readBundle(withConfig({ repeatSummary })).configs[0]).toEqual(
+      expect.objectContaining({ repeatSummary }),
+    );
+  });
+
+  test('fails when the file cannot be read', () => {
+    mockFs.readFileSync.mockImplementation(() => {
+      throw new Error('ENOENT: no such file');
+    });
+
+    expect(() => readResultsBundle('/work/missing.json')).toThrow(
+      'Failed to read results bundle /work/missing.json: ENOENT: no such file',
+    );
+  });
+
+  test('reports non-Error read failures', () => {
+    mockFs.readFileSync.mockImplementation(() => {
+      throw 'disk error';
+    });
+
+    expect(() => readResultsBundle('/work/results.json')).toThrow(
+      'Failed to read results bundle /work/results.json: disk error',
+    );
+  });
+
+  const [failure] = makeBundle().configs[0].failures;
+  const repeatSummary = makeBundle().configs[0].repeatSummary;
+  test.each([
+    [
+      'a list',
+      [],
+      'expected version 2; use the same action version for both jobs',
+    ],
+    [
+      'another version',
+      makeBundle({ version: 1 }),
+      'expected version 2; use the same action version for both jobs',
+    ],
+    [
+      'a missing pull request number',
+      makeBundle({ pullRequestNumber: 0 }),
+      'pullRequestNumber must be a positive integer',
+    ],
+    [
+      'a fractional pull request number',
+      makeBundle({ pullRequestNumber: 1.5 }),
+      'pullRequestNumber must be a positive integer',
+    ],
+    [
+      'a short head SHA',
+      makeBundle({ headSha: 'abc' }),
+      'headSha must be a 40-character commit SHA',
+    ],
+    [
+      'a non-string head SHA',
+      makeBundle({ headSha: 1 }),
+      'headSha must be a 40-character commit SHA',
+    ],
+    ['a missing job', makeBundle({ job: null }), 'job must be a string'],
+    [
+      'missing configs',
+      makeBundle({ configs: 'promptfooconfig.yaml' }),
+      'configs must be a list',
+    ],
+    [
+      'a config without a path',
+      makeBundle({ configs: [{ stats: undefined }] }),
+      'configs[0] must have a config path',
+    ],
+    [
+      'a config that is not an object',
+      makeBundle({ configs: ['promptfooconfig.yaml'] }),
+      'configs[0] must have a config path',
+    ],
+    [
+      'an empty config path',
+      withConfig({ config: '' }),
+      'configs[0] must have a config path',
+    ],
+    ...['a`b.yaml', 'a<b>.yaml', 'a|b.yaml', 'a\nb.yaml'].map(
+      (config) =>
+        [
+          `the config path ${JSON.stringify(config)}`,
+          withConfig({ config }),
+          'configs[0] must have a config path',
+        ] as const,
+    ),
+    [
+      'invalid stats',
+      withConfig({ stats: { successes: -1, failures: 0, errors: 0 } }),
+      'configs[0].stats must hold result counts',
+    ],
+    [
+      'stats that are not an object',
+      withConfig({ stats: 5 }),
+      'configs[0].stats must hold result counts',
+    ],
+    [
+      'stats without failures',
+      withConfig({ stats: { successes: 1 } }),
+      'configs[0].stats must hold result counts',
+    ],
+    [
+      'stats without errors',
+      withConfig({ stats: { successes: 1, failures: 0 } }),
+      'configs[0].stats must hold result counts',
+    ],
+    [
+      'failures that are not a list',
+      withConfig({ failures: 'Test A' }),
+      'configs[0].failures must be a list',
+    ],
+    ...(
+      [
+        ['a failure that is not an object', 'Test A'],
+        ['a failure without a test', { ...failure, test: 1 }],
+        ['a failure without a provider', { ...failure, provider: null }],
+        ['a failure without a prompt', { ...failure, prompt: undefined }],
+        ['a failure without a reason', { ...failure, reason: {} }],
+        ['a numeric assertion type', { ...failure, assertionType: 1 }],
+        [
+          'an assertion type with markdown',
+          { ...failure, assertionType: '`x` [y](z)' },
+        ],
+        ['a failure without run counts', { ...failure, failedRuns: -1 }],
+        ['a failure without a total', { ...failure, totalRuns: '1' }],
+      ] as const
+    ).map(
+      ([name, value]) =>
+        [
+          name,
+          withConfig({ failures: [value] }),
+          'configs[0].failures[0] is not a failing test',
+        ] as const,
+    ),
+    ...(
+      [
+        ['a repeat summary that is not an object', 'passed'],
+        [
+          'a repeat summary without groups',
+          { ...repeatSummary, totalGroups: -1 },
+        ],
+        [
+          'a repeat summary without a minimum',
+          { ...repeatSummary, minPass: null },
+        ],
+        [
+          'a repeat summary without a count',
+          { ...repeatSummary, repeatCount: 1.5 },
+        ],
+        [
+          'repeat failures that are not a list',
+          { ...repeatSummary, failures: {} },
+        ],
+        [
+          'grouping errors that are not a list',
+          { ...repeatSummary, groupingErrors: null },
+        ],
+        [
+          'an invalid repeat failure',
+          { ...repeatSummary, failures: [{ label: 'A', passed: 1 }] },
+        ],
+        [
+          'a repeat failure that is not an object',
+          { ...repeatSummary, failures: ['A'] },
+        ],
+        [
+          'a grouping error of an unknown kind',
+          {
+            ...repeatSummary,
+            groupingErrors: [
+              { label: 'A', actual: 1, expected: 2, kind: 'other' },
+            ],
+          },
+        ],
+        [
+          'a grouping error without a label',
+          {
+            ...repeatSummary,
+            groupingErrors: [{ actual: 1, expected: 2, kind: 'partial' }],
+          },
+        ],
+        [
+          'a grouping error that is not an object',
+          { ...repeatSummary, groupingErrors: [null] },
+        ],
+      ] as const
+    ).map(
+      ([name, value]) =>
+        [
+          name,
+          withConfig({ repeatSummary: value }),
+          'configs[0].repeatSummary is incomplete',
+        ] as const,
+    ),
+  ])('rejects %s', (_name, bundle, message) => {
+    mockFs.readFileSync.mockReturnValue(JSON.stringify(bundle));
+
+    expect(() => readResultsBundle('/work/results.json')).toThrow(
+      expect.objectContaining({
+        message: `Invalid results bundle: ${message}`,
+        code: ErrorCodes.INVALID_RESULTS_BUNDLE,
+      }),
+    );
+  });
+});
+
+describe('verifyResultsBundle', () => {
+  function makeOctokit(pullRequestHeadSha: string) {
+    const octokit = {
+      rest: {
+        pulls: {
+          get: vi.fn(() =>
+            Promise.resolve({ data: { head: { sha: pullRequestHeadSha } } }),
+          ),
+        },
+      },
+    };
+    return {
+      octokit,
+      client: octokit as unknown as ReturnType<typeof github.getOctokit>,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('accepts a bundle for the pull request head built by the run', async () => {
+    const { octokit, client } = makeOctokit(HEAD_SHA);
+
+    await expect(
+      verifyResultsBundle(client, repo, makeBundle(), HEAD_SHA),
+    ).resolves.toBe(true);
+    expect(octokit.rest.pulls.get).toHaveBeenCalledWith({
+      ...repo,
+      pull_number: 7,
+    });
+  });
+
+  test('rejects a bundle for another commit', async () => {
+    const { octokit, client } = makeOctokit(HEAD_SHA);
+
+    await expect(
+      verifyResultsBundle(client, repo, makeBundle(), 'd'.repeat(40)),
+    ).rejects.toMatchObject({
+      message: `Results bundle is for commit ${HEAD_SHA}, but the triggering workflow run built ${'d'.repeat(40)}`,
+      code: ErrorCodes.INVALID_RESULTS_BUNDLE,
+    });
+    expect(octokit.rest.pulls.get).not.toHaveBeenCalled();
+  });
+
+  test('skips results when the pull request has moved on', async () => {
+    const { client } = makeOctokit('e'.repeat(40));
+
+    await expect(
+      verifyResultsBundle(client, repo, makeBundle(), HEAD_SHA),
+    ).resolves.toBe(false);
+    expect(mockCore.info).toHaveBeenCalledWith(
+      `Pull request #7 is now at ${'e'.repeat(40)}, not at the evaluated commit ${HEAD_SHA}. Skipping the outdated results.`,
+    );
+  });
+});
+
+describe('formatBundleComment', () => {
+  test('renders the results of a single config', () => {
+    const body = formatBundleComment(makeBundle()) as string;
+
+    expect(body).toContain('| 2      | 1       |');
+    expect(body).toContain('**Repeat check**: all 2 test(s) passed');
+    expect(body).toContain(
+      '| Test A | openai\\:gpt\\-4o | prompts\\/a\\.txt | `contains` | Expected \\"hi\\" |',
+    );
+    expect(body).toContain('View eval results in the CI console');
+  });
+
+  test('escapes the strings reported by the evaluation run', () => {
+    const [config] = makeBundle().configs;
+    const body = formatBundleComment(
+      withConfig({
+        failures: [
+          {
+            ...config.failures[0],
+            test: '![x](https://evil.example/x.png) @team',
+            reason: '<img src=x>\n# Approved | [link](https://evil.example)',
+          },
+        ],
+        repeatSummary: {
+          ...config.repeatSummary,
+          failures: [
+            { label: '[click](https://evil.example)', passed: 0, total: 1 },
+          ],
+        },
+      }),
+    ) as string;
+
+    expect(body).toContain(
+      '\\!\\[x\\]\\(https\\:\\/\\/evil\\.example\\/x\\.png\\) \\@team',
+    );
+    expect(body).toContain('\\<img src\\=x\\> \\# Approved \\| \\[link\\]');
+    expect(body).toContain('> - \\[click\\]\\(https');
+    expect(body).not.toMatch(/(?<!\\)\]\(|(?<!\\)<img/);
+  });
+
+  test('escapes the labels of repeat grouping errors', () => {
+    const [config] = makeBundle().configs;
+    const body = formatBundleComment(
+      withConfig({
+        repeatSummary: {
+          ...config.repeatSummary,
+          groupingErrors: [
+            {
+              label: '<b>Test A</b>',
+              actual: 2,
+              expected: 1,
+              kind: 'ambiguous',
+            },
+          ],
+        },
+      }),
+    ) as string;
+
+    expect(body).toContain(
+      '> - \\<b\\>Test A\\<\\/b\\>: 2 results, expected 1',
+    );
+  });
+
+  test('renders an overview and a section per config', () => {
+    const [config] = makeBundle().configs;
+    const body = formatBundleComment(
+      makeBundle({
+        configs: [
+          { config: 'a/promptfooconfig.yaml', failures: [] },
+          {
+            ...config,
+            config: 'b/promptfooconfig.yaml',
+            failures: [],
+            repeatSummary: undefined,
+          },
+        ],
+      }),
+    ) as string;
+
+    expect(body).toContain(
+      '**promptfoo evaluated 1 of 2 configs**: 2 passed, 1 failed',
+    );
+    expect(body).toContain('| `a/promptfooconfig.yaml` | - | - | Skipped |');
+    expect(body).toContain(
+      '### `a/promptfooconfig.yaml`\n\n_Skipped: no LLM prompt, config files, or dependencies were modified._',
+    );
+    expect(body).toContain(
+      '### `b/promptfooconfig.yaml`\n\n| Success | Failure |',
+    );
+    expect(body).not.toContain('Repeat check');
+    expect(body).not.toContain('Failed tests');
+  });
+
+  test('returns undefined when every config was skipped', () => {
+    expect(
+      formatBundleComment(
+        makeBundle({ configs: [{ config: 'a.yaml', failures: [] }] }),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('getBundledConclusion', () => {
+  const config = (overrides: Partial<BundledConfig> = {}): BundledConfig => ({
+    config: 'promptfooconfig.yaml',
+    stats: { successes: 9, failures: 1, errors: 0 },
+    failures: [],
+    ...overrides,
+  });
+  const repeatSummary = makeBundle().configs[0].repeatSummary as NonNullable<
+    BundledConfig['repeatSummary']
+  >;
+
+  test.each([
+    ['a skipped config', config({ stats: undefined }), 90, 'neutral'],
+    ['failing tests without a threshold', config(), undefined, 'failure'],
+    [
+      'errors without a threshold',
+      config({ stats: { successes: 1, failures: 0, errors: 1 } }),
+      undefined,
+      'failure',
+    ],
+    [
+      'passing tests without a threshold',
+      config({ stats: { successes: 3, failures: 0, errors: 0 } }),
+      undefined,
+      'success',
+    ],
+    ['a met threshold', config(), 90, 'success'],
+    ['a missed threshold', config(), 95, 'failure'],
+    [
+      'errors below the threshold',
+      config({ stats: { successes: 9, failures: 0, errors: 1 } }),
+      95,
+      'failure',
+    ],
+    [
+      'no tests with a threshold',
+      config({ stats: { successes: 0, failures: 0, errors: 0 } }),
+      0,
+      'failure',
+    ],
+    [
+      'failing runs within the repeat minimum',
+      config({ repeatSummary }),
+      undefined,
+      'success',
+    ],
+    [
+      'repeat check failures',
+      config({
+        repeatSummary: {
+          ...repeatSummary,
+          failures: [{ label: 'Test A', passed: 0, total: 1 }],
+        },
+      }),
+      undefined,
+      'failure',
+    ],
+    [
+      'repeat grouping errors',
+      config({
+        repeatSummary: {
+          ...repeatSummary,
+          groupingErrors: [
+            { label: 'Test A', actual: 2, expected: 1, kind: 'ambiguous' },
+          ],
+        },
+      }),
+      undefined,
+      'failure',
+    ],
+  ] as const)('concludes %s', (_name, bundled, threshold, conclusion) => {
+    expect(getBundledConclusion(bundled, threshold)).toBe(conclusion);
+  });
+});
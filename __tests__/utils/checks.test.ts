@@ -0,0 +1,305 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import * as fs from 'fs';
+import type { EvaluateResult } from 'promptfoo';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  buildCheckAnnotations,
+  createCheckRun,
+  getCheckRunName,
+  locateTests,
+  MAX_CHECK_ANNOTATIONS,
+  readTestLocations,
+} from '../../src/utils/checks';
+import { makeResult } from '../helpers/results';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+vi.mock('fs', async () => {
+  const actual = await vi.importActual<typeof import('fs')>('fs');
+  return { ...actual, readFileSync: vi.fn() };
+});
+
+const mockCore = core as unknown as {
+  info: Mock;
+  debug: Mock;
+  warning: Mock;
+};
+const mockFs = fs as unknown as { readFileSync: Mock };
+
+function makeFailingResult(
+  overrides: Partial<EvaluateResult> = {},
+): EvaluateResult {
+  return makeResult({
+    success: false,
+    description: 'Test A',
+    prompt: { raw: 'Hello', label: 'greeting' },
+    gradingResult: {
+      pass: false,
+      score: 0,
+      reason: 'Expected "hi"',
+      assertion: { type: 'contains' },
+    },
+    ...overrides,
+  });
+}
+
+describe('getCheckRunName', () => {
+  test('names the check after the config', () => {
+    expect(getCheckRunName('evals/promptfooconfig.yaml')).toBe(
+      'promptfoo: evals/promptfooconfig.yaml',
+    );
+  });
+});
+
+describe('locateTests', () => {
+  test('returns no locations without a tests block', () => {
+    expect(locateTests('prompts:\n  - hello\n')).toEqual({ tests: [] });
+  });
+
+  test('only records the tests line for file references', () => {
+    expect(
+      locateTests('prompts: [a]\ntests: file://tests.csv # data\n'),
+    ).toEqual({ testsLine: 2, tests: [] });
+  });
+
+  test('finds indented test items and their descriptions', () => {
+    const content = [
+      'description: Suite', // 1
+      'tests:', // 2
+      '  # comment', // 3
+      '  - description: "First # test"', // 4
+      '    vars:', // 5
+      '      description: not the test', // 6
+      '', // 7
+      '  - vars:', // 8
+      '      q: hi', // 9
+      "    description: 'Second'", // 10
+      '    assert:', // 11
+      '      - type: contains', // 12
+      '        description: nested', // 13
+      '  -', // 14
+      '    description: Third # trailing', // 15
+      'providers:', // 16
+      '  - description: provider', // 17
+    ].join('\n');
+
+    expect(locateTests(content)).toEqual({
+      testsLine: 2,
+      tests: [
+        { line: 4, description: 'First # test' },
+        { line: 8, description: 'Second' },
+        { line: 14, description: 'Third' },
+      ],
+    });
+  });
+
+  test('handles unindented lists and Windows line endings', () => {
+    expect(
+      locateTests('tests:\r\n- description: A\r\n- description: B\r\nx: 1'),
+    ).toEqual({
+      testsLine: 1,
+      tests: [
+        { line: 2, description: 'A' },
+        { line: 3, description: 'B' },
+      ],
+    });
+  });
+
+  test('stops at a non-list value', () => {
+    expect(locateTests('tests:\n  vars: {}\n')).toEqual({
+      testsLine: 1,
+      tests: [],
+    });
+  });
+});
+
+describe('readTestLocations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('reads the config file', () => {
+    mockFs.readFileSync.mockReturnValue('tests:\n  - vars: {}\n');
+    expect(readTestLocations('promptfooconfig.yaml')).toEqual({
+      testsLine: 1,
+      tests: [{ line: 2 }],
+    });
+    expect(mockFs.readFileSync).toHaveBeenCalledWith(
+      'promptfooconfig.yaml',
+      'utf8',
+    );
+  });
+
+  test('returns no locations for unreadable files', () => {
+    mockFs.readFileSync.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+    expect(readTestLocations('missing.yaml')).toEqual({ tests: [] });
+    expect(mockCore.debug).toHaveBeenCalledWith(
+      expect.stringContaining('Could not read missing.yaml'),
+    );
+  });
+});
+
+describe('buildCheckAnnotations', () => {
+  const locations = {
+    testsLine: 3,
+    tests: [{ line: 4, description: 'Test A' }, { line: 8 }],
+  };
+
+  test('annotates failing tests once per test and provider', () => {
+    const annotations = buildCheckAnnotations(
+      [
+        makeFailingResult(),
+        makeFailingResult({ testIdx: 2 }),
+        makeFailingResult({ success: true, description: 'Passing' }),
+        makeFailingResult({ provider: { id: 'anthropic:claude' } }),
+      ],
+      'promptfooconfig.yaml',
+      locations,
+    );
+
+    expect(annotations).toEqual([
+      {
+        path: 'promptfooconfig.yaml',
+        start_line: 4,
+        end_line: 4,
+        annotation_level: 'failure',
+        title: 'Test A [openai:gpt-4o]',
+        message: 'contains: Expected "hi"\nPrompt: greeting',
+      },
+      expect.objectContaining({ title: 'Test A [anthropic:claude]' }),
+    ]);
+  });
+
+  test('falls back to the test index, the tests line and line 1', () => {
+    const lines = (testLocations: typeof locations | { tests: [] }) =>
+      buildCheckAnnotations(
+        [
+          makeFailingResult({
+            description: undefined,
+            testCase: { description: 'Unknown' },
+            testIdx: 1,
+            error: 'Timeout',
+          }),
+          makeFailingResult({
+            description: undefined,
+            vars: { q: 1 },
+            testIdx: 5,
+          }),
+        ],
+        'config.yaml',
+        testLocations,
+      ).map((annotation) => annotation.start_line);
+
+    expect(lines(locations)).toEqual([8, 3]);
+    expect(lines({ tests: [] })).toEqual([1, 1]);
+    expect(
+      buildCheckAnnotations(
+        [makeFailingResult({ error: 'Timeout' })],
+        'config.yaml',
+        locations,
+      )[0].message,
+    ).toBe('Timeout\nPrompt: greeting');
+  });
+
+  test('caps the number of annotations', () => {
+    const results = Array.from({ length: 60 }, (_, index) =>
+      makeFailingResult({ description: `Test ${index}` }),
+    );
+    expect(
+      buildCheckAnnotations(results, 'config.yaml', locations),
+    ).toHaveLength(MAX_CHECK_ANNOTATIONS);
+  });
+});
+
+describe('createCheckRun', () => {
+  const repo = { owner: 'test-owner', repo: 'test-repo' };
+
+  function makeOctokit() {
+    const octokit = {
+      rest: { checks: { create: vi.fn(() => Promise.resolve({})) } },
+    };
+    return {
+      octokit,
+      client: octokit as unknown as ReturnType<typeof github.getOctokit>,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('creates a completed check run', async () => {
+    const { octokit, client } = makeOctokit();
+
+    await createCheckRun(client, {
+      repo,
+      name: 'promptfoo: config.yaml',
+      headSha: 'abc',
+      conclusion: 'neutral',
+      title: 'Skipped',
+      summary: 'Nothing changed',
+    });
+
+    expect(octokit.rest.checks.create).toHaveBeenCalledWith({
+      ...repo,
+      name: 'promptfoo: config.yaml',
+      head_sha: 'abc',
+      status: 'completed',
+      conclusion: 'neutral',
+      output: { title: 'Skipped', summary: 'Nothing changed', annotations: [] },
+    });
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Created check run "promptfoo: config.yaml" (neutral)',
+    );
+  });
+
+  test('truncates long summaries', async () => {
+    const { octokit, client } = makeOctokit();
+
+    await createCheckRun(client, {
+      repo,
+      name: 'check',
+      headSha: 'abc',
+      conclusion: 'success',
+      title: 'ok',
+      summary: 'x'.repeat(70000),
+    });
+
+    const { summary } = octokit.rest.checks.create.mock.calls[0][0].output;
+    expect(summary.length).toBeLessThanOrEqual(65535);
+    expect(summary).toMatch(/_Summary truncated\._$/);
+  });
+
+  test('warns when the check run cannot be created', async () => {
+    const { octokit, client } = makeOctokit();
+    octokit.rest.checks.create
+      .mockRejectedValueOnce(new Error('Resource not accessible'))
+      .mockRejectedValueOnce('forbidden');
+    const options = {
+      repo,
+      name: 'check',
+      headSha: 'abc',
+      conclusion: 'failure' as const,
+      title: 'failed',
+      summary: 'failed',
+    };
+
+    await createCheckRun(client, options);
+    await createCheckRun(client, options);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to create check run "check": Resource not accessible. Make sure the workflow has "checks: write" permission.',
+    );
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      expect.stringContaining('"check": forbidden.'),
+    );
+  });
+});
@@ -0,0 +1,354 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  type CommentRun,
+  formatCommentHistory,
+  getCommentMarker,
+  parseCommentRuns,
+  postPullRequestComment,
+  renderComment,
+} from '../../src/utils/comment';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const mockCore = core as unknown as {
+  info: Mock;
+  debug: Mock;
+  warning: Mock;
+};
+
+const repo = { owner: 'test-owner', repo: 'test-repo' };
+const BOT = { login: 'github-actions[bot]', type: 'Bot' };
+
+function makeRun(overrides: Partial<CommentRun> = {}): CommentRun {
+  return {
+    sha: 'a'.repeat(40),
+    successes: 3,
+    failures: 1,
+    errors: 0,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeOctokit(comments: unknown[]) {
+  const octokit = {
+    paginate: vi.fn(() => Promise.resolve(comments)),
+    graphql: vi.fn(() => Promise.resolve({})),
+    rest: {
+      issues: {
+        listComments: vi.fn(),
+        createComment: vi.fn(() => Promise.resolve({})),
+        updateComment: vi.fn(() => Promise.resolve({})),
+      },
+      users: {
+        getAuthenticated: vi.fn(() =>
+          Promise.reject(new Error('Resource not accessible by integration')),
+        ),
+      },
+    },
+  };
+  return {
+    octokit,
+    client: octokit as unknown as ReturnType<typeof github.getOctokit>,
+  };
+}
+
+describe('getCommentMarker', () => {
+  test('builds a stable hidden marker per config and job', () => {
+    const marker = getCommentMarker('promptfooconfig.yaml', 'eval');
+    expect(marker).toMatch(/^<!-- promptfoo-action:comment:[0-9a-f]{16} -->$/);
+    expect(getCommentMarker('promptfooconfig.yaml', 'eval')).toBe(marker);
+    expect(getCommentMarker('promptfooconfig.yaml', 'other')).not.toBe(marker);
+    expect(getCommentMarker('other.yaml', 'eval')).not.toBe(marker);
+  });
+
+  test('defaults the job to an empty key', () => {
+    expect(getCommentMarker('promptfooconfig.yaml')).toBe(
+      getCommentMarker('promptfooconfig.yaml', ''),
+    );
+  });
+});
+
+describe('parseCommentRuns', () => {
+  test('returns an empty list without stored history', () => {
+    expect(parseCommentRuns('plain comment')).toEqual([]);
+  });
+
+  test('reads stored runs and drops malformed entries', () => {
+    const run = makeRun();
+    const body = `text\n<!-- promptfoo-action:history:${JSON.stringify([
+      run,
+      { sha: 'b', successes: '1' },
+      null,
+    ])} -->`;
+    expect(parseCommentRuns(body)).toEqual([run]);
+  });
+
+  test('ignores history that is not a JSON array', () => {
+    expect(
+      parseCommentRuns('<!-- promptfoo-action:history:{"sha":"a"} -->'),
+    ).toEqual([]);
+    expect(parseCommentRuns('<!-- promptfoo-action:history:{oops -->')).toEqual(
+      [],
+    );
+  });
+});
+
+describe('formatCommentHistory', () => {
+  test('returns an empty string without runs', () => {
+    expect(formatCommentHistory([])).toBe('');
+  });
+
+  test('renders a collapsed table with short commit SHAs', () => {
+    const md = formatCommentHistory([makeRun(), makeRun({ sha: '' })]);
+    expect(md).toContain('<details>');
+    expect(md).toContain('<summary>Previous runs (2)</summary>');
+    expect(md).toContain('| aaaaaaa | 3 | 1 | 0 | 2026-01-01T00:00:00.000Z |');
+    expect(md).toContain('| - | 3 | 1 | 0 |');
+  });
+
+  test('escapes stored values in the table', () => {
+    const md = formatCommentHistory([
+      makeRun({ sha: 'a|b', timestamp: 'now |\n[link](x)' }),
+    ]);
+    expect(md).toContain('| a\\|b | 3 | 1 | 0 | now \\| [link](x) |');
+  });
+});
+
+describe('renderComment', () => {
+  test('places the marker first and stores the run history', () => {
+    const current = makeRun({ sha: 'b'.repeat(40) });
+    const previous = makeRun();
+    const body = renderComment('<!-- marker -->', 'Report', [
+      current,
+      previous,
+    ]);
+    expect(body.startsWith('<!-- marker -->\nReport\n')).toBe(true);
+    expect(body).toContain('Previous runs (1)');
+    expect(parseCommentRuns(body)).toEqual([current, previous]);
+  });
+
+  test('omits the history section for the first run', () => {
+    const body = renderComment('<!-- marker -->', 'Report', [makeRun()]);
+    expect(body).not.toContain('Previous runs');
+  });
+
+  test('caps the stored history', () => {
+    const runs = Array.from({ length: 30 }, (_, index) =>
+      makeRun({ successes: index }),
+    );
+    const body = renderComment('<!-- marker -->', 'Report', runs);
+    expect(parseCommentRuns(body)).toHaveLength(21);
+  });
+});
+
+describe('postPullRequestComment', () => {
+  const marker = '<!-- promptfoo-action:comment:abc -->';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('creates a comment when none exists', async () => {
+    const { octokit, client } = makeOctokit([
+      { id: 1, node_id: 'IC_1', body: 'unrelated' },
+      { id: 2, node_id: 'IC_2' },
+    ]);
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'Report',
+      run: makeRun(),
+      mode: 'update',
+      hideOutdated: false,
+    });
+
+    expect(octokit.paginate).toHaveBeenCalledWith(
+      octokit.rest.issues.listComments,
+      { ...repo, issue_number: 5, per_page: 100 },
+    );
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({
+      ...repo,
+      issue_number: 5,
+      body: expect.stringContaining('Report'),
+    });
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+  });
+
+  test('updates the latest marked comment and carries its history', async () => {
+    const older = makeRun({ sha: 'c'.repeat(40) });
+    const previousBody = renderComment(marker, 'Old report', [older]);
+    const { octokit, client } = makeOctokit([
+      { id: 1, node_id: 'IC_1', user: BOT, body: `${marker}\nfirst` },
+      { id: 2, node_id: 'IC_2', user: BOT, body: previousBody },
+    ]);
+    const current = makeRun({ sha: 'd'.repeat(40) });
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'New report',
+      run: current,
+      mode: 'update',
+      hideOutdated: true,
+    });
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({
+      ...repo,
+      comment_id: 2,
+      body: expect.stringContaining('New report'),
+    });
+    const body = octokit.rest.issues.updateComment.mock.calls[0][0].body;
+    expect(parseCommentRuns(body)).toEqual([current, older]);
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(octokit.graphql).toHaveBeenCalledTimes(1);
+    expect(octokit.graphql).toHaveBeenCalledWith(
+      expect.stringContaining('classifier: OUTDATED'),
+      { subjectId: 'IC_1' },
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('Updated existing PR comment 2');
+  });
+
+  test('posts a new comment when the update fails', async () => {
+    const { octokit, client } = makeOctokit([
+      { id: 2, node_id: 'IC_2', user: BOT, body: `${marker}\nold` },
+    ]);
+    octokit.rest.issues.updateComment.mockRejectedValue(new Error('Forbidden'));
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'Report',
+      run: makeRun(),
+      mode: 'update',
+      hideOutdated: true,
+    });
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to update PR comment 2'),
+    );
+    expect(octokit.rest.issues.createComment).toHaveBeenCalled();
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.any(String), {
+      subjectId: 'IC_2',
+    });
+  });
+
+  test('always creates in create mode and hides every previous comment', async () => {
+    const { octokit, client } = makeOctokit([
+      { id: 1, node_id: 'IC_1', user: BOT, body: `${marker}\nfirst` },
+      { id: 2, node_id: 'IC_2', user: BOT, body: `${marker}\nsecond` },
+    ]);
+    octokit.graphql
+      .mockRejectedValueOnce('not allowed')
+      .mockRejectedValueOnce(new Error('rate limited'));
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'Report',
+      run: makeRun(),
+      mode: 'create',
+      hideOutdated: true,
+    });
+
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.createComment).toHaveBeenCalled();
+    expect(octokit.graphql).toHaveBeenCalledTimes(2);
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to minimize outdated comment 1: not allowed',
+    );
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to minimize outdated comment 2: rate limited',
+    );
+  });
+
+  test('ignores marked comments by other users', async () => {
+    const { octokit, client } = makeOctokit([
+      {
+        id: 1,
+        node_id: 'IC_1',
+        user: { login: 'mallory', type: 'User' },
+        body: renderComment(marker, 'Fake', [makeRun({ timestamp: 'fake' })]),
+      },
+      { id: 2, node_id: 'IC_2', user: null, body: `${marker}\nghost` },
+    ]);
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'Report',
+      run: makeRun(),
+      mode: 'update',
+      hideOutdated: true,
+    });
+
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    const body = octokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(parseCommentRuns(body)).toEqual([makeRun()]);
+    expect(octokit.graphql).not.toHaveBeenCalled();
+  });
+
+  test("updates the comments of a personal access token's user", async () => {
+    const { octokit, client } = makeOctokit([
+      { id: 1, node_id: 'IC_1', user: BOT, body: `${marker}\nbot` },
+      {
+        id: 2,
+        node_id: 'IC_2',
+        user: { login: 'ci-user', type: 'User' },
+        body: `${marker}\nmine`,
+      },
+    ]);
+    octokit.rest.users.getAuthenticated.mockResolvedValue({
+      data: { login: 'ci-user' },
+    });
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'Report',
+      run: makeRun(),
+      mode: 'update',
+      hideOutdated: false,
+    });
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 2 }),
+    );
+  });
+
+  test('leaves previous comments visible unless hiding is enabled', async () => {
+    const { octokit, client } = makeOctokit([
+      { id: 1, node_id: 'IC_1', user: BOT, body: `${marker}\nfirst` },
+    ]);
+    octokit.rest.issues.updateComment.mockRejectedValue('boom');
+
+    await postPullRequestComment(client, {
+      repo,
+      issueNumber: 5,
+      marker,
+      body: 'Report',
+      run: makeRun(),
+      mode: 'update',
+      hideOutdated: false,
+    });
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to update PR comment 1, posting a new one instead: boom',
+    );
+    expect(octokit.graphql).not.toHaveBeenCalled();
+  });
+});
@@ -3,7 +3,12 @@ import * as fs from 'fs';
 import * as glob from 'glob';
 import type { Mock } from 'vitest';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { extractFileDependencies } from '../../src/utils/config';
+import {
+  extractConfigPrompts,
+  extractFileDependencies,
+  findScriptConfigReferences,
+  parseCsv,
+} from '../../src/utils/config';
 
 vi.mock('fs', async () => {
   const realFs = await vi.importActual<typeof import('fs')>('fs');
@@ -506,4 +511,490 @@ tests:
       extractFileDependencies('/test/config/promptfooconfig.yaml'),
     ).toEqual([]);
   });
+
+  it('should include files imported by code dependencies', () => {
+    const files: Record<string, string> = {
+      '/test/config/promptfooconfig.yaml': `
+providers:
+  - file://providers/my_provider.py
+tests:
+  - assert:
+      - type: javascript
+        value: file://asserts/check.js
+`,
+      '/test/config/providers/my_provider.py': 'from lib import retry',
+      '/test/config/providers/lib/retry.py': 'import os',
+      '/test/config/asserts/check.js': "require('../../../outside.js');",
+      '/test/outside.js': '',
+    };
+    mockFs.readFileSync.mockImplementation((file: string) => {
+      if (!(file in files)) {
+        throw new Error(`ENOENT: ${file}`);
+      }
+      return files[file];
+    });
+    mockFs.statSync.mockImplementation((file: string) => ({
+      isDirectory: () => false,
+      isFile: () => file in files,
+    }));
+
+    expect(
+      extractFileDependencies('/test/config/promptfooconfig.yaml'),
+    ).toEqual([
+      '../config/providers/my_provider.py',
+      '../config/asserts/check.js',
+      '../config/providers/lib/retry.py',
+    ]);
+  });
+
+  it('should resolve function-suffixed code references to their files', () => {
+    const files: Record<string, string> = {
+      '/test/working/promptfooconfig.yaml': `
+providers:
+  - file://providers/p.py:call_api
+  - id: file://providers/client.ts:callApi
+tests:
+  - assert:
+      - type: python
+        value: file://asserts/assert.py:get_assert
+`,
+      '/test/working/providers/p.py': 'from lib import retry',
+      '/test/working/providers/lib/retry.py': '',
+      '/test/working/providers/client.ts': "import './http';",
+      '/test/working/providers/http.ts': '',
+      '/test/working/asserts/assert.py': 'from lib.helper import check',
+      '/test/working/asserts/lib/helper.py': '',
+    };
+    mockFs.readFileSync.mockImplementation((file: string) => {
+      if (!(file in files)) {
+        throw new Error(`ENOENT: ${file}`);
+      }
+      return files[file];
+    });
+    mockFs.statSync.mockImplementation((file: string) => ({
+      isDirectory: () => false,
+      isFile: () => file in files,
+    }));
+
+    expect(
+      extractFileDependencies('/test/working/promptfooconfig.yaml'),
+    ).toEqual([
+      'providers/p.py',
+      'providers/client.ts',
+      'asserts/assert.py',
+      'providers/lib/retry.py',
+      'providers/http.ts',
+      'asserts/lib/helper.py',
+    ]);
+  });
+
+  describe('referenced test and scenario files', () => {
+    const withFiles = (files: Record<string, string>): void => {
+      mockFs.readFileSync.mockImplementation((file: string) => {
+        if (!(file in files)) {
+          throw new Error(`ENOENT: ${file}`);
+        }
+        return files[file];
+      });
+    };
+
+    it('should read dependencies from a tests file reference', () => {
+      withFiles({
+        '/test/config/promptfooconfig.yaml': 'tests: file://tests.yaml',
+        '/test/config/tests.yaml': `
+- vars:
+    context: file://data/context.txt
+  assert:
+    - type: javascript
+      value: file://asserts/check.js
+- file://more-tests.json
+- file://tests.yaml
+`,
+        '/test/config/more-tests.json': JSON.stringify({
+          vars: { doc: 'file://data/doc.md' },
+        }),
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual([
+        '../config/tests.yaml',
+        '../config/data/context.txt',
+        '../config/asserts/check.js',
+        '../config/more-tests.json',
+        '../config/data/doc.md',
+      ]);
+    });
+
+    it('should read globbed, JSONL and CSV test files in a tests list', () => {
+      mockGlob.hasMagic.mockImplementation((value: string) =>
+        value.includes('*'),
+      );
+      mockGlob.sync.mockReturnValue([
+        '/test/config/tests/a.csv',
+        '/test/config/tests/b.jsonl',
+      ]);
+      withFiles({
+        '/test/config/promptfooconfig.yaml': `
+tests:
+  - file://tests/*
+  - vars:
+      inline: file://inline.txt
+  - https://docs.google.com/spreadsheets/d/abc
+  - file://generate_tests.py
+`,
+        '/test/config/tests/a.csv':
+          'question,__expected\r\nfile://q1.txt,"contains: yes"\r\nplain,file://expected.js\r\n',
+        '/test/config/tests/b.jsonl': [
+          JSON.stringify({ vars: { q: 'file://q2.txt' } }),
+          '',
+          JSON.stringify({ assert: [{ value: { file: 'rubric.txt' } }] }),
+        ].join('\n'),
+        '/test/config/generate_tests.py': '',
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual([
+        '../config/tests/a.csv',
+        '../config/tests/b.jsonl',
+        '../config/tests',
+        '../config/q1.txt',
+        '../config/expected.js',
+        '../config/q2.txt',
+        '../config/rubric.txt',
+        '../config/inline.txt',
+        '../config/generate_tests.py',
+      ]);
+    });
+
+    it('should read dependencies from scenarios', () => {
+      withFiles({
+        '/test/config/promptfooconfig.yaml': `
+scenarios:
+  - config:
+      - vars:
+          language: file://languages/fr.txt
+    tests:
+      - assert:
+          - value: file://asserts/translation.js
+  - file://scenarios.yaml
+`,
+        '/test/config/scenarios.yaml': `
+config:
+  - vars:
+      language: file://languages/de.txt
+tests: file://scenario-tests.yaml
+`,
+        '/test/config/scenario-tests.yaml': `
+- vars:
+    text: file://texts/long.txt
+`,
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual([
+        '../config/languages/fr.txt',
+        '../config/asserts/translation.js',
+        '../config/scenarios.yaml',
+        '../config/languages/de.txt',
+        '../config/scenario-tests.yaml',
+        '../config/texts/long.txt',
+      ]);
+    });
+
+    it('should handle a scenarios file reference and empty files', () => {
+      withFiles({
+        '/test/config/promptfooconfig.yaml': `
+scenarios: file://scenarios.yml
+tests:
+  - file://empty.yaml
+  - 42
+`,
+        '/test/config/scenarios.yml': `
+- tests:
+    - vars:
+        a: file://a.txt
+- plain text
+- https://example.com/scenarios.yaml
+- 7
+`,
+        '/test/config/empty.yaml': '',
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual([
+        '../config/empty.yaml',
+        '../config/scenarios.yml',
+        '../config/a.txt',
+        '../config/plain text',
+      ]);
+    });
+
+    it('should ignore remote test and scenario sources', () => {
+      withFiles({
+        '/test/config/promptfooconfig.yaml': `
+tests: https://docs.google.com/spreadsheets/d/abc
+scenarios: https://example.com/scenarios.yaml
+`,
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual([]);
+    });
+
+    it('should warn about unreadable or invalid test files', () => {
+      withFiles({
+        '/test/config/promptfooconfig.yaml': `
+tests:
+  - file://missing.yaml
+  - file://broken.json
+`,
+        '/test/config/broken.json': '{',
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual(['../config/missing.yaml', '../config/broken.json']);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Failed to read dependencies from \.\.\/config\/missing\.yaml: ENOENT/,
+        ),
+      );
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Failed to read dependencies from ../config/broken.json',
+        ),
+      );
+    });
+
+    it('should report non-Error read failures', () => {
+      mockFs.readFileSync
+        .mockReturnValueOnce('tests: file://tests.yaml')
+        .mockImplementationOnce(() => {
+          throw 'denied';
+        });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.yaml'),
+      ).toEqual(['../config/tests.yaml']);
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to read dependencies from ../config/tests.yaml: denied',
+      );
+    });
+  });
+
+  describe('config formats', () => {
+    const withFiles = (files: Record<string, string>): void => {
+      mockFs.readFileSync.mockImplementation((file: string) => {
+        if (!(file in files)) {
+          throw new Error(`ENOENT: ${file}`);
+        }
+        return files[file];
+      });
+      mockFs.statSync.mockImplementation((file: string) => ({
+        isDirectory: () => false,
+        isFile: () => file in files,
+      }));
+    };
+
+    it('should parse JSON configs as JSON', () => {
+      withFiles({
+        '/test/config/promptfooconfig.json': JSON.stringify({
+          providers: ['file://provider.py'],
+          prompts: [{ file: 'prompt.txt' }],
+        }),
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.json'),
+      ).toEqual(['../config/provider.py', '../config/prompt.txt']);
+    });
+
+    it('should warn about invalid JSON configs', () => {
+      withFiles({ '/test/config/promptfooconfig.json': '{"providers": [' });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.json'),
+      ).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to extract dependencies from config'),
+      );
+    });
+
+    it('should find references in JS and TS configs without running them', () => {
+      withFiles({
+        '/test/config/promptfooconfig.ts': `
+import type { UnifiedConfig } from 'promptfoo';
+import { sharedTests } from './shared/tests';
+
+const config: UnifiedConfig = {
+  prompts: ['file://prompts/main.txt', { file: 'prompts/chat.json' }],
+  providers: [\`file://providers/\${name}.py\`, "file://providers/custom.js"],
+  tests: 'file://tests.yaml',
+  scenarios: "file://scenarios.yaml",
+};
+export default config;
+`,
+        '/test/config/shared/tests.ts':
+          "export const sharedTests = [{ vars: { doc: 'file://docs/a.md' } }];",
+        '/test/config/providers/custom.js': "require('./lib/http');",
+        '/test/config/providers/lib/http.js': '',
+        '/test/config/tests.yaml': '- vars:\n    q: file://q.txt',
+        '/test/config/scenarios.yaml':
+          'config:\n  - vars:\n      lang: file://lang.txt',
+      });
+
+      expect(
+        extractFileDependencies('/test/config/promptfooconfig.ts'),
+      ).toEqual([
+        '../config/shared/tests.ts',
+        '../config/tests.yaml',
+        '../config/q.txt',
+        '../config/scenarios.yaml',
+        '../config/lang.txt',
+        '../config/prompts/main.txt',
+        '../config/providers/custom.js',
+        '../config/prompts/chat.json',
+        '../config/docs/a.md',
+        '../config/providers/lib/http.js',
+      ]);
+    });
+  });
+});
+
+describe('extractConfigPrompts', () => {
+  const mockFs = fs as unknown as {
+    readFileSync: Mock;
+    statSync: Mock;
+  };
+  const mockGlob = glob as unknown as { hasMagic: Mock };
+  const mockCore = core as unknown as { warning: Mock };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(process, 'cwd').mockReturnValue('/repo');
+    mockGlob.hasMagic.mockImplementation((pattern: string) =>
+      pattern.includes('*'),
+    );
+    mockFs.statSync.mockImplementation((filePath: string) => ({
+      isDirectory: () => filePath === '/repo/evals/prompts/chat',
+    }));
+  });
+
+  it('lists file prompts as repository paths and globs', () => {
+    mockFs.readFileSync.mockReturnValue(`
+prompts:
+  - file://prompts/system.txt
+  - file://prompts/*.md
+  - file: prompts/user.txt
+  - file://prompts/chat
+  - id: file://prompts/summary.txt
+    label: Summary
+  - file://prompts/generate.py:make_prompt
+  - id: openai-style
+  - "Inline prompt about {{topic}}"
+`);
+
+    expect(extractConfigPrompts('/repo/evals/promptfooconfig.yaml')).toEqual([
+      { pattern: 'evals/prompts/system.txt' },
+      { pattern: 'evals/prompts/*.md' },
+      { pattern: 'evals/prompts/user.txt' },
+      { pattern: 'evals/prompts/chat/**' },
+      { pattern: 'evals/prompts/summary.txt', label: 'Summary' },
+      { pattern: 'evals/prompts/generate.py' },
+    ]);
+  });
+
+  it('skips prompts outside the workspace', () => {
+    mockFs.readFileSync.mockReturnValue(
+      JSON.stringify({
+        prompts: ['file://../../etc/passwd', { file: 'a\0b.txt' }, null],
+      }),
+    );
+
+    expect(extractConfigPrompts('/repo/evals/promptfooconfig.json')).toEqual(
+      [],
+    );
+  });
+
+  it('keeps prompts next to a config outside the workspace', () => {
+    mockFs.readFileSync.mockReturnValue('prompts:\n  - file://prompt.txt\n');
+
+    expect(extractConfigPrompts('/shared/promptfooconfig.yaml')).toEqual([
+      { pattern: '../shared/prompt.txt' },
+    ]);
+  });
+
+  it('returns nothing for configs without a prompt list', () => {
+    mockFs.readFileSync.mockReturnValue('');
+    expect(extractConfigPrompts('/repo/promptfooconfig.yaml')).toEqual([]);
+
+    mockFs.readFileSync.mockReturnValue('prompts: file://prompts/*.txt');
+    expect(extractConfigPrompts('/repo/promptfooconfig.yaml')).toEqual([]);
+
+    mockFs.readFileSync.mockReturnValue(
+      "export default { prompts: ['file://prompts/a.txt'] };",
+    );
+    expect(extractConfigPrompts('/repo/promptfooconfig.js')).toEqual([]);
+  });
+
+  it('warns when the config cannot be read', () => {
+    mockFs.readFileSync.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+    expect(extractConfigPrompts('/repo/promptfooconfig.yaml')).toEqual([]);
+
+    mockFs.readFileSync.mockImplementation(() => {
+      throw 'EACCES';
+    });
+    expect(extractConfigPrompts('/repo/promptfooconfig.yaml')).toEqual([]);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to read prompts from config: ENOENT',
+    );
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to read prompts from config: EACCES',
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('should parse quoted fields and skip blank rows', () => {
+    expect(
+      parseCsv(
+        'name, note\n"Smith, J","said ""hi""\nthen left"\n\n,\nlast\r\n',
+      ),
+    ).toEqual([
+      { name: 'Smith, J', note: 'said "hi"\nthen left' },
+      { name: 'last', note: '' },
+    ]);
+  });
+
+  it('should parse a final row without a line break', () => {
+    expect(parseCsv('a,b\n1,2')).toEqual([{ a: '1', b: '2' }]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('findScriptConfigReferences', () => {
+  it('should separate test and scenario sources from other files', () => {
+    expect(
+      findScriptConfigReferences(`
+module.exports = {
+  prompts: [\`file://prompts/\${lang}.txt\`, { file: \`\${dir}/p.txt\` }],
+  defaultTest: { assert: [{ type: 'python', value: 'file://check.py' }] },
+  tests: \`file://tests/\${suite}.csv\`,
+  scenarios: 'file://scenarios.yaml',
+};
+`),
+    ).toEqual({
+      tests: [],
+      scenarios: ['file://scenarios.yaml'],
+      files: ['file://check.py'],
+    });
+  });
 });
@@ -0,0 +1,166 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  MAX_IMPORT_DEPTH,
+  resolveImportDependencies,
+} from '../../src/utils/dependencies';
+
+vi.mock('fs', async () => {
+  const actual = await vi.importActual<typeof import('fs')>('fs');
+  return { ...actual, readFileSync: vi.fn(), statSync: vi.fn() };
+});
+
+const mockFs = fs as unknown as { readFileSync: Mock; statSync: Mock };
+const root = path.resolve('/repo');
+
+function withFiles(files: Record<string, string>): void {
+  const absoluteFiles = new Map(
+    Object.entries(files).map(([file, content]) => [
+      path.join(root, file),
+      content,
+    ]),
+  );
+  mockFs.readFileSync.mockImplementation((file: string) => {
+    const content = absoluteFiles.get(file);
+    if (content === undefined) {
+      throw new Error(`ENOENT: ${file}`);
+    }
+    return content;
+  });
+  mockFs.statSync.mockImplementation((file: string) => {
+    if (!absoluteFiles.has(file)) {
+      throw new Error(`ENOENT: ${file}`);
+    }
+    return { isFile: () => true };
+  });
+}
+
+function resolve(files: string[], maxDepth?: number): string[] {
+  return resolveImportDependencies(
+    files.map((file) => path.join(root, file)),
+    root,
+    maxDepth,
+  )
+    .map((file) => path.relative(root, file).split(path.sep).join('/'))
+    .sort();
+}
+
+describe('resolveImportDependencies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('follows JavaScript and TypeScript imports', () => {
+    withFiles({
+      'providers/provider.ts': [
+        "import { retry } from './lib/retry.js';",
+        "import type { Options } from './types';",
+        "export * from './exports';",
+        "import './setup.mjs';",
+        "const helpers = require('../shared/helpers');",
+        "const lazy = await import('./lazy.cjs');",
+        "import { z } from 'zod';",
+      ].join('\n'),
+      'providers/lib/retry.ts': 'export const retry = 1;',
+      'providers/types.d.ts': '',
+      'providers/types/index.ts': 'export type Options = {};',
+      'providers/exports.jsx': '',
+      'providers/setup.mjs': '',
+      'shared/helpers.js': "module.exports = require('./format');",
+      'shared/format.cjs': '',
+      'providers/lazy.cjs': '',
+    });
+
+    expect(resolve(['providers/provider.ts'])).toEqual([
+      'providers/exports.jsx',
+      'providers/lazy.cjs',
+      'providers/lib/retry.ts',
+      'providers/setup.mjs',
+      'providers/types/index.ts',
+      'shared/format.cjs',
+      'shared/helpers.js',
+    ]);
+  });
+
+  test('follows Python imports', () => {
+    withFiles({
+      'providers/my_provider.py': [
+        'import os, json',
+        'import lib.retry as retry',
+        'from utils import tokens',
+        'from .local import helper  # relative',
+        'from . import sibling',
+        'from ..shared import (',
+        '    config,',
+        ')',
+        'from common.logging import get_logger',
+      ].join('\n'),
+      'providers/lib/retry.py': '',
+      'providers/local.py': '',
+      'providers/sibling.py': '',
+      'utils/tokens.py': '',
+      'shared/__init__.py': 'from .config import load',
+      'shared/config.py': '',
+      'common/logging/__init__.py': '',
+    });
+
+    expect(resolve(['providers/my_provider.py'])).toEqual([
+      'common/logging/__init__.py',
+      'providers/lib/retry.py',
+      'providers/local.py',
+      'providers/sibling.py',
+      'shared/__init__.py',
+      'shared/config.py',
+      'utils/tokens.py',
+    ]);
+  });
+
+  test('terminates on import cycles and skips starting files', () => {
+    withFiles({
+      'a.js': "import './b.js';",
+      'b.js': "import './a.js'; import './c.js';",
+      'c.js': "import './b.js';",
+    });
+
+    expect(resolve(['a.js'])).toEqual(['b.js', 'c.js']);
+    expect(mockFs.readFileSync).toHaveBeenCalledTimes(3);
+  });
+
+  test('stops at the depth limit', () => {
+    withFiles({
+      'one.py': 'import two',
+      'two.py': 'import three',
+      'three.py': 'import four',
+      'four.py': '',
+    });
+
+    expect(resolve(['one.py'], 2)).toEqual(['three.py', 'two.py']);
+    expect(core.debug).toHaveBeenCalledWith(
+      'Stopped following imports after 2 levels; imports of 1 file(s) were not resolved',
+    );
+    expect(resolve(['one.py'])).toEqual(['four.py', 'three.py', 'two.py']);
+    expect(MAX_IMPORT_DEPTH).toBeGreaterThan(2);
+  });
+
+  test('ignores imports outside the workspace', () => {
+    withFiles({
+      'provider.js': "import '../outside.js';",
+      '../outside.js': '',
+    });
+
+    expect(resolve(['provider.js'])).toEqual([]);
+  });
+
+  test('skips files that are not code or cannot be read', () => {
+    withFiles({ 'prompt.txt': "import './a.js'" });
+
+    expect(resolve(['prompt.txt', 'missing.py'])).toEqual([]);
+    expect(mockFs.readFileSync).toHaveBeenCalledTimes(1);
+    expect(core.debug).toHaveBeenCalledWith(
+      expect.stringContaining('Could not read'),
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import * as core from '@actions/core';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  type DryRunPlan,
+  formatDryRunPlan,
+  getPlanEnvironment,
+  reportDryRun,
+} from '../../src/utils/dry-run';
+
+const mockCore = core as unknown as {
+  info: Mock;
+  setOutput: Mock;
+  summary: { addHeading: Mock; addRaw: Mock; write: Mock };
+};
+
+function makePlan(overrides: Partial<DryRunPlan> = {}): DryRunPlan {
+  return {
+    runReason: {
+      run: true,
+      categories: ['prompt-files'],
+      files: ['prompts/a.txt'],
+      description: 'prompt files changed',
+    },
+    promptFiles: ['prompts/a.txt'],
+    commands: [
+      {
+        config: 'promptfooconfig.yaml',
+        args: [
+          'promptfoo@latest',
+          'eval',
+          '-c',
+          'promptfooconfig.yaml',
+          '--prompts',
+          'prompts/a.txt',
+          '--filter-providers',
+          "gpt 4's",
+        ],
+      },
+    ],
+    env: {
+      OPENAI_API_KEY: 'sk-test',
+      PROMPTFOO_CACHE_PATH: '/tmp/cache',
+      PATH: '/usr/bin',
+    },
+    ...overrides,
+  };
+}
+
+describe('getPlanEnvironment', () => {
+  test('keeps provider keys and promptfoo settings with secrets redacted', () => {
+    expect(
+      getPlanEnvironment({
+        PROMPTFOO_CACHE_PATH: '/tmp/cache',
+        PROMPTFOO_API_KEY: 'pf-key',
+        AWS_ACCESS_KEY_ID: 'AKIA',
+        HF_API_TOKEN: 'hf-token',
+        GROQ_API_KEY: undefined,
+        HOME: '/home/runner',
+        GITHUB_TOKEN: 'ghs-token',
+      }),
+    ).toEqual({
+      AWS_ACCESS_KEY_ID: '***',
+      HF_API_TOKEN: '***',
+      PROMPTFOO_API_KEY: '***',
+      PROMPTFOO_CACHE_PATH: '/tmp/cache',
+    });
+  });
+});
+
+describe('formatDryRunPlan', () => {
+  test('lists the reason, prompt files, commands, and environment', () => {
+    expect(formatDryRunPlan(makePlan())).toEqual([
+      'Would run: yes',
+      'Reason: prompt files changed',
+      'Triggering files: prompts/a.txt',
+      'Prompt files: prompts/a.txt',
+      "Command for promptfooconfig.yaml: npx promptfoo@latest eval -c promptfooconfig.yaml --prompts prompts/a.txt --filter-providers 'gpt 4'\\''s'",
+      'Environment:',
+      '  OPENAI_API_KEY=***',
+      '  PROMPTFOO_CACHE_PATH=/tmp/cache',
+    ]);
+  });
+
+  test('notes prompts from the config and a missing environment', () => {
+    const lines = formatDryRunPlan(
+      makePlan({
+        runReason: {
+          run: true,
+          categories: ['force-run'],
+          files: [],
+          description: 'force-run is enabled',
+        },
+        promptFiles: [],
+        env: {},
+      }),
+    );
+
+    expect(lines).not.toContainEqual(
+      expect.stringContaining('Triggering files'),
+    );
+    expect(lines).toContain('Prompt files: (from the config)');
+    expect(lines).toContain('Environment: (no provider keys)');
+  });
+
+  test('stops after the reason when nothing would run', () => {
+    expect(
+      formatDryRunPlan(
+        makePlan({
+          runReason: {
+            run: false,
+            categories: [],
+            files: [],
+            description:
+              'no LLM prompt, config files, or dependencies were modified',
+          },
+          promptFiles: [],
+          commands: [],
+        }),
+      ),
+    ).toEqual([
+      'Would run: no',
+      'Reason: no LLM prompt, config files, or dependencies were modified',
+    ]);
+  });
+});
+
+describe('reportDryRun', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCore.summary.addHeading.mockReturnThis();
+    mockCore.summary.addRaw.mockReturnThis();
+  });
+
+  test('logs the plan, sets the outputs, and writes the summary', async () => {
+    const plan = makePlan();
+
+    await reportDryRun(plan);
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Dry run: promptfoo was not run',
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('Would run: yes');
+    expect(mockCore.setOutput).toHaveBeenCalledWith('would-run', 'true');
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'promptfoo-args',
+      JSON.stringify([plan.commands[0].args]),
+    );
+    expect(mockCore.summary.addHeading).toHaveBeenCalledWith(
+      'Promptfoo Dry Run',
+    );
+    expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+      `\`\`\`\n${formatDryRunPlan(plan).join('\n')}\n\`\`\``,
+      true,
+    );
+    expect(mockCore.summary.write).toHaveBeenCalled();
+  });
+
+  test('reports that nothing would run', async () => {
+    await reportDryRun(makePlan({ promptFiles: [], commands: [] }));
+
+    expect(mockCore.setOutput).toHaveBeenCalledWith('would-run', 'false');
+    expect(mockCore.setOutput).toHaveBeenCalledWith('promptfoo-args', '[]');
+  });
+});
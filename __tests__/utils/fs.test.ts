@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import type { Mock } from 'vitest';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
-import { isDirectory } from '../../src/utils/fs';
+import { isDirectory, isFile, isPathInside } from '../../src/utils/fs';
 
 vi.mock('fs', async () => {
   const actual = await vi.importActual<typeof import('fs')>('fs');
@@ -38,3 +38,37 @@ describe('isDirectory', () => {
     expect(isDirectory('/missing')).toBe(false);
   });
 });
+
+describe('isFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('returns true for files', () => {
+    mockStatSync.mockReturnValue({ isFile: () => true });
+
+    expect(isFile('/tmp/cache.json')).toBe(true);
+  });
+
+  test('returns false when the path cannot be inspected', () => {
+    mockStatSync.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+
+    expect(isFile('/missing')).toBe(false);
+  });
+});
+
+describe('isPathInside', () => {
+  test('accepts the directory itself and nested paths', () => {
+    expect(isPathInside('/repo', '/repo')).toBe(true);
+    expect(isPathInside('/repo', '/repo/src/a.ts')).toBe(true);
+    expect(isPathInside('/repo', '/repo/..foo/a.ts')).toBe(true);
+  });
+
+  test('rejects paths outside the directory', () => {
+    expect(isPathInside('/repo', '/')).toBe(false);
+    expect(isPathInside('/repo', '/repo-other/a.ts')).toBe(false);
+    expect(isPathInside('/repo', '/etc/passwd')).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'vitest';
 import {
+  parseOptionalChoice,
   parseOptionalPercentage,
   parseOptionalPositiveInt,
   parseStrictPositiveInt,
@@ -90,3 +91,22 @@ describe('parseOptionalPercentage', () => {
     );
   });
 });
+
+describe('parseOptionalChoice', () => {
+  const choices = ['update', 'create'] as const;
+
+  test('returns undefined for empty string', () => {
+    expect(parseOptionalChoice('', 'test', choices)).toBeUndefined();
+  });
+
+  test('accepts listed choices', () => {
+    expect(parseOptionalChoice('update', 'test', choices)).toBe('update');
+    expect(parseOptionalChoice('create', 'test', choices)).toBe('create');
+  });
+
+  test('rejects unlisted values', () => {
+    expect(() => parseOptionalChoice('upsert', 'test', choices)).toThrow(
+      'test must be one of update, create, got "upsert"',
+    );
+  });
+});
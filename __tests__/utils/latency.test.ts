@@ -0,0 +1,121 @@
+import type { EvaluateResult } from 'promptfoo';
+import { describe, expect, test } from 'vitest';
+import {
+  formatDuration,
+  formatLatencyMarkdown,
+  getLatencyReport,
+  percentile,
+} from '../../src/utils/latency';
+import { makeResult } from '../helpers/results';
+
+function makeTimedResult(
+  latencyMs: number | undefined,
+  overrides: Partial<EvaluateResult> = {},
+): EvaluateResult {
+  return makeResult({ description: 'Test A', latencyMs, ...overrides });
+}
+
+describe('percentile', () => {
+  test('uses the nearest rank', () => {
+    const sorted = Array.from({ length: 10 }, (_, index) => (index + 1) * 100);
+    expect(percentile(sorted, 50)).toBe(500);
+    expect(percentile(sorted, 90)).toBe(900);
+    expect(percentile(sorted, 99)).toBe(1000);
+    expect(percentile([42], 50)).toBe(42);
+    expect(percentile([1, 2], 0)).toBe(1);
+  });
+});
+
+describe('getLatencyReport', () => {
+  test('computes percentiles per provider', () => {
+    const report = getLatencyReport([
+      makeTimedResult(300),
+      makeTimedResult(100),
+      makeTimedResult(200),
+      makeTimedResult(2500, { provider: { id: 'anthropic:claude' } }),
+    ]);
+
+    expect(report.providers).toEqual([
+      {
+        provider: 'openai:gpt-4o',
+        count: 3,
+        p50: 200,
+        p90: 300,
+        p99: 300,
+        max: 300,
+      },
+      {
+        provider: 'anthropic:claude',
+        count: 1,
+        p50: 2500,
+        p90: 2500,
+        p99: 2500,
+        max: 2500,
+      },
+    ]);
+    expect(report.slowest[0]).toEqual({
+      test: 'Test A',
+      provider: 'anthropic:claude',
+      prompt: 'greeting',
+      latencyMs: 2500,
+    });
+  });
+
+  test('skips cached and missing latencies', () => {
+    const report = getLatencyReport([
+      makeTimedResult(undefined),
+      makeTimedResult(Number.NaN),
+      makeTimedResult(5, { response: { output: 'hi', cached: true } }),
+      makeTimedResult(50, { response: { output: 'hi' } }),
+    ]);
+    expect(report.providers).toHaveLength(1);
+    expect(report.providers[0].count).toBe(1);
+    expect(report.slowest).toHaveLength(1);
+  });
+
+  test('keeps only the slowest tests', () => {
+    const report = getLatencyReport(
+      Array.from({ length: 8 }, (_, index) =>
+        makeTimedResult(index * 10, { description: `Test ${index}` }),
+      ),
+    );
+    expect(report.slowest.map((test) => test.test)).toEqual([
+      'Test 7',
+      'Test 6',
+      'Test 5',
+      'Test 4',
+      'Test 3',
+    ]);
+  });
+});
+
+describe('formatDuration', () => {
+  test('uses milliseconds below one second', () => {
+    expect(formatDuration(849.6)).toBe('850 ms');
+    expect(formatDuration(1234)).toBe('1.2 s');
+  });
+});
+
+describe('formatLatencyMarkdown', () => {
+  test('returns an empty string without latency data', () => {
+    expect(formatLatencyMarkdown({ providers: [], slowest: [] })).toBe('');
+  });
+
+  test('renders provider percentiles and the slowest tests', () => {
+    const md = formatLatencyMarkdown(
+      getLatencyReport([
+        makeTimedResult(400),
+        makeTimedResult(1500, { description: 'Slow | test' }),
+      ]),
+    );
+    expect(md).toContain('**Latency by provider**');
+    expect(md).toContain(
+      '| openai:gpt-4o | 2 | 400 ms | 1.5 s | 1.5 s | 1.5 s |',
+    );
+    expect(md).toContain('**Slowest tests**');
+    expect(md).toContain(
+      '| Slow \\| test | openai:gpt-4o | greeting | 1.5 s |',
+    );
+    expect(md.indexOf('Slow \\| test')).toBeLessThan(md.indexOf('| Test A |'));
+  });
+});
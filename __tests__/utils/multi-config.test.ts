@@ -0,0 +1,184 @@
+import * as glob from 'glob';
+import * as path from 'path';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { ErrorCodes, PromptfooActionError } from '../../src/utils/errors';
+import { isFile } from '../../src/utils/fs';
+import {
+  combineConfigGateFailures,
+  findConfigFiles,
+  formatConfigOverviewMarkdown,
+  resolveConfigPaths,
+} from '../../src/utils/multi-config';
+
+vi.mock('glob', () => ({
+  sync: vi.fn(),
+  hasMagic: vi.fn((pattern: string) => pattern.includes('*')),
+}));
+
+vi.mock('../../src/utils/fs', () => ({
+  isFile: vi.fn(() => true),
+}));
+
+const mockGlob = glob as unknown as { sync: Mock };
+const mockIsFile = isFile as Mock;
+
+describe('resolveConfigPaths', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('returns a single config path unchanged', () => {
+    expect(resolveConfigPaths('promptfooconfig.yaml', '/repo')).toEqual([
+      'promptfooconfig.yaml',
+    ]);
+    expect(mockGlob.sync).not.toHaveBeenCalled();
+  });
+
+  test('splits a newline list and removes duplicates', () => {
+    expect(
+      resolveConfigPaths(
+        ' a/promptfooconfig.yaml\n\nb/promptfooconfig.yaml\n./a/promptfooconfig.yaml\n',
+        '/repo',
+      ),
+    ).toEqual(['a/promptfooconfig.yaml', 'b/promptfooconfig.yaml']);
+  });
+
+  test('expands globs relative to the working directory', () => {
+    mockGlob.sync.mockReturnValue([
+      'products/b/promptfooconfig.yaml',
+      'products/a/promptfooconfig.yaml',
+    ]);
+
+    expect(
+      resolveConfigPaths('products/*/promptfooconfig.yaml', '/repo'),
+    ).toEqual([
+      'products/a/promptfooconfig.yaml',
+      'products/b/promptfooconfig.yaml',
+    ]);
+    expect(mockGlob.sync).toHaveBeenCalledWith(
+      'products/*/promptfooconfig.yaml',
+      { cwd: '/repo', nodir: true, ignore: ['**/node_modules/**'] },
+    );
+  });
+
+  test('rejects globs without matches', () => {
+    mockGlob.sync.mockReturnValue([]);
+
+    expect(() => resolveConfigPaths('evals/*.yaml', '/repo')).toThrow(
+      'No config files match "evals/*.yaml"',
+    );
+  });
+
+  test('rejects an empty list', () => {
+    expect(() => resolveConfigPaths(' \n ', '/repo')).toThrow(
+      'config must list at least one config file',
+    );
+  });
+});
+
+describe('findConfigFiles', () => {
+  beforeEach(() => {
+    mockIsFile.mockReturnValue(true);
+  });
+
+  test('returns the config files in sorted order', () => {
+    expect(
+      findConfigFiles(
+        [
+          'products/b/promptfooconfig.yml',
+          'README.md',
+          'promptfooconfig.yaml',
+          'products/a/promptfooconfig.json',
+          'products/a/prompts/promptfooconfig.txt',
+          'tools/promptfooconfig.js',
+        ],
+        '/repo',
+      ),
+    ).toEqual([
+      'products/a/promptfooconfig.json',
+      'products/b/promptfooconfig.yml',
+      'promptfooconfig.yaml',
+      'tools/promptfooconfig.js',
+    ]);
+  });
+
+  test('skips listed files that no longer exist', () => {
+    mockIsFile.mockImplementation(
+      (filePath: string) => !filePath.includes('deleted'),
+    );
+
+    expect(
+      findConfigFiles(
+        ['deleted/promptfooconfig.yaml', 'kept/promptfooconfig.yaml'],
+        '/repo',
+      ),
+    ).toEqual(['kept/promptfooconfig.yaml']);
+    expect(mockIsFile).toHaveBeenCalledWith(
+      path.resolve('/repo', 'deleted/promptfooconfig.yaml'),
+    );
+  });
+
+  test('fails when no config is found', () => {
+    expect(() => findConfigFiles(['README.md'], '/repo')).toThrow(
+      'No promptfoo configs found in /repo',
+    );
+  });
+});
+
+describe('formatConfigOverviewMarkdown', () => {
+  test('renders evaluated and skipped configs', () => {
+    expect(
+      formatConfigOverviewMarkdown([
+        { config: 'a/config.yaml', stats: { successes: 3, failures: 1 } },
+        { config: 'b|c.yaml' },
+        { config: 'empty.yaml', stats: { successes: 0, failures: 0 } },
+      ]),
+    ).toBe(
+      [
+        '| Config | Success | Failure | Pass rate |',
+        '|--------|---------|---------|-----------|',
+        '| `a/config.yaml` | 3 | 1 | 75.00% |',
+        '| `b\\|c.yaml` | - | - | Skipped |',
+        '| `empty.yaml` | 0 | 0 | - |',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('combineConfigGateFailures', () => {
+  const thresholdError = new PromptfooActionError(
+    'Evaluation success rate (50.00%) is below the required threshold (60%)',
+    ErrorCodes.THRESHOLD_NOT_MET,
+    'Consider adjusting your prompts or lowering the threshold',
+  );
+
+  test('prefixes a single failure with its config', () => {
+    const error = combineConfigGateFailures([
+      { config: 'b/config.yaml', error: thresholdError },
+    ]);
+
+    expect(error.message).toBe(`b/config.yaml: ${thresholdError.message}`);
+    expect(error.code).toBe(ErrorCodes.THRESHOLD_NOT_MET);
+    expect(error.helpText).toBe(thresholdError.helpText);
+  });
+
+  test('lists every failure', () => {
+    const error = combineConfigGateFailures([
+      { config: 'b/config.yaml', error: thresholdError },
+      {
+        config: 'overall',
+        error: new PromptfooActionError(
+          'No tests were run',
+          ErrorCodes.THRESHOLD_NOT_MET,
+        ),
+      },
+    ]);
+
+    expect(error.message).toBe(
+      `2 checks failed: b/config.yaml: ${thresholdError.message}; overall: No tests were run`,
+    );
+    expect(error.code).toBe(ErrorCodes.THRESHOLD_NOT_MET);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'vitest';
+import { getChangedPromptFilter } from '../../src/utils/prompt-filter';
+
+describe('getChangedPromptFilter', () => {
+  const prompts = [
+    { pattern: 'evals/prompts/system.txt', label: 'System (v2)' },
+    { pattern: 'evals/prompts/chat/**' },
+  ];
+
+  test('matches labeled prompts by label and others by path', () => {
+    expect(
+      getChangedPromptFilter(
+        prompts,
+        ['evals/prompts/system.txt', 'evals/prompts/chat/greeting.txt'],
+        'evals',
+      ),
+    ).toBe('^System \\(v2\\)(?::|$)|(?:^|/)prompts/chat/greeting\\.txt(?::|$)');
+  });
+
+  test('lists a prompt once for several changes', () => {
+    expect(
+      getChangedPromptFilter(
+        [{ pattern: 'prompts/*.txt', label: 'All' }],
+        ['prompts/a.txt', 'prompts/b.txt'],
+        '.',
+      ),
+    ).toBe('^All(?::|$)');
+  });
+
+  test('matches the labels promptfoo gives labeled file prompts', () => {
+    const filter = new RegExp(
+      getChangedPromptFilter(prompts, ['evals/prompts/system.txt'], 'evals') ??
+        '',
+    );
+
+    expect(filter.test('System (v2): prompts/system.txt: You are')).toBe(true);
+    expect(filter.test('System (v2)')).toBe(true);
+    expect(filter.test('System (v2) draft: prompts/system.txt')).toBe(false);
+  });
+
+  test('does not filter when a changed file is not a config prompt', () => {
+    expect(
+      getChangedPromptFilter(
+        prompts,
+        ['evals/prompts/system.txt', 'evals/notes.txt'],
+        'evals',
+      ),
+    ).toBeUndefined();
+    expect(getChangedPromptFilter(prompts, [], 'evals')).toBeUndefined();
+  });
+});
@@ -0,0 +1,301 @@
+import type { OutputFile } from 'promptfoo';
+import { describe, expect, test } from 'vitest';
+import {
+  collectFailures,
+  escapeMarkdown,
+  escapeTableCell,
+  type FailureDetail,
+  formatFailuresMarkdown,
+  getEvaluateResults,
+  getPromptLabel,
+  getProviderLabel,
+  getTestLabel,
+} from '../../src/utils/report';
+import { makeResult } from '../helpers/results';
+
+function makeFailure(overrides: Partial<FailureDetail> = {}): FailureDetail {
+  return {
+    test: 'Test A',
+    provider: 'openai:gpt-4o',
+    prompt: 'greeting',
+    assertionType: 'contains',
+    reason: 'Expected output to contain "hi"',
+    failedRuns: 1,
+    totalRuns: 1,
+    ...overrides,
+  };
+}
+
+describe('getEvaluateResults', () => {
+  test('returns only well-formed result entries', () => {
+    const valid = makeResult();
+    const output = {
+      results: { results: [valid, null, 'x', { promptIdx: 0 }] },
+    } as unknown as OutputFile;
+    expect(getEvaluateResults(output)).toEqual([valid]);
+  });
+
+  test('returns an empty list when results are missing', () => {
+    const output = { results: { stats: {} } } as unknown as OutputFile;
+    expect(getEvaluateResults(output)).toEqual([]);
+  });
+});
+
+describe('labels', () => {
+  test('prefers the result description, then the test case description', () => {
+    expect(getTestLabel(makeResult({ description: 'Multi\n line' }))).toBe(
+      'Multi line',
+    );
+    expect(
+      getTestLabel(
+        makeResult({
+          description: undefined,
+          testCase: { description: 'From test case' },
+        }),
+      ),
+    ).toBe('From test case');
+  });
+
+  test('falls back to a truncated vars summary', () => {
+    expect(
+      getTestLabel(makeResult({ description: undefined, vars: { q: 'hi' } })),
+    ).toBe('test({"q":"hi"})');
+    expect(
+      getTestLabel(
+        makeResult({
+          description: undefined,
+          vars: undefined,
+          testCase: { vars: { q: 'x'.repeat(100) } },
+        }),
+      ),
+    ).toMatch(/^test\(\{"q":"x+\.\.\.\)$/);
+    expect(getTestLabel(makeResult({ description: undefined }))).toBe(
+      'test({})',
+    );
+  });
+
+  test('prefers provider labels over ids', () => {
+    expect(
+      getProviderLabel(makeResult({ provider: { id: 'a', label: 'Label' } })),
+    ).toBe('Label');
+    expect(getProviderLabel(makeResult())).toBe('openai:gpt-4o');
+    expect(getProviderLabel(makeResult({ provider: undefined }))).toBe(
+      'unknown provider',
+    );
+  });
+
+  test('falls back to the prompt index without a prompt label', () => {
+    expect(getPromptLabel(makeResult())).toBe('greeting');
+    expect(
+      getPromptLabel(makeResult({ prompt: undefined, promptIdx: 2 })),
+    ).toBe('prompt 2');
+  });
+
+  test('escapes table cells', () => {
+    expect(escapeTableCell('a | b\nc')).toBe('a \\| b c');
+  });
+
+  test('escapes markdown punctuation but leaves pipes to table cells', () => {
+    expect(escapeMarkdown('[a](b) <i>\n@c | d_e')).toBe(
+      '\\[a\\]\\(b\\) \\<i\\> \\@c | d\\_e',
+    );
+  });
+});
+
+describe('collectFailures', () => {
+  test('ignores passing results', () => {
+    expect(collectFailures([makeResult()])).toEqual([]);
+  });
+
+  test('reports the first failing nested assertion', () => {
+    const failures = collectFailures([
+      makeResult({
+        success: false,
+        description: 'Test A',
+        response: { output: 'Hello there' },
+        gradingResult: {
+          pass: false,
+          score: 0,
+          reason: 'Aggregate failure',
+          componentResults: [
+            { pass: true, score: 1, reason: 'ok' },
+            {
+              pass: false,
+              score: 0,
+              reason: 'outer',
+              componentResults: [
+                {
+                  pass: false,
+                  score: 0,
+                  reason: 'Expected output to contain "hi"',
+                  assertion: { type: 'contains', value: 'hi' },
+                },
+              ],
+            },
+          ],
+        },
+      }),
+    ]);
+
+    expect(failures).toEqual([
+      {
+        test: 'Test A',
+        provider: 'openai:gpt-4o',
+        prompt: 'greeting',
+        assertionType: 'contains',
+        reason: 'Expected output to contain "hi"',
+        output: 'Hello there',
+        failedRuns: 1,
+        totalRuns: 1,
+      },
+    ]);
+  });
+
+  test('falls back to the top-level grading result', () => {
+    const [failure] = collectFailures([
+      makeResult({
+        success: false,
+        gradingResult: {
+          pass: false,
+          score: 0,
+          reason: 'Top-level reason',
+          assertion: { type: 'llm-rubric' },
+        },
+      }),
+    ]);
+    expect(failure.assertionType).toBe('llm-rubric');
+    expect(failure.reason).toBe('Top-level reason');
+    expect(failure).not.toHaveProperty('output');
+  });
+
+  test('uses the parent reason and type when a component omits them', () => {
+    const [failure] = collectFailures([
+      makeResult({
+        success: false,
+        gradingResult: {
+          pass: false,
+          score: 0,
+          reason: 'Parent reason',
+          assertion: { type: 'javascript' },
+          componentResults: [{ pass: false, score: 0, reason: '' }],
+        },
+      }),
+    ]);
+    expect(failure.assertionType).toBe('javascript');
+    expect(failure.reason).toBe('Parent reason');
+  });
+
+  test('handles grading results without any reason', () => {
+    const [failure] = collectFailures([
+      makeResult({
+        success: false,
+        gradingResult: { pass: false, score: 0, reason: '' },
+      }),
+    ]);
+    expect(failure).not.toHaveProperty('assertionType');
+    expect(failure.reason).toBe('No reason given');
+  });
+
+  test('reports provider errors and missing grading results', () => {
+    const failures = collectFailures([
+      makeResult({ success: false, error: 'Rate limited', testIdx: 0 }),
+      makeResult({
+        success: false,
+        description: 'Test B',
+        response: { output: { answer: 42 } },
+      }),
+      makeResult({
+        success: false,
+        description: 'Test C',
+        response: { output: '' },
+      }),
+    ]);
+    expect(failures.map((failure) => failure.reason)).toEqual([
+      'Rate limited',
+      'No grading result',
+      'No grading result',
+    ]);
+    expect(failures[1].output).toBe('{\n  "answer": 42\n}');
+    expect(failures[2]).not.toHaveProperty('output');
+  });
+
+  test('folds repeated runs of the same test into one entry', () => {
+    const failures = collectFailures([
+      makeResult({ testIdx: 0, success: false }),
+      makeResult({ testIdx: 1, success: true }),
+      makeResult({ testIdx: 2, success: false }),
+      makeResult({
+        testIdx: 3,
+        success: false,
+        provider: { id: 'anthropic:claude' },
+      }),
+    ]);
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toMatchObject({ failedRuns: 2, totalRuns: 3 });
+    expect(failures[1]).toMatchObject({
+      provider: 'anthropic:claude',
+      failedRuns: 1,
+      totalRuns: 1,
+    });
+  });
+});
+
+describe('formatFailuresMarkdown', () => {
+  test('returns an empty string without failures', () => {
+    expect(formatFailuresMarkdown([])).toBe('');
+  });
+
+  test('renders a table row per failing test', () => {
+    const md = formatFailuresMarkdown([
+      makeFailure(),
+      makeFailure({
+        test: 'Test | B',
+        assertionType: undefined,
+        failedRuns: 2,
+        totalRuns: 3,
+      }),
+    ]);
+    expect(md).toContain('**Failed tests** (2)');
+    expect(md).toContain(
+      '| Test A | openai:gpt-4o | greeting | `contains` | Expected output to contain "hi" |',
+    );
+    expect(md).toContain('| Test \\| B (failed 2/3 runs) | openai:gpt-4o |');
+    expect(md).toContain('| greeting | - |');
+    expect(md).not.toContain('<details>');
+  });
+
+  test('truncates long reasons and outputs inside details blocks', () => {
+    const md = formatFailuresMarkdown([
+      makeFailure({
+        test: '<b>Test</b>',
+        reason: 'r'.repeat(300),
+        output: `${'o'.repeat(1200)}\`\`\`\``,
+      }),
+      makeFailure({ test: 'Short', output: 'short output' }),
+    ]);
+    expect(md).toContain(`${'r'.repeat(197)}...`);
+    expect(md).not.toContain('r'.repeat(198));
+    expect(md).toContain(
+      '<summary>Output: &lt;b&gt;Test&lt;/b&gt; [openai:gpt-4o]</summary>',
+    );
+    expect(md).toContain('... (truncated, 1204 characters total)');
+    expect(md).toContain('```\nshort output\n```');
+  });
+
+  test('uses a longer fence when the output contains backticks', () => {
+    const md = formatFailuresMarkdown([
+      makeFailure({ output: 'before ``` after' }),
+    ]);
+    expect(md).toContain('````\nbefore ``` after\n````');
+  });
+
+  test('limits the number of rows', () => {
+    const failures = Array.from({ length: 30 }, (_, index) =>
+      makeFailure({ test: `Test ${index}` }),
+    );
+    const md = formatFailuresMarkdown(failures);
+    expect(md).toContain('| Test 24 |');
+    expect(md).not.toContain('| Test 25 |');
+    expect(md).toContain('...and 5 more failing test(s)');
+  });
+});
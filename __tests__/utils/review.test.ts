@@ -0,0 +1,382 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import type { EvaluateResult } from 'promptfoo';
+import type { Mock } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  buildPromptReviewComments,
+  getFirstAddedLine,
+  postPromptReview,
+  REVIEW_COMMENT_MARKER,
+  usesPromptFile,
+} from '../../src/utils/review';
+import { makeResult } from '../helpers/results';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const mockCore = core as unknown as {
+  info: Mock;
+  debug: Mock;
+  warning: Mock;
+};
+
+function makeFailingResult(
+  overrides: Partial<EvaluateResult> = {},
+): EvaluateResult {
+  return makeResult({
+    success: false,
+    description: 'Test A',
+    prompt: { raw: 'Hello', label: 'prompts/greeting.txt: Hello' },
+    gradingResult: {
+      pass: false,
+      score: 0,
+      reason: 'Expected "hi"',
+      assertion: { type: 'contains' },
+    },
+    ...overrides,
+  });
+}
+
+const PATCH = [
+  '@@ -1,3 +1,3 @@',
+  ' First',
+  '-Second',
+  '\\ No newline at end of file',
+  '+Changed',
+  ' Third',
+].join('\n');
+
+describe('getFirstAddedLine', () => {
+  test('returns the new-file line of the first added line', () => {
+    expect(getFirstAddedLine(PATCH)).toBe(2);
+    expect(
+      getFirstAddedLine(
+        '@@ -10,2 +12 @@\n context\n-gone\n@@ -40 +42,2 @@\n+new',
+      ),
+    ).toBe(42);
+  });
+
+  test('returns undefined when lines are only removed', () => {
+    expect(getFirstAddedLine('@@ -1,2 +1 @@\n-gone\n kept')).toBeUndefined();
+  });
+});
+
+describe('usesPromptFile', () => {
+  test('matches the prompt path as a whole path', () => {
+    expect(usesPromptFile(makeFailingResult(), 'prompts/greeting.txt')).toBe(
+      true,
+    );
+    expect(usesPromptFile(makeFailingResult(), './prompts/greeting.txt')).toBe(
+      true,
+    );
+    expect(usesPromptFile(makeFailingResult(), 'greeting.txt')).toBe(true);
+    expect(usesPromptFile(makeFailingResult(), 'eting.txt')).toBe(false);
+    expect(usesPromptFile(makeFailingResult(), 'prompts/greeting.tx')).toBe(
+      false,
+    );
+  });
+
+  test('checks the prompt id and handles missing prompts', () => {
+    expect(
+      usesPromptFile(
+        makeFailingResult({
+          prompt: { raw: 'A', id: 'file://prompts\\a.txt', label: 'A' },
+        }),
+        'prompts\\a.txt',
+      ),
+    ).toBe(false);
+    expect(
+      usesPromptFile(
+        makeFailingResult({
+          prompt: { raw: 'A', id: 'file://prompts/a.txt', label: 'A' },
+        }),
+        'prompts\\a.txt',
+      ),
+    ).toBe(true);
+    expect(
+      usesPromptFile(makeFailingResult({ prompt: undefined }), 'a.txt'),
+    ).toBe(false);
+  });
+});
+
+describe('buildPromptReviewComments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('comments on changed prompt files with failing tests', () => {
+    const comments = buildPromptReviewComments(
+      [
+        makeFailingResult(),
+        makeFailingResult({ testIdx: 1, description: 'Test B', success: true }),
+        makeFailingResult({
+          prompt: { raw: 'Hi', label: 'prompts/other.txt: Hi' },
+          success: true,
+        }),
+      ],
+      [
+        {
+          path: 'evals/prompts/greeting.txt',
+          promptPath: 'prompts/greeting.txt',
+          patch: PATCH,
+        },
+        {
+          path: 'evals/prompts/other.txt',
+          promptPath: 'prompts/other.txt',
+          patch: PATCH,
+        },
+      ],
+    );
+
+    expect(comments).toEqual([
+      {
+        path: 'evals/prompts/greeting.txt',
+        line: 2,
+        side: 'RIGHT',
+        body: '<!-- promptfoo-action:review -->\n**promptfoo**: 1 failing test(s) use this prompt.\n\n- **Test A** [openai:gpt-4o]: `contains` Expected "hi"',
+      },
+    ]);
+  });
+
+  test('skips files without added lines', () => {
+    expect(
+      buildPromptReviewComments(
+        [makeFailingResult()],
+        [
+          { path: 'a.txt', promptPath: 'prompts/greeting.txt' },
+          {
+            path: 'b.txt',
+            promptPath: 'prompts/greeting.txt',
+            patch: '@@ -1 +0,0 @@\n-gone',
+          },
+        ],
+      ),
+    ).toEqual([]);
+    expect(mockCore.debug).toHaveBeenCalledWith(
+      'No added lines to comment on in a.txt',
+    );
+  });
+
+  test('summarizes repeated runs and limits the listed failures', () => {
+    const results = [
+      makeFailingResult({ error: 'r'.repeat(300) }),
+      makeFailingResult({ testIdx: 1, success: true }),
+      ...Array.from({ length: 11 }, (_, index) =>
+        makeFailingResult({
+          description: `Test ${index}`,
+          gradingResult: undefined,
+        }),
+      ),
+    ];
+    const [comment] = buildPromptReviewComments(results, [
+      { path: 'a.txt', promptPath: 'prompts/greeting.txt', patch: PATCH },
+    ]);
+
+    expect(comment.body).toContain('12 failing test(s)');
+    expect(comment.body).toContain(
+      `- **Test A** (failed 1/2 runs) [openai:gpt-4o]: ${'r'.repeat(197)}...`,
+    );
+    expect(comment.body).toContain('- **Test 8** [openai:gpt-4o]');
+    expect(comment.body).not.toContain('Test 9');
+    expect(comment.body).toContain('...and 2 more.');
+  });
+});
+
+describe('postPromptReview', () => {
+  const repo = { owner: 'test-owner', repo: 'test-repo' };
+  const comment = {
+    path: 'a.txt',
+    line: 1,
+    side: 'RIGHT' as const,
+    body: `${REVIEW_COMMENT_MARKER}\nFailing`,
+  };
+
+  function makeOctokit(previous: unknown[] = []) {
+    const octokit = {
+      paginate: vi.fn(() => Promise.resolve(previous)),
+      rest: {
+        pulls: {
+          createReview: vi.fn(() => Promise.resolve({})),
+          listReviewComments: vi.fn(),
+          updateReviewComment: vi.fn(() => Promise.resolve({})),
+        },
+        users: {
+          getAuthenticated: vi.fn(() =>
+            Promise.resolve({ data: { login: 'promptfoo-bot' } }),
+          ),
+        },
+      },
+    };
+    return {
+      octokit,
+      client: octokit as unknown as ReturnType<typeof github.getOctokit>,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('skips the review without comments', async () => {
+    const { octokit, client } = makeOctokit();
+    await postPromptReview(client, {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [],
+    });
+    expect(octokit.rest.pulls.createReview).not.toHaveBeenCalled();
+  });
+
+  test('posts one review with all comments', async () => {
+    const { octokit, client } = makeOctokit();
+    await postPromptReview(client, {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [comment],
+    });
+    expect(octokit.rest.pulls.createReview).toHaveBeenCalledWith({
+      ...repo,
+      pull_number: 1,
+      commit_id: 'abc',
+      event: 'COMMENT',
+      body: 'promptfoo found failing tests for 1 changed prompt file(s).',
+      comments: [comment],
+    });
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Posted review comments on 1 prompt file(s)',
+    );
+  });
+
+  test('warns when the review is rejected', async () => {
+    const { octokit, client } = makeOctokit();
+    octokit.rest.pulls.createReview
+      .mockRejectedValueOnce(new Error('Validation Failed'))
+      .mockRejectedValueOnce('forbidden');
+    const options = {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [comment],
+    };
+
+    await postPromptReview(client, options);
+    await postPromptReview(client, options);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to post review comments: Validation Failed',
+    );
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to post review comments: forbidden',
+    );
+  });
+
+  test('updates the earlier comment on the same line', async () => {
+    const { octokit, client } = makeOctokit([
+      {
+        id: 7,
+        path: 'a.txt',
+        line: 1,
+        body: `${REVIEW_COMMENT_MARKER}\nOld failures`,
+        user: { login: 'promptfoo-bot' },
+      },
+    ]);
+    const other = { ...comment, path: 'b.txt' };
+
+    await postPromptReview(client, {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [comment, other],
+    });
+
+    expect(octokit.paginate).toHaveBeenCalledWith(
+      octokit.rest.pulls.listReviewComments,
+      { ...repo, pull_number: 1, per_page: 100 },
+    );
+    expect(octokit.rest.pulls.updateReviewComment).toHaveBeenCalledWith({
+      ...repo,
+      comment_id: 7,
+      body: comment.body,
+    });
+    expect(octokit.rest.pulls.createReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: 'promptfoo found failing tests for 1 changed prompt file(s).',
+        comments: [other],
+      }),
+    );
+  });
+
+  test('skips the review when every comment was already posted', async () => {
+    const { octokit, client } = makeOctokit([
+      { id: 7, path: 'a.txt', line: 1, body: comment.body, user: null },
+    ]);
+    octokit.rest.users.getAuthenticated.mockRejectedValueOnce(
+      new Error('Resource not accessible by integration'),
+    );
+
+    await postPromptReview(client, {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [comment],
+    });
+
+    // Without a login only bot comments count as the token's own
+    expect(octokit.rest.pulls.createReview).toHaveBeenCalled();
+
+    octokit.paginate.mockResolvedValueOnce([
+      {
+        id: 7,
+        path: 'a.txt',
+        line: 1,
+        body: comment.body,
+        user: { type: 'Bot' },
+      },
+    ]);
+    octokit.rest.pulls.createReview.mockClear();
+    octokit.rest.users.getAuthenticated.mockRejectedValueOnce(
+      new Error('Resource not accessible by integration'),
+    );
+
+    await postPromptReview(client, {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [comment],
+    });
+
+    expect(octokit.rest.pulls.updateReviewComment).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.createReview).not.toHaveBeenCalled();
+  });
+
+  test("ignores other users' marked comments", async () => {
+    const { octokit, client } = makeOctokit([
+      {
+        id: 7,
+        path: 'a.txt',
+        line: 1,
+        body: `${REVIEW_COMMENT_MARKER}\nSpoofed`,
+        user: { login: 'someone-else' },
+      },
+      { id: 8, path: 'a.txt', line: 1, body: 'Unmarked' },
+    ]);
+
+    await postPromptReview(client, {
+      repo,
+      pullNumber: 1,
+      commitId: 'abc',
+      comments: [comment],
+    });
+
+    expect(octokit.rest.pulls.updateReviewComment).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.createReview).toHaveBeenCalledWith(
+      expect.objectContaining({ comments: [comment] }),
+    );
+  });
+});
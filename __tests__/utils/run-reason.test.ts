@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'vitest';
+import {
+  formatRunReasonMarkdown,
+  getRunReason,
+  mergeRunReasons,
+} from '../../src/utils/run-reason';
+
+describe('getRunReason', () => {
+  const unchanged = {
+    forceRun: false,
+    commandRequested: false,
+    hasChangeInformation: true,
+    skipsUnchanged: true,
+    promptFiles: [],
+    configFiles: [],
+    dependencyFiles: [],
+  };
+
+  test('lists every kind of change with the triggering files', () => {
+    expect(
+      getRunReason({
+        ...unchanged,
+        promptFiles: ['prompts/a.txt'],
+        configFiles: ['promptfooconfig.yaml'],
+        dependencyFiles: ['data/tests.csv', 'prompts/a.txt'],
+      }),
+    ).toEqual({
+      run: true,
+      categories: ['prompt-files', 'config', 'dependencies'],
+      files: ['prompts/a.txt', 'promptfooconfig.yaml', 'data/tests.csv'],
+      description:
+        'prompt files changed; config changed; config dependencies changed',
+    });
+  });
+
+  test('lists force-run and comment commands before changes', () => {
+    expect(
+      getRunReason({
+        ...unchanged,
+        forceRun: true,
+        commandRequested: true,
+        dependencyFiles: ['data/tests.csv'],
+      }),
+    ).toMatchObject({
+      run: true,
+      categories: ['force-run', 'comment-command', 'dependencies'],
+      description:
+        'force-run is enabled; requested with /promptfoo eval; config dependencies changed',
+    });
+  });
+
+  test('ignores changed files without change information', () => {
+    expect(
+      getRunReason({
+        ...unchanged,
+        hasChangeInformation: false,
+        promptFiles: ['prompts/a.txt'],
+      }),
+    ).toEqual({
+      run: true,
+      categories: ['no-change-information'],
+      files: [],
+      description:
+        'no changed-file information, evaluating all matching prompts',
+    });
+  });
+
+  test('evaluates a config that is not skipped when unchanged', () => {
+    expect(getRunReason({ ...unchanged, skipsUnchanged: false })).toEqual({
+      run: true,
+      categories: ['no-prompt-globs'],
+      files: [],
+      description: 'no prompt globs configured, evaluating the config',
+    });
+  });
+
+  test('skips when nothing relevant changed', () => {
+    expect(getRunReason(unchanged)).toEqual({
+      run: false,
+      categories: [],
+      files: [],
+      description: 'no LLM prompt, config files, or dependencies were modified',
+    });
+  });
+});
+
+describe('mergeRunReasons', () => {
+  test('combines the categories and files of all configs', () => {
+    const base = {
+      forceRun: false,
+      commandRequested: false,
+      hasChangeInformation: true,
+      skipsUnchanged: true,
+      promptFiles: [],
+      configFiles: [],
+      dependencyFiles: [],
+    };
+
+    expect(
+      mergeRunReasons([
+        getRunReason({ ...base, dependencyFiles: ['data/tests.csv'] }),
+        getRunReason(base),
+        getRunReason({ ...base, configFiles: ['b/promptfooconfig.yaml'] }),
+      ]),
+    ).toEqual({
+      run: true,
+      categories: ['config', 'dependencies'],
+      files: ['data/tests.csv', 'b/promptfooconfig.yaml'],
+      description: 'config changed; config dependencies changed',
+    });
+  });
+
+  test('skips when every config was skipped', () => {
+    expect(mergeRunReasons([])).toMatchObject({ run: false, categories: [] });
+  });
+});
+
+describe('formatRunReasonMarkdown', () => {
+  test('names the triggering files', () => {
+    expect(
+      formatRunReasonMarkdown({
+        run: true,
+        categories: ['prompt-files'],
+        files: ['prompts/a.txt', 'prompts/b.txt'],
+        description: 'prompt files changed',
+      }),
+    ).toBe(
+      '**Run reason:** prompt files changed (`prompts/a.txt`, `prompts/b.txt`)',
+    );
+  });
+
+  test('omits the file list without triggering files', () => {
+    expect(
+      formatRunReasonMarkdown({
+        run: true,
+        categories: ['force-run'],
+        files: [],
+        description: 'force-run is enabled',
+      }),
+    ).toBe('**Run reason:** force-run is enabled');
+  });
+
+  test('explains skips', () => {
+    expect(
+      formatRunReasonMarkdown({
+        run: false,
+        categories: [],
+        files: [],
+        description:
+          'no LLM prompt, config files, or dependencies were modified',
+      }),
+    ).toBe(
+      '**Skipped:** no LLM prompt, config files, or dependencies were modified.',
+    );
+  });
+});
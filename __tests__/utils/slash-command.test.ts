@@ -0,0 +1,145 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import type { Mock } from 'vitest';
+import { describe, expect, test, vi } from 'vitest';
+import { ErrorCodes } from '../../src/utils/errors';
+import {
+  acknowledgeCommand,
+  parseSlashCommand,
+  verifyCommandPermission,
+} from '../../src/utils/slash-command';
+
+vi.mock('@actions/core', () => ({
+  warning: vi.fn(),
+}));
+
+const mockCore = core as unknown as { warning: Mock };
+
+const repo = { owner: 'acme', repo: 'prompts' };
+
+function makeOctokit(permission = 'write') {
+  const octokit = {
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn(() =>
+          Promise.resolve({ data: { permission } }),
+        ),
+      },
+      reactions: {
+        createForIssueComment: vi.fn(() => Promise.resolve({})),
+      },
+    },
+  };
+  return {
+    octokit,
+    client: octokit as unknown as ReturnType<typeof github.getOctokit>,
+  };
+}
+
+describe('parseSlashCommand', () => {
+  test('returns undefined without a command', () => {
+    expect(parseSlashCommand('Looks good to me')).toBeUndefined();
+    expect(parseSlashCommand('Try /promptfoo eval later')).toBeUndefined();
+    expect(parseSlashCommand('/promptfoo evaluate')).toBeUndefined();
+  });
+
+  test('parses a bare command on any line', () => {
+    expect(
+      parseSlashCommand('Prompt looks off.\r\n  /promptfoo eval  '),
+    ).toEqual({});
+  });
+
+  test('parses options with separate and inline values', () => {
+    expect(
+      parseSlashCommand('/promptfoo eval --repeat 5 --filter-providers=openai'),
+    ).toEqual({ repeat: '5', filterProviders: 'openai' });
+  });
+
+  test('keeps quoted values together', () => {
+    expect(
+      parseSlashCommand(`/promptfoo eval --filter-providers "openai|claude 3"`),
+    ).toEqual({ filterProviders: 'openai|claude 3' });
+    expect(
+      parseSlashCommand(`/promptfoo eval --filter-providers 'gpt 4'`),
+    ).toEqual({ filterProviders: 'gpt 4' });
+  });
+
+  test('rejects unknown options', () => {
+    expect(() => parseSlashCommand('/promptfoo eval --no-cache')).toThrow(
+      'Unknown /promptfoo eval option: --no-cache',
+    );
+  });
+
+  test('rejects options without a value', () => {
+    expect(() => parseSlashCommand('/promptfoo eval --repeat')).toThrow(
+      '/promptfoo eval option --repeat requires a value',
+    );
+    expect(() =>
+      parseSlashCommand('/promptfoo eval --filter-providers='),
+    ).toThrow('/promptfoo eval option --filter-providers requires a value');
+  });
+});
+
+describe('verifyCommandPermission', () => {
+  test('allows users with write access', async () => {
+    const { octokit, client } = makeOctokit('admin');
+
+    await verifyCommandPermission(client, repo, 'octocat');
+
+    expect(
+      octokit.rest.repos.getCollaboratorPermissionLevel,
+    ).toHaveBeenCalledWith({ ...repo, username: 'octocat' });
+  });
+
+  test('rejects users without write access', async () => {
+    const { client } = makeOctokit('read');
+
+    await expect(
+      verifyCommandPermission(client, repo, 'visitor'),
+    ).rejects.toMatchObject({
+      message:
+        'visitor is not allowed to run /promptfoo eval (permission: read)',
+      code: ErrorCodes.PERMISSION_DENIED,
+    });
+  });
+});
+
+describe('acknowledgeCommand', () => {
+  test('reacts to the comment', async () => {
+    const { octokit, client } = makeOctokit();
+
+    await acknowledgeCommand(client, repo, 42);
+
+    expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith({
+      ...repo,
+      comment_id: 42,
+      content: 'rocket',
+    });
+  });
+
+  test('warns when the reaction fails', async () => {
+    const { octokit, client } = makeOctokit();
+    octokit.rest.reactions.createForIssueComment.mockRejectedValueOnce(
+      new Error('Resource not accessible by integration'),
+    );
+
+    await acknowledgeCommand(client, repo, 42);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Could not react to the /promptfoo eval comment: Resource not accessible by integration',
+    );
+  });
+
+  test('warns with non-Error failures', async () => {
+    const { octokit, client } = makeOctokit();
+    octokit.rest.reactions.createForIssueComment.mockRejectedValueOnce(
+      'rate limited',
+    );
+
+    await acknowledgeCommand(client, repo, 42);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Could not react to the /promptfoo eval comment: rate limited',
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import type { Mock } from 'vitest';
+import { describe, expect, test, vi } from 'vitest';
+import { ErrorCodes } from '../../src/utils/errors';
+import {
+  loadTemplate,
+  parseTemplate,
+  renderTemplate,
+} from '../../src/utils/template';
+
+vi.mock('fs', async () => {
+  const actual = await vi.importActual<typeof import('fs')>('fs');
+  return { ...actual, readFileSync: vi.fn() };
+});
+
+const mockFs = fs as unknown as { readFileSync: Mock };
+
+function render(source: string, context: Record<string, unknown>): string {
+  return renderTemplate(parseTemplate(source), context);
+}
+
+describe('renderTemplate', () => {
+  test('inserts values and nested fields', () => {
+    expect(
+      render('{{ name }}: {{stats.successes}}/{{stats.total}}{{missing.x}}', {
+        name: 'Suite',
+        stats: { successes: 3, total: 4 },
+      }),
+    ).toBe('Suite: 3/4');
+  });
+
+  test('formats lists, objects and empty values', () => {
+    expect(
+      render('{{files}}|{{object}}|{{none}}|{{zero}}', {
+        files: ['a.txt', 'b.txt'],
+        object: { a: 1 },
+        none: null,
+        zero: 0,
+      }),
+    ).toBe('a.txt, b.txt|{"a":1}||0');
+  });
+
+  test('renders conditional blocks', () => {
+    const template =
+      '{{#if failures}}failed{{else}}passed{{/if}}{{#unless url}} (no url){{/unless}}';
+    expect(render(template, { failures: [1], url: 'x' })).toBe('failed');
+    expect(render(template, { failures: [], url: '' })).toBe('passed (no url)');
+    expect(render('{{#unless a}}x{{else}}y{{/unless}}', { a: true })).toBe('y');
+  });
+
+  test('renders loops with item fields, this and the index', () => {
+    const template =
+      '{{#each providers}}{{@index}}. {{name}} ({{config}}){{#each tags}} #{{this}}{{/each}}\n{{/each}}';
+    expect(
+      render(template, {
+        config: 'c.yaml',
+        providers: [
+          { name: 'gpt', tags: ['fast'] },
+          { name: 'claude', tags: [] },
+        ],
+      }),
+    ).toBe('0. gpt (c.yaml) #fast\n1. claude (c.yaml)\n');
+    expect(render('{{#each missing}}x{{/each}}{{@index}}', {})).toBe('');
+  });
+
+  test('resolves this.field and falls back to outer scopes', () => {
+    expect(
+      render('{{#each items}}{{this.name}}-{{label}};{{/each}}', {
+        label: 'outer',
+        items: [{ name: 'a' }, 'b', { name: 'c', label: 'inner' }],
+      }),
+    ).toBe('a-outer;-outer;c-inner;');
+  });
+
+  test('nests blocks inside else branches', () => {
+    expect(
+      render('{{#if a}}A{{else}}{{#each b}}{{this}}{{/each}}!{{/if}}', {
+        b: [1, 2],
+      }),
+    ).toBe('12!');
+  });
+
+  test('keeps text without tags', () => {
+    expect(render('plain {{ text', {})).toBe('plain {{ text');
+    expect(render('', {})).toBe('');
+  });
+});
+
+describe('parseTemplate errors', () => {
+  test.each([
+    ['{{#with a}}x{{/with}}', 'unsupported block "{{#with a}}"'],
+    ['{{#if}}x{{/if}}', 'unsupported block "{{#if}}"'],
+    ['{{/if}}', 'unexpected "{{/if}}"'],
+    ['{{#if a}}x{{/each}}', 'unexpected "{{/each}}"'],
+    ['{{#unless a}}x{{/if}}', 'unexpected "{{/if}}"'],
+    ['{{#if a}}x{{/if a}}', 'unexpected "{{/if a}}"'],
+    ['{{else}}', '"{{else}}" outside of an if block'],
+    ['{{#each a}}{{else}}{{/each}}', '"{{else}}" outside of an if block'],
+    ['{{#if a}}{{else}}{{else}}{{/if}}', '"{{else}}" outside of an if block'],
+    ['{{#unless a}}x', 'unclosed "{{#unless}}" block'],
+    ['{{#each a}}{{#if b}}x{{/if}}', 'unclosed "{{#each}}" block'],
+    ['{{a b}}', 'invalid tag "{{a b}}"'],
+    ['{{ }}', 'invalid tag "{{ }}"'],
+  ])('rejects %s', (source, message) => {
+    try {
+      parseTemplate(source);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as Error).message).toBe(
+        `Invalid comment-template: ${message}`,
+      );
+      expect((error as { code: string }).code).toBe(
+        ErrorCodes.INVALID_CONFIGURATION,
+      );
+    }
+  });
+});
+
+describe('loadTemplate', () => {
+  test('reads and parses a template file', () => {
+    mockFs.readFileSync.mockReturnValue('Hello {{name}}');
+    expect(renderTemplate(loadTemplate('t.md'), { name: 'you' })).toBe(
+      'Hello you',
+    );
+    expect(mockFs.readFileSync).toHaveBeenCalledWith('t.md', 'utf8');
+  });
+
+  test('reports unreadable files', () => {
+    mockFs.readFileSync.mockImplementationOnce(() => {
+      throw new Error('ENOENT');
+    });
+    expect(() => loadTemplate('missing.md')).toThrow(
+      'Failed to read comment-template missing.md: ENOENT',
+    );
+    mockFs.readFileSync.mockImplementationOnce(() => {
+      throw 'denied';
+    });
+    expect(() => loadTemplate('denied.md')).toThrow(
+      'Failed to read comment-template denied.md: denied',
+    );
+  });
+});
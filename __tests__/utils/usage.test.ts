@@ -0,0 +1,178 @@
+import type { EvaluateResult, TokenUsage } from 'promptfoo';
+import { describe, expect, test } from 'vitest';
+import {
+  formatCost,
+  formatTokenCount,
+  formatUsageMarkdown,
+  getUsageReport,
+} from '../../src/utils/usage';
+import { makeResult } from '../helpers/results';
+
+function makeTokenUsage(
+  total: number,
+  prompt: number,
+  completion: number,
+  cached: number,
+): Required<TokenUsage> {
+  return {
+    total,
+    prompt,
+    completion,
+    cached,
+    numRequests: 1,
+    completionDetails: {},
+    assertions: {},
+  };
+}
+
+function makeUsageResult(
+  overrides: Partial<EvaluateResult> = {},
+): EvaluateResult {
+  return makeResult({
+    tokenUsage: makeTokenUsage(150, 100, 50, 0),
+    cost: 0.001,
+    ...overrides,
+  });
+}
+
+describe('getUsageReport', () => {
+  test('returns zero totals without results', () => {
+    expect(getUsageReport([])).toEqual({
+      totals: { total: 0, prompt: 0, completion: 0, cached: 0, cost: 0 },
+      providers: [],
+      prompts: [],
+    });
+  });
+
+  test('sums usage in total and per provider and prompt', () => {
+    const report = getUsageReport([
+      makeUsageResult(),
+      makeUsageResult({
+        testIdx: 1,
+        tokenUsage: makeTokenUsage(30, 20, 10, 30),
+      }),
+      makeUsageResult({
+        promptIdx: 1,
+        prompt: { raw: 'Hi', label: 'variant' },
+        provider: { id: 'anthropic:claude' },
+        cost: 0.5,
+      }),
+    ]);
+
+    expect(report.totals).toEqual({
+      total: 330,
+      prompt: 220,
+      completion: 110,
+      cached: 30,
+      cost: 0.502,
+    });
+    expect(report.providers).toEqual([
+      {
+        name: 'openai:gpt-4o',
+        total: 180,
+        prompt: 120,
+        completion: 60,
+        cached: 30,
+        cost: 0.002,
+      },
+      {
+        name: 'anthropic:claude',
+        total: 150,
+        prompt: 100,
+        completion: 50,
+        cached: 0,
+        cost: 0.5,
+      },
+    ]);
+    expect(report.prompts.map((row) => [row.name, row.total])).toEqual([
+      ['greeting', 180],
+      ['variant', 150],
+    ]);
+  });
+
+  test('falls back to response usage and ignores missing values', () => {
+    const report = getUsageReport([
+      makeUsageResult({
+        promptIdx: 3,
+        prompt: undefined,
+        tokenUsage: undefined,
+        response: { output: 'hi', tokenUsage: { total: 7 } },
+        cost: Number.NaN,
+      }),
+      makeUsageResult({ tokenUsage: undefined, cost: undefined }),
+    ]);
+
+    expect(report.totals).toEqual({
+      total: 7,
+      prompt: 0,
+      completion: 0,
+      cached: 0,
+      cost: 0,
+    });
+    expect(report.prompts.map((row) => row.name)).toEqual([
+      'greeting',
+      'prompt 3',
+    ]);
+  });
+});
+
+describe('formatting', () => {
+  test('formats token counts with separators', () => {
+    expect(formatTokenCount(1234567)).toBe('1,234,567');
+  });
+
+  test('keeps four decimals for small costs', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.00123)).toBe('$0.0012');
+    expect(formatCost(12.345)).toBe('$12.35');
+  });
+});
+
+describe('formatUsageMarkdown', () => {
+  test('returns an empty string without usage', () => {
+    expect(
+      formatUsageMarkdown(
+        getUsageReport([makeUsageResult({ tokenUsage: undefined, cost: 0 })]),
+      ),
+    ).toBe('');
+  });
+
+  test('renders only the totals for a single provider and prompt', () => {
+    expect(formatUsageMarkdown(getUsageReport([makeUsageResult()]))).toBe(
+      '**Token usage**: 150 tokens (prompt 100, completion 50, cached 0), estimated cost $0.0010\n',
+    );
+  });
+
+  test('shows usage for cost-only runs', () => {
+    expect(
+      formatUsageMarkdown(
+        getUsageReport([makeUsageResult({ tokenUsage: undefined, cost: 2 })]),
+      ),
+    ).toContain('0 tokens');
+  });
+
+  test('renders tables for several providers and prompts', () => {
+    const md = formatUsageMarkdown(
+      getUsageReport([
+        makeUsageResult(),
+        makeUsageResult({
+          promptIdx: 1,
+          prompt: { raw: 'Hi', label: 'a | b' },
+          provider: { id: 'anthropic:claude' },
+          tokenUsage: makeTokenUsage(2000, 1500, 500, 0),
+          cost: 1.5,
+        }),
+      ]),
+    );
+
+    expect(md).toContain('**Usage by provider**');
+    expect(md).toContain(
+      '| Provider | Total tokens | Prompt | Completion | Cached | Cost |',
+    );
+    expect(md).toContain(
+      '| anthropic:claude | 2,000 | 1,500 | 500 | 0 | $1.50 |',
+    );
+    expect(md).toContain('**Usage by prompt**');
+    expect(md).toContain('| a \\| b | 2,000 |');
+  });
+});
@@ -4,17 +4,51 @@ import * as github from '@actions/github';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as glob from 'glob';
+import * as os from 'os';
 import * as path from 'path';
 import type { EvaluateResult, OutputFile } from 'promptfoo';
 import { simpleGit } from 'simple-git';
 import { getApiHost, validatePromptfooApiKey } from './utils/auth';
+import {
+  BASELINE_MODES,
+  type BaselineComparison,
+  compareWithBaseline,
+  countRegressions,
+  formatComparisonMarkdown,
+  readBaselineResults,
+} from './utils/baseline';
+import { formatBreakdownMarkdown, getResultBreakdown } from './utils/breakdown';
+import {
+  ACTION_MODES,
+  DEFAULT_RESULTS_BUNDLE,
+  formatBundleComment,
+  formatBundledResults,
+  getBundledConclusion,
+  RESULTS_BUNDLE_VERSION,
+  type ResultsBundle,
+  readResultsBundle,
+  verifyResultsBundle,
+  writeResultsBundle,
+} from './utils/bundle';
 import {
   cleanupOldCache,
   createCacheManifest,
   logCacheMetrics,
   setupCacheEnvironment,
 } from './utils/cache';
-import { extractFileDependencies } from './utils/config';
+import {
+  buildCheckAnnotations,
+  createCheckRun,
+  getCheckRunName,
+  readTestLocations,
+} from './utils/checks';
+import {
+  COMMENT_MODES,
+  getCommentMarker,
+  postPullRequestComment,
+} from './utils/comment';
+import { extractConfigPrompts, extractFileDependencies } from './utils/config';
+import { reportDryRun } from './utils/dry-run';
 import {
   ErrorCodes,
   formatErrorMessage,
@@ -22,14 +56,51 @@ import {
 } from './utils/errors';
 import { isDirectory } from './utils/fs';
 import {
+  parseOptionalChoice,
   parseOptionalPercentage,
   parseOptionalPositiveInt,
 } from './utils/inputs';
+import { formatLatencyMarkdown, getLatencyReport } from './utils/latency';
+import {
+  CONFIG_FILE_NAMES,
+  type ConfigGateFailure,
+  combineConfigGateFailures,
+  findConfigFiles,
+  formatConfigOverviewMarkdown,
+  resolveConfigPaths,
+} from './utils/multi-config';
+import { getChangedPromptFilter } from './utils/prompt-filter';
+import {
+  collectFailures,
+  formatFailuresMarkdown,
+  getEvaluateResults,
+} from './utils/report';
+import {
+  buildPromptReviewComments,
+  type ChangedPromptFile,
+  postPromptReview,
+} from './utils/review';
+import {
+  formatRunReasonMarkdown,
+  getRunReason,
+  mergeRunReasons,
+  type RunReason,
+  SKIP_DESCRIPTION,
+} from './utils/run-reason';
+import {
+  acknowledgeCommand,
+  parseSlashCommand,
+  SLASH_COMMAND,
+  type SlashCommand,
+  verifyCommandPermission,
+} from './utils/slash-command';
+import { loadTemplate, renderTemplate } from './utils/template';
 import {
   evaluateRepeatThreshold,
   formatRepeatCommentMarkdown,
   formatRepeatFailureMessage,
 } from './utils/thresholds';
+import { formatUsageMarkdown, getUsageReport } from './utils/usage';
 
 const gitInterface = simpleGit();
 const GITHUB_PULL_REQUEST_FILES_LIMIT = 3000;
@@ -38,6 +109,12 @@ function toRepositoryPath(filePath: string): string {
   return filePath.split(path.sep).join('/');
 }
 
+/** Sets a list output as a newline-separated list and as a `-json` array. */
+function setListOutput(name: string, values: string[]): void {
+  core.setOutput(name, values.join('\n'));
+  core.setOutput(`${name}-json`, JSON.stringify(values));
+}
+
 /**
  * Conservatively validates user-controlled git revisions before passing them to
  * git. This action accepts only the revision forms it documents for manual
@@ -145,7 +222,609 @@ function calculateSuccessRate(stats: {
   return (stats.successes / total) * 100;
 }
 
+/**
+ * Evaluates the same config at a base commit in a temporary git worktree and
+ * returns its per-test results. The worktree is always removed afterwards.
+ */
+async function runBaselineEvaluation(options: {
+  baseSha: string;
+  workspaceRoot: string;
+  workingDirectory: string;
+  configAbsolutePath: string;
+  version: string;
+  args: string[];
+  env: { [key: string]: string };
+  failedTestExitCode: number;
+}): Promise<EvaluateResult[]> {
+  validateCommitSha(options.baseSha, 'baseline commit');
+  const worktreePath = path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    `promptfoo-baseline-${globalThis.crypto.randomUUID()}`,
+  );
+
+  try {
+    // The base commit may be missing from shallow checkouts
+    await gitInterface.fetch([
+      '--no-tags',
+      '--depth=1',
+      'origin',
+      options.baseSha,
+    ]);
+  } catch (error) {
+    core.debug(`Could not fetch baseline commit ${options.baseSha}: ${error}`);
+  }
+
+  try {
+    await gitInterface.raw([
+      'worktree',
+      'add',
+      '--detach',
+      worktreePath,
+      options.baseSha,
+    ]);
+    const toWorktreePath = (filePath: string) =>
+      path.join(worktreePath, path.relative(options.workspaceRoot, filePath));
+    const outputFile = path.join(
+      worktreePath,
+      `baseline-output-${Date.now()}.json`,
+    );
+
+    core.info(`Evaluating baseline at ${options.baseSha}`);
+    const exitCode = await exec.exec(
+      'npx',
+      [
+        `promptfoo@${options.version}`,
+        'eval',
+        '-c',
+        toWorktreePath(options.configAbsolutePath),
+        '-o',
+        outputFile,
+        ...options.args,
+        '--no-share',
+      ],
+      {
+        env: options.env,
+        cwd: toWorktreePath(options.workingDirectory),
+        ignoreReturnCode: true,
+      },
+    );
+    if (exitCode !== 0 && exitCode !== options.failedTestExitCode) {
+      throw new PromptfooActionError(
+        `Baseline evaluation exited with unexpected code ${exitCode}`,
+        ErrorCodes.BASELINE_FAILED,
+      );
+    }
+
+    return readBaselineResults(outputFile);
+  } finally {
+    try {
+      await gitInterface.raw(['worktree', 'remove', '--force', worktreePath]);
+    } catch {
+      // best effort cleanup
+    }
+  }
+}
+
+interface ConfigTarget {
+  /** Config path as passed to promptfoo, relative to the working directory. */
+  configPath: string;
+  configAbsolutePath: string;
+  configRepositoryPath: string;
+}
+
+/**
+ * The result of evaluating one config, with the report sections shared by the
+ * PR comment, the job summary and the Check Run.
+ */
+interface ConfigEvaluation extends ConfigTarget {
+  runReason: RunReason;
+  /** Changed prompt files of this config, relative to the working directory. */
+  changedPromptFiles: string[];
+  removedPromptFiles: string[];
+  output: OutputFile;
+  exitCode: number;
+  isTestFailureExit: boolean;
+  evaluateResults: EvaluateResult[];
+  successRate: number | undefined;
+  repeatCheckResult?: ReturnType<typeof evaluateRepeatThreshold>;
+  baselineComparison?: BaselineComparison;
+  sections: {
+    breakdown: string;
+    usage: string;
+    latency: string;
+    comparison: string;
+    repeat: string;
+    failures: string;
+  };
+  renderedTemplate?: string;
+}
+
+// Report sections shared by the PR comment and the Check Run, in order
+function getReportSections(evaluation: ConfigEvaluation): string[] {
+  const { sections } = evaluation;
+  return [
+    sections.breakdown,
+    sections.usage,
+    sections.latency,
+    sections.comparison,
+    sections.repeat,
+    sections.failures,
+  ].filter(Boolean);
+}
+
+function formatEvaluationComment(evaluation: ConfigEvaluation): string {
+  if (evaluation.renderedTemplate !== undefined) {
+    return evaluation.renderedTemplate;
+  }
+  const { output, changedPromptFiles, removedPromptFiles } = evaluation;
+  let body = '';
+  if (changedPromptFiles.length > 0 || removedPromptFiles.length === 0) {
+    body += `⚠️ LLM prompt was modified in these files: ${changedPromptFiles.join(', ')}\n\n`;
+  }
+  for (const file of removedPromptFiles) {
+    body += `🗑️ LLM prompt removed: ${file}\n\n`;
+  }
+  body += `${formatRunReasonMarkdown(evaluation.runReason)}\n\n`;
+  body += `| Success | Failure |
+|---------|---------|
+| ${output.results.stats.successes}      | ${output.results.stats.failures}       |
+
+`;
+  for (const section of getReportSections(evaluation)) {
+    body += section;
+    body += '\n';
+  }
+  if (output.shareableUrl) {
+    body += `**» [View eval results](${output.shareableUrl}) «**`;
+  } else {
+    body += '**» View eval results in CI console «**';
+  }
+  return body;
+}
+
+function addEvaluationSummary(
+  summary: typeof core.summary,
+  evaluation: ConfigEvaluation,
+): void {
+  if (evaluation.renderedTemplate !== undefined) {
+    summary.addRaw(evaluation.renderedTemplate);
+    return;
+  }
+  const { output, sections } = evaluation;
+  summary.addRaw(formatRunReasonMarkdown(evaluation.runReason), true);
+  summary.addTable([
+    [
+      { data: 'Metric', header: true },
+      { data: 'Count', header: true },
+    ],
+    ['Success', output.results.stats.successes.toString()],
+    ['Failure', output.results.stats.failures.toString()],
+  ]);
+
+  if (evaluation.changedPromptFiles.length > 0) {
+    summary.addHeading('Evaluated Files', 3);
+    summary.addList(evaluation.changedPromptFiles);
+  }
+
+  const headings: Array<[string, string]> = [
+    ['Results Breakdown', sections.breakdown],
+    ['Token Usage', sections.usage],
+    ['Latency', sections.latency],
+    ['Baseline Comparison', sections.comparison],
+    ['Repeat Check', sections.repeat],
+    ['Failed Tests', sections.failures],
+  ];
+  for (const [heading, markdown] of headings) {
+    if (markdown) {
+      summary.addHeading(heading, 3);
+      summary.addRaw(markdown);
+    }
+  }
+
+  if (output.shareableUrl) {
+    summary.addLink('View detailed results', output.shareableUrl);
+  } else {
+    summary.addRaw('View eval results in CI console');
+  }
+}
+
+/**
+ * Applies the configured thresholds to one config's evaluation and throws on
+ * the first one that is not met.
+ */
+function checkEvaluationGates(
+  evaluation: ConfigEvaluation,
+  options: {
+    failOnThreshold: number | undefined;
+    promptfooPassRateThreshold: number | undefined;
+    repeatMinPass: number | undefined;
+    failOnRegression: boolean;
+  },
+): void {
+  const {
+    successRate,
+    repeatCheckResult,
+    baselineComparison,
+    exitCode,
+    isTestFailureExit,
+  } = evaluation;
+  const { failOnThreshold, promptfooPassRateThreshold } = options;
+
+  // Check if we should fail based on threshold
+  let suiteThresholdPassed = false;
+  if (failOnThreshold !== undefined) {
+    if (successRate === undefined) {
+      throw new PromptfooActionError(
+        `No tests were run - cannot calculate success rate`,
+        ErrorCodes.THRESHOLD_NOT_MET,
+        `Ensure your configuration includes valid tests to run`,
+      );
+    }
+
+    if (successRate < failOnThreshold) {
+      throw new PromptfooActionError(
+        `Evaluation success rate (${successRate.toFixed(
+          2,
+        )}%) is below the required threshold (${failOnThreshold}%)`,
+        ErrorCodes.THRESHOLD_NOT_MET,
+        `Consider adjusting your prompts or lowering the threshold`,
+      );
+    }
+
+    core.info(
+      `Suite threshold passed: ${successRate.toFixed(2)}% >= ${failOnThreshold}%`,
+    );
+    suiteThresholdPassed = true;
+  }
+
+  // Preserve promptfoo's own explicit pass-rate threshold when this action
+  // suppresses Promptfoo's default failed-test exit code.
+  if (
+    promptfooPassRateThreshold !== undefined &&
+    successRate !== undefined &&
+    successRate < promptfooPassRateThreshold
+  ) {
+    throw new PromptfooActionError(
+      `Evaluation success rate (${successRate.toFixed(
+        2,
+      )}%) is below PROMPTFOO_PASS_RATE_THRESHOLD (${promptfooPassRateThreshold}%)`,
+      ErrorCodes.THRESHOLD_NOT_MET,
+      'Consider adjusting your prompts or lowering PROMPTFOO_PASS_RATE_THRESHOLD',
+    );
+  }
+
+  if (promptfooPassRateThreshold !== undefined && successRate !== undefined) {
+    core.info(
+      `Promptfoo pass-rate threshold passed: ${successRate.toFixed(
+        2,
+      )}% >= ${promptfooPassRateThreshold}%`,
+    );
+  }
+
+  // Check per-test repeat threshold (already computed above for PR comments)
+  if (repeatCheckResult) {
+    if (repeatCheckResult.passed) {
+      core.info(
+        `Repeat check passed: all ${repeatCheckResult.summary.totalGroups} test(s) met minimum (${repeatCheckResult.summary.minPass} of ${repeatCheckResult.summary.repeatCount})`,
+      );
+    } else {
+      throw new PromptfooActionError(
+        formatRepeatFailureMessage(repeatCheckResult.summary),
+        ErrorCodes.REPEAT_CHECK_FAILED,
+        'Consider adjusting your prompts or lowering repeat-min-pass',
+      );
+    }
+  }
+
+  // Check for regressions against the baseline
+  let regressionCheckPassed = false;
+  if (options.failOnRegression) {
+    if (!baselineComparison) {
+      core.warning(
+        'fail-on-regression is set but no baseline comparison is available. Falling back to the other configured checks.',
+      );
+    } else if (countRegressions(baselineComparison) > 0) {
+      throw new PromptfooActionError(
+        `${countRegressions(baselineComparison)} test(s) regressed compared to the baseline`,
+        ErrorCodes.REGRESSION_DETECTED,
+        'Fix the tests listed as newly failing or as failing new tests in the baseline comparison',
+      );
+    } else {
+      core.info(
+        `Regression check passed: no newly failing tests compared to the baseline (${baselineComparison.counts['still-failing']} still failing)`,
+      );
+      regressionCheckPassed = true;
+    }
+  }
+
+  // Handle the failed-test exit code.
+  // When thresholds are configured, the user explicitly opts into tolerating
+  // some test failures. Suppress only Promptfoo's test-failure exit after the
+  // configured action-level thresholds have passed.
+  if (isTestFailureExit) {
+    const repeatThresholdPassed =
+      options.repeatMinPass !== undefined && repeatCheckResult?.passed;
+    if (
+      suiteThresholdPassed ||
+      repeatThresholdPassed ||
+      regressionCheckPassed
+    ) {
+      const passedThresholds = [
+        suiteThresholdPassed ? 'suite threshold' : undefined,
+        repeatThresholdPassed ? 'repeat minimum' : undefined,
+        regressionCheckPassed ? 'regression check' : undefined,
+      ].filter(Boolean);
+      core.info(
+        `Promptfoo exited with test-failure code ${exitCode}, but ${passedThresholds.join(
+          ' and ',
+        )} passed.`,
+      );
+    } else {
+      throw new PromptfooActionError(
+        `Promptfoo evaluation failed (exit code ${exitCode})`,
+        ErrorCodes.PROMPTFOO_EXECUTION_FAILED,
+        'Some tests failed. Check the eval results for details.',
+      );
+    }
+  }
+}
+
+/**
+ * Lists the files changed in a pull request with a local three-dot git diff,
+ * for pull requests larger than the GitHub files API returns. Shallow
+ * checkouts do not contain the merge base, so their history is fetched first.
+ */
+async function getPullRequestFilesFromGit(
+  baseSha: string,
+  headSha: string,
+): Promise<string> {
+  validateCommitSha(baseSha, 'pull request base commit');
+  validateCommitSha(headSha, 'pull request head commit');
+
+  const isShallow = await gitInterface.revparse(['--is-shallow-repository']);
+  if (isShallow.trim() === 'true') {
+    core.info('Fetching git history to compare the pull request commits');
+    await gitInterface.fetch([
+      '--no-tags',
+      '--unshallow',
+      'origin',
+      baseSha,
+      headSha,
+    ]);
+  }
+
+  return gitInterface.diff(['--name-only', `${baseSha}...${headSha}`, '--']);
+}
+
+/**
+ * Lists the files changed in a pull request, with the status and diff of each
+ * file. A renamed file is listed under both paths, and its old path is
+ * recorded as removed. Pull requests above the GitHub files API limit are
+ * compared with git; if that fails too, the changed-file list stays empty so
+ * every matching prompt file is processed.
+ */
+async function getPullRequestChanges(
+  octokit: ReturnType<typeof github.getOctokit>,
+  pullRequestNumber: number,
+  baseSha: string | undefined,
+  headSha: string,
+): Promise<{
+  changedFiles: string;
+  statuses: Map<string, string>;
+  patches: Map<string, string>;
+}> {
+  let changedFiles = '';
+  const statuses = new Map<string, string>();
+  const patches = new Map<string, string>();
+  const pullRequestFiles = await octokit.paginate(
+    octokit.rest.pulls.listFiles,
+    {
+      ...github.context.repo,
+      pull_number: pullRequestNumber,
+      per_page: 100,
+    },
+  );
+  if (pullRequestFiles.length >= GITHUB_PULL_REQUEST_FILES_LIMIT) {
+    core.info(
+      `GitHub only returns the first ${GITHUB_PULL_REQUEST_FILES_LIMIT} files changed in a pull request. Comparing the pull request commits with git instead.`,
+    );
+    try {
+      if (!baseSha) {
+        throw new Error('the pull request base commit is unknown');
+      }
+      changedFiles = await getPullRequestFilesFromGit(baseSha, headSha);
+      core.info(
+        `Found ${changedFiles.split('\n').filter((f) => f).length} changed files with git`,
+      );
+    } catch (error) {
+      core.warning(
+        `Could not list the pull request files with git: ${error instanceof Error ? error.message : String(error)}. Processing all matching prompt files to avoid missing changes.`,
+      );
+    }
+  } else {
+    changedFiles = pullRequestFiles
+      .flatMap((file) =>
+        file.previous_filename
+          ? [file.filename, file.previous_filename]
+          : [file.filename],
+      )
+      .join('\n');
+  }
+  for (const file of pullRequestFiles) {
+    statuses.set(file.filename, file.status);
+    if (file.patch) {
+      patches.set(file.filename, file.patch);
+    }
+  }
+  // The old path of a renamed file is gone unless another file now uses it
+  for (const file of pullRequestFiles) {
+    if (file.previous_filename && !statuses.has(file.previous_filename)) {
+      statuses.set(file.previous_filename, 'removed');
+    }
+  }
+  return { changedFiles, statuses, patches };
+}
+
+/**
+ * Finds the promptfoo configs under the working directory for
+ * `discover-configs`. git lists tracked and untracked files while applying
+ * every .gitignore; without a git checkout the workspace is globbed instead.
+ */
+async function discoverConfigPaths(
+  workingDirectory: string,
+): Promise<string[]> {
+  let files: string[];
+  try {
+    const output = await gitInterface.raw([
+      '-C',
+      workingDirectory,
+      'ls-files',
+      '-z',
+      '--cached',
+      '--others',
+      '--exclude-standard',
+    ]);
+    files = output.split('\0').filter(Boolean);
+  } catch (error) {
+    core.warning(
+      `Could not list the workspace files with git: ${error instanceof Error ? error.message : String(error)}. Searching for configs without applying .gitignore.`,
+    );
+    files = glob.sync(`**/{${CONFIG_FILE_NAMES.join(',')}}`, {
+      cwd: workingDirectory,
+      nodir: true,
+      ignore: ['**/node_modules/**'],
+    });
+  }
+
+  const configPaths = findConfigFiles(files, workingDirectory);
+  core.info(
+    `Discovered ${configPaths.length} promptfoo config(s): ${configPaths.join(', ')}`,
+  );
+  return configPaths;
+}
+
+/**
+ * Runs `mode: comment`: posts the results that a `mode: report` run bundled
+ * for a pull request. This runs on `workflow_run`, with a write token but
+ * without checking out or executing any code from the pull request. The
+ * comment and Check Runs are rendered here from the bundled counts, and the
+ * Check Run conclusions use this job's fail-on-threshold.
+ */
+async function postResultsBundle(
+  githubToken: string,
+  bundlePath: string,
+): Promise<void> {
+  const workflowRun = github.context.payload.workflow_run;
+  if (github.context.eventName !== 'workflow_run' || !workflowRun) {
+    throw new PromptfooActionError(
+      'mode: comment must run on a workflow_run event',
+      ErrorCodes.INVALID_CONFIGURATION,
+      'Trigger the comment workflow with on: workflow_run for the workflow that uses mode: report',
+    );
+  }
+  const disableComment: boolean = core.getBooleanInput('disable-comment', {
+    required: false,
+  });
+  const commentMode =
+    parseOptionalChoice(
+      core.getInput('comment-mode', { required: false }),
+      'comment-mode',
+      COMMENT_MODES,
+    ) ?? 'update';
+  const hideOutdatedComments: boolean = core.getBooleanInput(
+    'hide-outdated-comments',
+    { required: false },
+  );
+  const commentOnSkip: boolean = core.getBooleanInput('comment-on-skip', {
+    required: false,
+  });
+  const checkRun: boolean = core.getBooleanInput('check-run', {
+    required: false,
+  });
+  const failOnThreshold = parseOptionalPercentage(
+    core.getInput('fail-on-threshold', { required: false }),
+    'fail-on-threshold',
+  );
+  core.setSecret(githubToken);
+  const octokit = github.getOctokit(githubToken);
+
+  const bundle = readResultsBundle(bundlePath);
+  if (
+    !(await verifyResultsBundle(
+      octokit,
+      github.context.repo,
+      bundle,
+      workflowRun.head_sha,
+    ))
+  ) {
+    return;
+  }
+  core.info(
+    `Posting results for pull request #${bundle.pullRequestNumber} at ${bundle.headSha}`,
+  );
+
+  const body =
+    formatBundleComment(bundle) ??
+    (commentOnSkip ? `**Skipped:** ${SKIP_DESCRIPTION}.` : undefined);
+  if (body !== undefined && !disableComment) {
+    const totals = { successes: 0, failures: 0, errors: 0 };
+    for (const { stats } of bundle.configs) {
+      totals.successes += stats?.successes ?? 0;
+      totals.failures += stats?.failures ?? 0;
+      totals.errors += stats?.errors ?? 0;
+    }
+    await postPullRequestComment(octokit, {
+      repo: github.context.repo,
+      issueNumber: bundle.pullRequestNumber,
+      marker: getCommentMarker(
+        bundle.configs.map(({ config }) => config).join('\n'),
+        bundle.job,
+      ),
+      body,
+      run: {
+        sha: bundle.headSha,
+        ...totals,
+        timestamp: new Date().toISOString(),
+      },
+      mode: commentMode,
+      hideOutdated: hideOutdatedComments,
+    });
+  }
+  if (!checkRun) {
+    return;
+  }
+  for (const config of bundle.configs) {
+    const { stats } = config;
+    await createCheckRun(octokit, {
+      repo: github.context.repo,
+      name: getCheckRunName(config.config),
+      headSha: bundle.headSha,
+      conclusion: getBundledConclusion(config, failOnThreshold),
+      ...(stats
+        ? {
+            title: `${stats.successes} passed, ${stats.failures} failed`,
+            summary: formatBundledResults({ ...config, stats }),
+          }
+        : {
+            title: 'Skipped: no relevant changes',
+            summary:
+              'No LLM prompt, config files, or dependencies were modified.',
+          }),
+    });
+  }
+}
+
 export async function run(): Promise<void> {
+  // Set once the results are reported, so a failing gate can still publish
+  // the Check Runs before the action fails. Configs in the given set are
+  // reported as failed; without a set every config failed.
+  let publishCheckRuns:
+    | ((failedConfigs?: Set<string>) => Promise<void>)
+    | undefined;
+  const failedConfigs = new Set<string>();
+  // Set in mode: report, so the results bundle is also written when a gate
+  // fails the action
+  let writeBundle: (() => Promise<void>) | undefined;
   try {
     const openaiApiKey: string = core.getInput('openai-api-key', {
       required: false,
@@ -186,27 +865,90 @@ export async function run(): Promise<void> {
     const githubToken: string = core.getInput('github-token', {
       required: true,
     });
+    const workspaceRoot = process.cwd();
+    const workingDirectory = path.resolve(
+      path.join(
+        workspaceRoot,
+        core.getInput('working-directory', { required: false }) || '.',
+      ),
+    );
+    const mode =
+      parseOptionalChoice(
+        core.getInput('mode', { required: false }),
+        'mode',
+        ACTION_MODES,
+      ) ?? 'evaluate';
+    const resultsBundlePath = path.resolve(
+      workingDirectory,
+      core.getInput('results-bundle', { required: false }) ||
+        DEFAULT_RESULTS_BUNDLE,
+    );
+    const dryRun: boolean = core.getBooleanInput('dry-run', {
+      required: false,
+    });
+    if (dryRun && mode !== 'evaluate') {
+      throw new PromptfooActionError(
+        `dry-run cannot be combined with mode: ${mode}`,
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Remove dry-run, or use it in a job with mode: evaluate',
+      );
+    }
+    if (mode === 'comment') {
+      await postResultsBundle(githubToken, resultsBundlePath);
+      return;
+    }
     const promptsInput = core.getInput('prompts', { required: false });
-    const promptFilesGlobs: string[] = promptsInput
+    const promptLines: string[] = promptsInput
       ? promptsInput.split('\n').filter((line) => line.trim())
       : [];
-    const configPath: string = core.getInput('config', {
-      required: true,
+    const promptFilesGlobs = promptLines.filter(
+      (line) => !line.trim().startsWith('!'),
+    );
+    // Negated prompts lines and prompts-ignore exclude files from prompt
+    // selection and from dependency-triggered runs
+    const promptIgnorePatterns = [
+      ...promptLines
+        .map((line) => line.trim())
+        .filter((line) => line.startsWith('!'))
+        .map((line) => line.slice(1)),
+      ...core
+        .getInput('prompts-ignore', { required: false })
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line),
+    ];
+    const discoverConfigs: boolean = core.getBooleanInput('discover-configs', {
+      required: false,
+    });
+    const configInput: string = core.getInput('config', {
+      required: !discoverConfigs,
     });
+    if (discoverConfigs && configInput.trim()) {
+      throw new PromptfooActionError(
+        'config cannot be combined with discover-configs',
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Remove config to discover configs, or list the configs explicitly',
+      );
+    }
     const cachePath: string = core.getInput('cache-path', { required: false });
     const version: string =
       core.getInput('promptfoo-version', { required: false }) || 'latest';
     validatePromptfooVersion(version);
-    const workspaceRoot = process.cwd();
-    const workingDirectory = path.resolve(
-      path.join(
-        workspaceRoot,
-        core.getInput('working-directory', { required: false }) || '.',
-      ),
-    );
-    const configAbsolutePath = path.resolve(workingDirectory, configPath);
-    const configRepositoryPath = toRepositoryPath(
-      path.relative(workspaceRoot, configAbsolutePath),
+    const configPaths = discoverConfigs
+      ? await discoverConfigPaths(workingDirectory)
+      : resolveConfigPaths(configInput, workingDirectory);
+    const configs: ConfigTarget[] = configPaths.map((configPath) => {
+      const configAbsolutePath = path.resolve(workingDirectory, configPath);
+      return {
+        configPath,
+        configAbsolutePath,
+        configRepositoryPath: toRepositoryPath(
+          path.relative(workspaceRoot, configAbsolutePath),
+        ),
+      };
+    });
+    const configRepositoryPaths = new Set(
+      configs.map((config) => config.configRepositoryPath),
     );
     const noShare: boolean = core.getBooleanInput('no-share', {
       required: false,
@@ -215,6 +957,10 @@ export async function run(): Promise<void> {
       'use-config-prompts',
       { required: false },
     );
+    const filterChangedPrompts: boolean = core.getBooleanInput(
+      'filter-changed-prompts',
+      { required: false },
+    );
     const envFiles: string = core.getInput('env-files', { required: false });
     const failOnThreshold = parseOptionalPercentage(
       core.getInput('fail-on-threshold', { required: false }),
@@ -236,6 +982,41 @@ export async function run(): Promise<void> {
     const disableComment: boolean = core.getBooleanInput('disable-comment', {
       required: false,
     });
+    const commentMode =
+      parseOptionalChoice(
+        core.getInput('comment-mode', { required: false }),
+        'comment-mode',
+        COMMENT_MODES,
+      ) ?? 'update';
+    const hideOutdatedComments: boolean = core.getBooleanInput(
+      'hide-outdated-comments',
+      { required: false },
+    );
+    const commentOnSkip: boolean = core.getBooleanInput('comment-on-skip', {
+      required: false,
+    });
+    const commentTemplatePath: string = core.getInput('comment-template', {
+      required: false,
+    });
+    const commentTemplate = commentTemplatePath
+      ? loadTemplate(path.resolve(workingDirectory, commentTemplatePath))
+      : undefined;
+    const checkRun: boolean = core.getBooleanInput('check-run', {
+      required: false,
+    });
+    if (checkRun && mode === 'report') {
+      core.warning(
+        'check-run is ignored with mode: report; set it on the mode: comment job, which creates the Check Runs',
+      );
+    }
+    const reviewComments: boolean = core.getBooleanInput('review-comments', {
+      required: false,
+    });
+    if (reviewComments && mode === 'report') {
+      core.warning(
+        'review-comments is not supported with mode: report; no review will be posted',
+      );
+    }
     const workflowFiles: string = core.getInput('workflow-files', {
       required: false,
     });
@@ -245,14 +1026,42 @@ export async function run(): Promise<void> {
     const forceRun: boolean = core.getBooleanInput('force-run', {
       required: false,
     });
+    // Comment-triggered runs accept a few options in the command itself
+    let slashCommand: SlashCommand | undefined;
+    if (github.context.eventName === 'issue_comment') {
+      const { action, comment, issue } = github.context.payload;
+      slashCommand =
+        action === 'created' && issue?.pull_request
+          ? parseSlashCommand(comment?.body ?? '')
+          : undefined;
+      if (!slashCommand) {
+        core.info(
+          `Skipping: the comment is not a new ${SLASH_COMMAND} command on a pull request.`,
+        );
+        return;
+      }
+    }
     const repeat = parseOptionalPositiveInt(
-      core.getInput('repeat', { required: false }),
+      slashCommand?.repeat ?? core.getInput('repeat', { required: false }),
       'repeat',
     );
     const repeatMinPass = parseOptionalPositiveInt(
       core.getInput('repeat-min-pass', { required: false }),
       'repeat-min-pass',
     );
+    const baselineFile: string = core.getInput('baseline-file', {
+      required: false,
+    });
+    const baselineMode =
+      parseOptionalChoice(
+        core.getInput('baseline', { required: false }),
+        'baseline',
+        BASELINE_MODES,
+      ) ?? (baselineFile ? 'file' : 'none');
+    const failOnRegression: boolean = core.getBooleanInput(
+      'fail-on-regression',
+      { required: false },
+    );
 
     // Cross-field validation for repeat inputs
     if (repeat !== undefined && repeat < 2) {
@@ -279,6 +1088,28 @@ export async function run(): Promise<void> {
       }
     }
 
+    if (baselineMode === 'file' && !baselineFile) {
+      throw new PromptfooActionError(
+        'baseline: file requires baseline-file to be set',
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Set baseline-file to a promptfoo JSON output file',
+      );
+    }
+    if (baselineMode === 'file' && configs.length > 1) {
+      throw new PromptfooActionError(
+        'baseline-file can only be used with a single config',
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Use baseline: base to compare several configs against the base commit',
+      );
+    }
+    if (failOnRegression && baselineMode === 'none') {
+      throw new PromptfooActionError(
+        'fail-on-regression requires a baseline to compare against',
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Set baseline to "base" or provide baseline-file',
+      );
+    }
+
     // Load .env files if specified
     if (envFiles) {
       const envFileList = envFiles
@@ -341,6 +1172,12 @@ export async function run(): Promise<void> {
     let changedFiles = '';
     let isPullRequest = false;
     let pullRequestNumber: number | undefined;
+    let headSha = github.context.sha;
+    let baseSha: string | undefined;
+    // Pull request file statuses such as added, modified, or removed
+    let changedFileStatuses = new Map<string, string>();
+    // Unified diffs of pull request files, used for inline review comments
+    let pullRequestPatches = new Map<string, string>();
 
     // Handle different event types
     if (event === 'pull_request' || event === 'pull_request_target') {
@@ -350,24 +1187,68 @@ export async function run(): Promise<void> {
       }
       isPullRequest = true;
       pullRequestNumber = pullRequest.number;
-
-      const pullRequestFiles = await octokit.paginate(
-        octokit.rest.pulls.listFiles,
-        {
-          ...github.context.repo,
-          pull_number: pullRequestNumber,
-          per_page: 100,
-        },
+      headSha = pullRequest.head?.sha || headSha;
+      baseSha = pullRequest.base?.sha;
+
+      ({
+        changedFiles,
+        statuses: changedFileStatuses,
+        patches: pullRequestPatches,
+      } = await getPullRequestChanges(
+        octokit,
+        pullRequestNumber,
+        baseSha,
+        headSha,
+      ));
+    } else if (event === 'issue_comment') {
+      core.info(`Running ${SLASH_COMMAND} from a pull request comment`);
+      // Both were checked when the command was parsed
+      const comment = github.context.payload.comment as {
+        id: number;
+        user: { login: string };
+      };
+      const issue = github.context.payload.issue as { number: number };
+      await verifyCommandPermission(
+        octokit,
+        github.context.repo,
+        comment.user.login,
       );
-      if (pullRequestFiles.length >= GITHUB_PULL_REQUEST_FILES_LIMIT) {
-        core.warning(
-          `GitHub only returns the first ${GITHUB_PULL_REQUEST_FILES_LIMIT} files changed in a pull request. Processing all matching prompt files to avoid missing changes.`,
-        );
-      } else {
-        changedFiles = pullRequestFiles.map((file) => file.filename).join('\n');
-      }
-    } else if (event === 'workflow_dispatch') {
-      core.info('Running in workflow_dispatch mode');
+      await acknowledgeCommand(octokit, github.context.repo, comment.id);
+
+      // The comment event only carries the issue, so the commits come from
+      // the pull request itself
+      const { data: pullRequest } = await octokit.rest.pulls.get({
+        ...github.context.repo,
+        pull_number: issue.number,
+      });
+      isPullRequest = true;
+      pullRequestNumber = pullRequest.number;
+      headSha = pullRequest.head.sha;
+      baseSha = pullRequest.base.sha;
+
+      // Results are reported for the head commit, so evaluating any other
+      // checkout would attribute its results to the pull request
+      const checkoutSha = (await gitInterface.revparse(['HEAD'])).trim();
+      if (checkoutSha !== headSha) {
+        throw new PromptfooActionError(
+          `The checkout is at ${checkoutSha}, but the pull request head is ${headSha}`,
+          ErrorCodes.INVALID_GIT_REF,
+          `Check out refs/pull/${pullRequestNumber}/head to evaluate the pull request changes, and run the command again if the pull request was updated in the meantime`,
+        );
+      }
+
+      ({
+        changedFiles,
+        statuses: changedFileStatuses,
+        patches: pullRequestPatches,
+      } = await getPullRequestChanges(
+        octokit,
+        pullRequestNumber,
+        baseSha,
+        headSha,
+      ));
+    } else if (event === 'workflow_dispatch') {
+      core.info('Running in workflow_dispatch mode');
 
       // For workflow_dispatch, we can either:
       // 1. Accept a list of files as input
@@ -418,6 +1299,7 @@ export async function run(): Promise<void> {
       ) {
         validateCommitSha(beforeSha, 'before commit');
         validateCommitSha(afterSha, 'after commit');
+        baseSha = beforeSha;
         try {
           changedFiles = await gitInterface.diff([
             '--name-only',
@@ -441,17 +1323,173 @@ export async function run(): Promise<void> {
         );
         changedFiles = '';
       }
+    } else if (event === 'merge_group') {
+      core.info('Running in merge_group mode');
+
+      // A merge group commit holds the queued pull requests on top of the
+      // base branch, so comparing it with the base covers all of them
+      const mergeGroup = github.context.payload.merge_group;
+      const mergeBaseSha: string | undefined = mergeGroup?.base_sha;
+      const mergeHeadSha: string = mergeGroup?.head_sha || headSha;
+
+      if (mergeBaseSha) {
+        validateCommitSha(mergeBaseSha, 'merge group base commit');
+        validateCommitSha(mergeHeadSha, 'merge group head commit');
+        baseSha = mergeBaseSha;
+        headSha = mergeHeadSha;
+        try {
+          // Merge queue checkouts usually contain only the head commit
+          await gitInterface.fetch([
+            '--no-tags',
+            '--depth=1',
+            'origin',
+            baseSha,
+          ]);
+        } catch (error) {
+          core.debug(
+            `Could not fetch merge group base commit ${baseSha}: ${error}`,
+          );
+        }
+        try {
+          changedFiles = await gitInterface.diff([
+            '--name-only',
+            baseSha,
+            headSha,
+            '--',
+          ]);
+          core.info(
+            `Comparing ${baseSha}..${headSha}, found changed files: ${changedFiles}`,
+          );
+        } catch (error) {
+          core.warning(
+            `Could not compare the merge group commits: ${error}. Will process all matching prompt files.`,
+          );
+          changedFiles = '';
+        }
+      } else {
+        core.info(
+          'Unable to determine changed files from merge_group event. Will process all matching prompt files.',
+        );
+      }
     } else {
       core.warning(
-        `This action is designed to run on pull request, push, or workflow_dispatch events, but a "${event}" event was received. Will process all matching prompt files.`,
+        `This action is designed to run on pull request, merge_group, push, or workflow_dispatch events, but a "${event}" event was received. Will process all matching prompt files.`,
       );
     }
 
+    // In mode: report nothing is posted; the results of each config are
+    // written to the results bundle instead
+    let resultsBundle: ResultsBundle | undefined;
+    if (mode === 'report') {
+      if (!pullRequestNumber) {
+        throw new PromptfooActionError(
+          `mode: report requires a pull request event, but a "${event}" event was received`,
+          ErrorCodes.INVALID_CONFIGURATION,
+          'Run mode: report on pull_request and post the results with mode: comment on workflow_run',
+        );
+      }
+      const bundle: ResultsBundle = {
+        version: RESULTS_BUNDLE_VERSION,
+        pullRequestNumber,
+        headSha,
+        job: process.env.GITHUB_JOB ?? '',
+        configs: configs.map((config) => ({
+          config: config.configRepositoryPath,
+          failures: [],
+        })),
+      };
+      resultsBundle = bundle;
+      writeBundle = async () => {
+        await writeResultsBundle(resultsBundlePath, bundle);
+        core.info(`Wrote the results bundle to ${resultsBundlePath}`);
+      };
+    }
+
+    // Posts the PR comment, except in mode: report, where the comment job
+    // renders it from the results bundle
+    const publishComment = async (
+      issueNumber: number,
+      body: string,
+      counts: { successes: number; failures: number; errors: number },
+    ) => {
+      if (resultsBundle) {
+        return;
+      }
+      await postPullRequestComment(octokit, {
+        repo: github.context.repo,
+        issueNumber,
+        marker: getCommentMarker(
+          configs.map((config) => config.configRepositoryPath).join('\n'),
+          process.env.GITHUB_JOB,
+        ),
+        body,
+        run: {
+          sha: headSha,
+          ...counts,
+          timestamp: new Date().toISOString(),
+        },
+        mode: commentMode,
+        hideOutdated: hideOutdatedComments,
+      });
+    };
+
+    // Without prompt globs, each config's own prompt files are watched
+    const usesConfigPromptGlobs = promptFilesGlobs.length === 0;
+    // Changed prompts can only be filtered when promptfoo uses the config's
+    // prompts rather than the changed files passed with --prompts
+    const filtersChangedPrompts =
+      filterChangedPrompts && (useConfigPrompts || usesConfigPromptGlobs);
+    if (filterChangedPrompts && !filtersChangedPrompts) {
+      core.warning(
+        'filter-changed-prompts is ignored because prompts are set without use-config-prompts; the changed prompt files are passed with --prompts instead',
+      );
+    }
+    // With several configs, a file matched by the prompt globs only belongs to
+    // the configs that reference it
+    const scopesPromptsToConfigs = !usesConfigPromptGlobs && configs.length > 1;
+    const configPrompts = configs.map((config) =>
+      usesConfigPromptGlobs || filtersChangedPrompts || scopesPromptsToConfigs
+        ? extractConfigPrompts(config.configAbsolutePath)
+        : [],
+    );
+    const configPromptGlobs = configs.map((config, index) => {
+      if (!usesConfigPromptGlobs) {
+        return promptFilesGlobs;
+      }
+      const globs = configPrompts[index].map(({ pattern }) =>
+        toRepositoryPath(
+          path.relative(workingDirectory, path.resolve(workspaceRoot, pattern)),
+        ),
+      );
+      if (globs.length > 0) {
+        core.info(
+          `Watching the prompt files of ${config.configRepositoryPath}: ${globs.join(', ')}`,
+        );
+      }
+      return globs;
+    });
+
     // Resolve glob patterns to file paths
     const promptFiles: string[] = [];
+    // Changed prompt files that no longer exist, relative to the working directory
+    const removedPromptFiles: string[] = [];
     const changedFilesList = changedFiles.split('\n').filter((f) => f);
+    const isRemoved = (repositoryFile: string) =>
+      changedFileStatuses.get(repositoryFile) === 'removed';
+    // Ignore patterns are resolved from the working directory, like prompts
+    const isIgnored = (repositoryFile: string) => {
+      const file = toRepositoryPath(
+        path.relative(
+          workingDirectory,
+          path.resolve(workspaceRoot, repositoryFile),
+        ),
+      );
+      return promptIgnorePatterns.some((pattern) =>
+        path.matchesGlob(file, pattern),
+      );
+    };
 
-    for (const globPattern of promptFilesGlobs) {
+    for (const globPattern of new Set(configPromptGlobs.flat())) {
       const matches = glob.sync(globPattern, {
         cwd: workingDirectory,
         nodir: true,
@@ -464,77 +1502,275 @@ export async function run(): Promise<void> {
             path.relative(workspaceRoot, path.resolve(workingDirectory, file)),
           );
           return (
-            repositoryFile !== configRepositoryPath &&
-            changedFilesList.includes(repositoryFile)
+            !configRepositoryPaths.has(repositoryFile) &&
+            changedFilesList.includes(repositoryFile) &&
+            !isRemoved(repositoryFile) &&
+            !isIgnored(repositoryFile)
           );
         });
         promptFiles.push(...changedMatches);
+
+        // Removed files are not on disk, so their paths are matched directly
+        for (const repositoryFile of changedFilesList) {
+          const file = toRepositoryPath(
+            path.relative(
+              workingDirectory,
+              path.resolve(workspaceRoot, repositoryFile),
+            ),
+          );
+          if (
+            isRemoved(repositoryFile) &&
+            !configRepositoryPaths.has(repositoryFile) &&
+            !removedPromptFiles.includes(file) &&
+            path.matchesGlob(file, globPattern) &&
+            !isIgnored(repositoryFile)
+          ) {
+            removedPromptFiles.push(file);
+          }
+        }
       } else {
         // No changed files info available, include all matches
         const allMatches = matches.filter((file) => {
           const repositoryFile = toRepositoryPath(
             path.relative(workspaceRoot, path.resolve(workingDirectory, file)),
           );
-          return repositoryFile !== configRepositoryPath;
+          return (
+            !configRepositoryPaths.has(repositoryFile) &&
+            !isIgnored(repositoryFile)
+          );
         });
         promptFiles.push(...allMatches);
       }
     }
 
-    const configChanged =
-      changedFilesList.length > 0 &&
-      changedFilesList.includes(configRepositoryPath);
-
-    // Extract dependencies from config file
-    let dependencyChanged = false;
-    if (changedFilesList.length > 0) {
+    // Decide per config whether anything it evaluates has changed
+    const changedPrompts = [...promptFiles, ...removedPromptFiles];
+    const selectedConfigs: Array<
+      ConfigTarget & {
+        runReason: RunReason;
+        changedPromptFiles: string[];
+        removedPromptFiles: string[];
+        promptFiles: string[];
+        promptFilter?: string;
+      }
+    > = [];
+    const skippedConfigs: Array<ConfigTarget & { runReason: RunReason }> = [];
+    const configDependencies = new Set<string>();
+    // Prompt files used by at least one config, relative to the working directory
+    const configPromptFileSet = new Set<string>();
+    for (const [index, config] of configs.entries()) {
+      const promptGlobs = configPromptGlobs[index];
+      const configChanged =
+        changedFilesList.length > 0 &&
+        changedFilesList.includes(config.configRepositoryPath);
+
+      // Extract dependencies from config file
       const dependencies =
-        extractFileDependencies(configAbsolutePath).map(toRepositoryPath);
-      if (dependencies.length > 0) {
-        core.debug(
-          `Found ${dependencies.length} file dependencies in config: ${dependencies.join(', ')}`,
+        changedFilesList.length > 0 || scopesPromptsToConfigs
+          ? extractFileDependencies(config.configAbsolutePath).map(
+              toRepositoryPath,
+            )
+          : [];
+      // Directory dependencies match every file within them
+      const dependencyDirs = dependencies
+        .filter((dep) => dep.endsWith('/') || isDirectory(dep))
+        .map((dep) => (dep.endsWith('/') ? dep : `${dep}/`));
+      const isDependency = (repositoryFile: string) =>
+        dependencies.includes(repositoryFile) ||
+        dependencyDirs.some((depDir) => repositoryFile.startsWith(depDir));
+
+      // Prompt globs from a config only watch that config's prompts, and
+      // shared prompt globs only the prompts a config references
+      const toWorkspacePath = (file: string) =>
+        toRepositoryPath(
+          path.relative(workspaceRoot, path.resolve(workingDirectory, file)),
         );
+      const isConfigPrompt = (file: string) => {
+        if (usesConfigPromptGlobs) {
+          return promptGlobs.some((pattern) =>
+            path.matchesGlob(toRepositoryPath(file), pattern),
+          );
+        }
+        const repositoryFile = toWorkspacePath(file);
+        return (
+          !scopesPromptsToConfigs ||
+          isDependency(repositoryFile) ||
+          configPrompts[index].some(({ pattern }) =>
+            path.matchesGlob(repositoryFile, pattern),
+          )
+        );
+      };
+      const configChangedPrompts = changedPrompts.filter(isConfigPrompt);
+      for (const file of configChangedPrompts) {
+        configPromptFileSet.add(file);
+      }
+      const changedPromptPaths = new Set(
+        configChangedPrompts.map(toWorkspacePath),
+      );
 
-        // Check if any changed file matches the dependencies
-        dependencyChanged = dependencies.some((dep) => {
-          // Direct file match
-          if (changedFilesList.includes(dep)) {
-            return true;
-          }
+      let dependencyFiles: string[] = [];
+      if (changedFilesList.length > 0) {
+        for (const dependency of dependencies) {
+          configDependencies.add(dependency);
+        }
+        if (dependencies.length > 0) {
+          core.debug(
+            `Found ${dependencies.length} file dependencies in config: ${dependencies.join(', ')}`,
+          );
+
+          // The config's prompt files are listed as dependencies too, but
+          // their changes are reported as prompt changes
+          dependencyFiles = changedFilesList.filter(
+            (changedFile) =>
+              isDependency(changedFile) &&
+              !isIgnored(changedFile) &&
+              !changedPromptPaths.has(changedFile),
+          );
 
-          // Check if the dependency is a directory and any changed file is within it
-          if (dep.endsWith('/') || isDirectory(dep)) {
-            const depDir = dep.endsWith('/') ? dep : `${dep}/`;
-            return changedFilesList.some((changedFile) =>
-              changedFile.startsWith(depDir),
+          if (dependencyFiles.length > 0) {
+            core.info(
+              configs.length > 1
+                ? `Detected changes in dependencies of ${config.configRepositoryPath}`
+                : 'Detected changes in config file dependencies',
             );
           }
+        }
+      }
 
-          return false;
-        });
+      const runReason = getRunReason({
+        forceRun,
+        commandRequested: slashCommand !== undefined,
+        hasChangeInformation: changedFilesList.length > 0,
+        // With prompt globs, and whenever there can be several configs, a
+        // config is only evaluated when something it uses changed, even if
+        // its prompts are inline
+        skipsUnchanged:
+          promptGlobs.length > 0 || discoverConfigs || configs.length > 1,
+        promptFiles: [...changedPromptPaths],
+        configFiles: configChanged ? [config.configRepositoryPath] : [],
+        dependencyFiles,
+      });
+      if (!runReason.run) {
+        skippedConfigs.push({ ...config, runReason });
+        continue;
+      }
 
-        if (dependencyChanged) {
-          core.info('Detected changes in config file dependencies');
-        }
+      // Config, dependency, and requested runs can affect every prompt
+      let promptFilter: string | undefined;
+      if (
+        filtersChangedPrompts &&
+        runReason.categories.length === 1 &&
+        runReason.categories[0] === 'prompt-files'
+      ) {
+        promptFilter = getChangedPromptFilter(
+          configPrompts[index],
+          runReason.files.filter((file) => !isRemoved(file)),
+          path.posix.dirname(config.configRepositoryPath),
+        );
+        core.info(
+          promptFilter
+            ? `Evaluating only the changed prompts of ${config.configRepositoryPath}: ${promptFilter}`
+            : `Evaluating every prompt of ${config.configRepositoryPath}: the changed files do not map to its prompts`,
+        );
+      }
+      const changedPromptFiles = promptFiles.filter(isConfigPrompt);
+      selectedConfigs.push({
+        ...config,
+        runReason,
+        changedPromptFiles,
+        removedPromptFiles: removedPromptFiles.filter(isConfigPrompt),
+        // Changed prompt files replace the config's prompts, unless the
+        // config's own prompts are used or watched
+        promptFiles:
+          useConfigPrompts || usesConfigPromptGlobs ? [] : changedPromptFiles,
+        promptFilter,
+      });
+    }
+    for (const file of changedPrompts) {
+      if (!configPromptFileSet.has(file)) {
+        core.warning(
+          `${file} matches the prompt globs, but no config references it, so it is not evaluated`,
+        );
       }
     }
+    const runReason = mergeRunReasons(
+      [...selectedConfigs, ...skippedConfigs].map((config) => config.runReason),
+    );
+    core.setOutput('run-reason', JSON.stringify(runReason));
+    setListOutput('changed-files', changedFilesList);
+    setListOutput('prompt-files', promptFiles);
+    setListOutput('dependencies', [...configDependencies]);
+    core.setOutput(
+      'config-changed',
+      String(runReason.categories.includes('config')),
+    );
+    core.setOutput(
+      'dependency-changed',
+      String(runReason.categories.includes('dependencies')),
+    );
+    // Set to true once promptfoo starts, so skips and dry runs report false
+    core.setOutput('evaluated', 'false');
 
-    if (
-      !forceRun &&
-      promptFiles.length < 1 &&
-      !configChanged &&
-      !dependencyChanged &&
-      changedFilesList.length > 0 &&
-      promptFilesGlobs.length > 0
-    ) {
-      // We have changed files info but no prompt files were modified
-      // Only skip if prompts were actually specified
+    if (selectedConfigs.length === 0) {
       core.info('No LLM prompt, config files, or dependencies were modified.');
+    } else {
+      for (const config of skippedConfigs) {
+        core.info(
+          `Skipping ${config.configRepositoryPath}: no LLM prompt, config files, or dependencies were modified.`,
+        );
+      }
+    }
+    // In mode: report the comment job creates the Check Runs
+    if (checkRun && !dryRun && !resultsBundle) {
+      for (const config of skippedConfigs) {
+        await createCheckRun(octokit, {
+          repo: github.context.repo,
+          name: getCheckRunName(config.configRepositoryPath),
+          headSha,
+          conclusion: 'neutral',
+          title: 'Skipped: no relevant changes',
+          summary:
+            'No LLM prompt, config files, or dependencies were modified.',
+        });
+      }
+    }
+    if (selectedConfigs.length === 0) {
+      if (dryRun) {
+        await reportDryRun({
+          runReason,
+          promptFiles,
+          commands: [],
+          env: process.env,
+        });
+        return;
+      }
+      const skipMarkdown = formatRunReasonMarkdown(runReason);
+      await core.summary
+        .addHeading('Promptfoo Evaluation Skipped')
+        .addRaw(skipMarkdown, true)
+        .write();
+      if (
+        isPullRequest &&
+        pullRequestNumber &&
+        commentOnSkip &&
+        !disableComment
+      ) {
+        await publishComment(pullRequestNumber, skipMarkdown, {
+          successes: 0,
+          failures: 0,
+          errors: 0,
+        });
+      }
+      await writeBundle?.();
       return;
     }
 
     if (forceRun) {
       core.info('Force run enabled - running evaluation regardless of changes');
+    } else if (slashCommand) {
+      core.info(
+        `Evaluation requested with ${SLASH_COMMAND} - running evaluation regardless of changes`,
+      );
     }
 
     if (changedFilesList.length === 0) {
@@ -551,7 +1787,7 @@ export async function run(): Promise<void> {
     setupCacheEnvironment(resolvedCachePath);
 
     // Clean up old cache entries in CI to prevent unbounded growth
-    if (process.env.CI === 'true') {
+    if (process.env.CI === 'true' && !dryRun) {
       const cleanedCount = await cleanupOldCache(
         process.env.PROMPTFOO_CACHE_PATH ||
           resolvedCachePath ||
@@ -571,20 +1807,12 @@ export async function run(): Promise<void> {
     await logCacheMetrics(cacheDir);
     core.endGroup();
 
-    // Use a unique output file path so stale results from a previous run
-    // cannot influence the current run's comments, thresholds, or pass/fail.
-    const outputFile = path.join(
-      workingDirectory,
-      `output-${Date.now()}-${globalThis.crypto.randomUUID()}.json`,
-    );
-    let promptfooArgs = ['eval', '-c', configPath, '-o', outputFile];
-    if (!useConfigPrompts && promptFiles.length > 0) {
-      promptfooArgs = promptfooArgs.concat(['--prompts', ...promptFiles]);
-    }
+    // Flags shared by the evaluation of every config
+    const evalFlags: string[] = [];
     // Check if sharing is enabled and validate authentication upfront
     if (noShare) {
       // Override config-level sharing as well as the action's default behavior.
-      promptfooArgs.push('--no-share');
+      evalFlags.push('--no-share');
     } else {
       const promptfooApiKey = process.env.PROMPTFOO_API_KEY;
       const hasRemoteConfig = process.env.PROMPTFOO_REMOTE_API_BASE_URL;
@@ -594,37 +1822,37 @@ export async function run(): Promise<void> {
         core.info('Validating Promptfoo API key...');
         await validatePromptfooApiKey(promptfooApiKey, getApiHost());
         core.info('✓ Promptfoo API key validated');
-        promptfooArgs.push('--share');
+        evalFlags.push('--share');
       } else if (hasRemoteConfig) {
         // For self-hosted instances with custom API URLs, skip validation
         // as they may use different authentication mechanisms
         core.info(
           'Using custom PROMPTFOO_REMOTE_API_BASE_URL. Skipping API key validation.',
         );
-        promptfooArgs.push('--share');
+        evalFlags.push('--share');
       } else {
         core.info(
           'Sharing is enabled but no authentication found (PROMPTFOO_API_KEY or PROMPTFOO_REMOTE_API_BASE_URL). ' +
             'Skipping share step. To enable sharing, set PROMPTFOO_API_KEY as an environment variable.',
         );
         // Prevent a config-level share setting from bypassing this guard.
-        promptfooArgs.push('--no-share');
+        evalFlags.push('--no-share');
       }
     }
     if (maxConcurrency !== undefined) {
-      promptfooArgs.push('--max-concurrency', maxConcurrency.toString());
+      evalFlags.push('--max-concurrency', maxConcurrency.toString());
     }
     if (noTable) {
-      promptfooArgs.push('--no-table');
+      evalFlags.push('--no-table');
     }
     if (noProgressBar) {
-      promptfooArgs.push('--no-progress-bar');
+      evalFlags.push('--no-progress-bar');
     }
     if (noCache) {
-      promptfooArgs.push('--no-cache');
+      evalFlags.push('--no-cache');
     }
     if (repeat !== undefined) {
-      promptfooArgs.push('--repeat', repeat.toString());
+      evalFlags.push('--repeat', repeat.toString());
       core.info(`Running each test ${repeat} times (--repeat ${repeat})`);
       if (repeatMinPass !== undefined) {
         core.info(
@@ -633,6 +1861,22 @@ export async function run(): Promise<void> {
       }
     }
 
+    if (slashCommand?.filterProviders) {
+      evalFlags.push('--filter-providers', slashCommand.filterProviders);
+      core.info(
+        `Evaluating providers matching ${slashCommand.filterProviders} (--filter-providers)`,
+      );
+    }
+    // Flags for one config: its changed prompt files, the shared flags, and
+    // the filter narrowing the config's own prompts to the changed ones
+    const configEvalFlags = (config: (typeof selectedConfigs)[number]) => [
+      ...(config.promptFiles.length > 0
+        ? ['--prompts', ...config.promptFiles]
+        : []),
+      ...evalFlags,
+      ...(config.promptFilter ? ['--filter-prompts', config.promptFilter] : []),
+    ];
+
     const normalizedFailedTestExitCode = normalizeFailedTestExitCode(
       process.env.PROMPTFOO_FAILED_TEST_EXIT_CODE,
     );
@@ -671,304 +1915,559 @@ export async function run(): Promise<void> {
         ? { PROMPTFOO_FAILED_TEST_EXIT_CODE: failedTestExitCode.toString() }
         : {}),
     };
-    // Use ignoreReturnCode so we can inspect the exit code and still read output.
-    // Promptfoo exits non-zero when any test fails — we want to post PR comments
-    // and evaluate thresholds before deciding whether to fail the action.
-    // See: https://github.com/promptfoo/promptfoo-action/issues/786
-    const exitCode = await exec.exec(
-      'npx',
-      [`promptfoo@${version}`, ...promptfooArgs],
-      { env, cwd: workingDirectory, ignoreReturnCode: true },
-    );
-
-    // Promptfoo uses specific exit codes:
-    //   0   = all tests passed
-    //   100 = some tests failed (configurable via PROMPTFOO_FAILED_TEST_EXIT_CODE)
-    //   1   = general error (config, runtime, API keys)
-    //   2   = deprecated flag
-    // We only suppress the failed-test exit code when repeat-min-pass passes.
-    // All other non-zero exits are always hard failures.
-    // Exit codes must be 3-255 to be usable:
-    //   - 0, 1, 2, 130 are reserved (success, general error, deprecated flag, SIGINT)
-    //   - Values > 255 wrap at the OS boundary (e.g., 300 becomes 44), so they
-    //     won't match what the process actually exits with
-    const isTestFailureExit = exitCode === failedTestExitCode;
-    const isHardFailure = exitCode !== 0 && !isTestFailureExit;
-
-    // Hard failures (config errors, runtime crashes) should fail immediately
-    // before we try to read output — there's nothing useful to report.
-    if (isHardFailure) {
-      throw new PromptfooActionError(
-        `Promptfoo exited with unexpected code ${exitCode}`,
-        ErrorCodes.PROMPTFOO_EXECUTION_FAILED,
-        'This indicates a configuration or runtime error, not just failed tests. Check the logs above for details.',
-      );
+    if (dryRun) {
+      await reportDryRun({
+        runReason,
+        promptFiles: [
+          ...new Set(selectedConfigs.flatMap((config) => config.promptFiles)),
+        ],
+        commands: selectedConfigs.map((config) => ({
+          config: config.configRepositoryPath,
+          args: [
+            `promptfoo@${version}`,
+            'eval',
+            '-c',
+            config.configPath,
+            ...configEvalFlags(config),
+          ],
+        })),
+        env,
+      });
+      return;
     }
 
-    // Read output file - promptfoo writes output.json even when tests fail
-    // We try to read it so we can post PR comments with the results
-    let output: OutputFile;
-    try {
-      const outputContent = fs.readFileSync(outputFile, 'utf8');
-      output = JSON.parse(outputContent) as OutputFile;
-    } catch (error) {
-      if (isTestFailureExit) {
+    core.setOutput('evaluated', 'true');
+    const evaluations: ConfigEvaluation[] = [];
+    for (const config of selectedConfigs) {
+      const { configPath, configAbsolutePath, configRepositoryPath } = config;
+      if (configs.length > 1) {
+        core.info(`Evaluating ${configRepositoryPath}`);
+      }
+
+      // Use a unique output file path so stale results from a previous run
+      // cannot influence the current run's comments, thresholds, or pass/fail.
+      const outputFile = path.join(
+        workingDirectory,
+        `output-${Date.now()}-${globalThis.crypto.randomUUID()}.json`,
+      );
+      const promptfooArgs = [
+        'eval',
+        '-c',
+        configPath,
+        '-o',
+        outputFile,
+        ...configEvalFlags(config),
+      ];
+      // Use ignoreReturnCode so we can inspect the exit code and still read output.
+      // Promptfoo exits non-zero when any test fails — we want to post PR comments
+      // and evaluate thresholds before deciding whether to fail the action.
+      // See: https://github.com/promptfoo/promptfoo-action/issues/786
+      const exitCode = await exec.exec(
+        'npx',
+        [`promptfoo@${version}`, ...promptfooArgs],
+        { env, cwd: workingDirectory, ignoreReturnCode: true },
+      );
+
+      // Promptfoo uses specific exit codes:
+      //   0   = all tests passed
+      //   100 = some tests failed (configurable via PROMPTFOO_FAILED_TEST_EXIT_CODE)
+      //   1   = general error (config, runtime, API keys)
+      //   2   = deprecated flag
+      // We only suppress the failed-test exit code when repeat-min-pass passes.
+      // All other non-zero exits are always hard failures.
+      // Exit codes must be 3-255 to be usable:
+      //   - 0, 1, 2, 130 are reserved (success, general error, deprecated flag, SIGINT)
+      //   - Values > 255 wrap at the OS boundary (e.g., 300 becomes 44), so they
+      //     won't match what the process actually exits with
+      const isTestFailureExit = exitCode === failedTestExitCode;
+      const isHardFailure = exitCode !== 0 && !isTestFailureExit;
+
+      // Hard failures (config errors, runtime crashes) should fail immediately
+      // before we try to read output — there's nothing useful to report.
+      if (isHardFailure) {
         throw new PromptfooActionError(
-          `Promptfoo tests failed (exit code ${exitCode}) but no output was generated`,
+          `Promptfoo exited with unexpected code ${exitCode}`,
           ErrorCodes.PROMPTFOO_EXECUTION_FAILED,
-          'Check that your promptfoo configuration is valid and all required API keys are set',
+          'This indicates a configuration or runtime error, not just failed tests. Check the logs above for details.',
         );
       }
-      throw new PromptfooActionError(
-        `Failed to read or parse output file: ${error instanceof Error ? error.message : String(error)}`,
-        ErrorCodes.INVALID_OUTPUT_FILE,
-        'This usually happens when promptfoo fails to generate valid output. Check the logs above for more details',
-      );
-    }
 
-    // Clean up the per-run output file
-    try {
-      fs.unlinkSync(outputFile);
-    } catch {
-      // best effort cleanup
-    }
-
-    // Log final cache metrics and create manifest
-    core.startGroup('Cache metrics after evaluation');
-    await logCacheMetrics(cacheDir);
-    await createCacheManifest(cacheDir);
-    core.endGroup();
-
-    // Evaluate repeat threshold early so we can include results in PR comments
-    let repeatCheckResult:
-      | ReturnType<typeof evaluateRepeatThreshold>
-      | undefined;
-    if (repeatMinPass !== undefined && repeat !== undefined) {
-      const repeatCount = repeat;
-      // Runtime validation: extract and validate output.results structure
-      const rawResults = (output.results as { results?: unknown }).results;
-
-      // Validate that results is an array
-      if (!Array.isArray(rawResults)) {
+      // Read output file - promptfoo writes output.json even when tests fail
+      // We try to read it so we can post PR comments with the results
+      let output: OutputFile;
+      try {
+        const outputContent = fs.readFileSync(outputFile, 'utf8');
+        output = JSON.parse(outputContent) as OutputFile;
+      } catch (error) {
+        if (isTestFailureExit) {
+          throw new PromptfooActionError(
+            `Promptfoo tests failed (exit code ${exitCode}) but no output was generated`,
+            ErrorCodes.PROMPTFOO_EXECUTION_FAILED,
+            'Check that your promptfoo configuration is valid and all required API keys are set',
+          );
+        }
         throw new PromptfooActionError(
-          `Invalid output format: expected output.results.results to be an array, got ${typeof rawResults}`,
-          ErrorCodes.REPEAT_CHECK_FAILED,
-          'The evaluation output may be malformed or truncated. Check promptfoo logs for errors.',
+          `Failed to read or parse output file: ${error instanceof Error ? error.message : String(error)}`,
+          ErrorCodes.INVALID_OUTPUT_FILE,
+          'This usually happens when promptfoo fails to generate valid output. Check the logs above for more details',
         );
       }
 
-      // Validate that each element has minimal EvaluateResult shape
-      for (let i = 0; i < rawResults.length; i++) {
-        const item = rawResults[i];
-        if (!item || typeof item !== 'object') {
+      // Clean up the per-run output file
+      try {
+        fs.unlinkSync(outputFile);
+      } catch {
+        // best effort cleanup
+      }
+
+      // Per-result entries shared by the breakdown, baseline and failure reports
+      const evaluateResults = getEvaluateResults(output);
+      const breakdown = getResultBreakdown(evaluateResults);
+      const breakdownMarkdown = formatBreakdownMarkdown(breakdown);
+      const usageMarkdown = formatUsageMarkdown(
+        getUsageReport(evaluateResults),
+      );
+      const latencyMarkdown = formatLatencyMarkdown(
+        getLatencyReport(evaluateResults),
+      );
+
+      // Evaluate repeat threshold early so we can include results in PR comments
+      let repeatCheckResult:
+        | ReturnType<typeof evaluateRepeatThreshold>
+        | undefined;
+      if (repeatMinPass !== undefined && repeat !== undefined) {
+        const repeatCount = repeat;
+        // Runtime validation: extract and validate output.results structure
+        const rawResults = (output.results as { results?: unknown }).results;
+
+        // Validate that results is an array
+        if (!Array.isArray(rawResults)) {
           throw new PromptfooActionError(
-            `Invalid result at index ${i}: expected object, got ${typeof item}`,
+            `Invalid output format: expected output.results.results to be an array, got ${typeof rawResults}`,
             ErrorCodes.REPEAT_CHECK_FAILED,
-            'The evaluation output contains invalid result entries. Check promptfoo logs for errors.',
+            'The evaluation output may be malformed or truncated. Check promptfoo logs for errors.',
           );
         }
-        // Check for essential fields that EvaluateResult should have
-        const result = item as Record<string, unknown>;
-        if (typeof result.promptIdx !== 'number') {
+
+        // Validate that each element has minimal EvaluateResult shape
+        for (let i = 0; i < rawResults.length; i++) {
+          const item = rawResults[i];
+          if (!item || typeof item !== 'object') {
+            throw new PromptfooActionError(
+              `Invalid result at index ${i}: expected object, got ${typeof item}`,
+              ErrorCodes.REPEAT_CHECK_FAILED,
+              'The evaluation output contains invalid result entries. Check promptfoo logs for errors.',
+            );
+          }
+          // Check for essential fields that EvaluateResult should have
+          const result = item as Record<string, unknown>;
+          if (typeof result.promptIdx !== 'number') {
+            throw new PromptfooActionError(
+              `Invalid result at index ${i}: missing or invalid 'promptIdx' field`,
+              ErrorCodes.REPEAT_CHECK_FAILED,
+              'The evaluation output contains malformed result entries. Check promptfoo logs for errors.',
+            );
+          }
+          if (typeof result.success !== 'boolean') {
+            throw new PromptfooActionError(
+              `Invalid result at index ${i}: missing or invalid 'success' field`,
+              ErrorCodes.REPEAT_CHECK_FAILED,
+              'The evaluation output contains malformed result entries. Check promptfoo logs for errors.',
+            );
+          }
+        }
+
+        // Safe to cast after validation
+        const results = rawResults as EvaluateResult[];
+
+        if (results.length === 0) {
           throw new PromptfooActionError(
-            `Invalid result at index ${i}: missing or invalid 'promptIdx' field`,
+            'No test results found - cannot check per-test repeat threshold',
             ErrorCodes.REPEAT_CHECK_FAILED,
-            'The evaluation output contains malformed result entries. Check promptfoo logs for errors.',
+            'Ensure your configuration includes valid tests to run',
           );
         }
-        if (typeof result.success !== 'boolean') {
-          throw new PromptfooActionError(
-            `Invalid result at index ${i}: missing or invalid 'success' field`,
-            ErrorCodes.REPEAT_CHECK_FAILED,
-            'The evaluation output contains malformed result entries. Check promptfoo logs for errors.',
+        // repeat is guaranteed defined by cross-field validation above
+        repeatCheckResult = evaluateRepeatThreshold(
+          results,
+          repeatMinPass,
+          repeatCount,
+        );
+      }
+
+      // Compare with the baseline run when configured. Baseline problems are
+      // reported as warnings so they never hide the current run's results.
+      let baselineComparison: BaselineComparison | undefined;
+      if (baselineMode !== 'none') {
+        try {
+          let baselineResults: EvaluateResult[] | undefined;
+          let baselineName = '';
+          if (baselineMode === 'file') {
+            baselineResults = readBaselineResults(
+              path.resolve(workingDirectory, baselineFile),
+            );
+            baselineName = `\`${baselineFile}\``;
+          } else if (baseSha) {
+            baselineResults = await runBaselineEvaluation({
+              baseSha,
+              workspaceRoot,
+              workingDirectory,
+              configAbsolutePath,
+              version,
+              // Reuse the eval flags after "eval -c <config> -o <output>"
+              args: configEvalFlags(config).filter(
+                (arg) => arg !== '--share' && arg !== '--no-share',
+              ),
+              env,
+              failedTestExitCode,
+            });
+            baselineName = `base commit ${baseSha.substring(0, 7)}`;
+          } else {
+            core.warning(
+              `No base commit is available for a "${event}" event. Skipping baseline comparison.`,
+            );
+          }
+          if (baselineResults) {
+            baselineComparison = compareWithBaseline(
+              evaluateResults,
+              baselineResults,
+              {
+                baseline: baselineName,
+                minPass: repeatMinPass,
+                repeatCount: repeat,
+              },
+            );
+          }
+        } catch (error) {
+          core.warning(
+            `Skipping baseline comparison: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
       }
 
-      // Safe to cast after validation
-      const results = rawResults as EvaluateResult[];
+      const successRate = calculateSuccessRate(output.results.stats);
+      const failures = collectFailures(evaluateResults);
+      const failuresMarkdown = formatFailuresMarkdown(failures);
+      const comparisonMarkdown = baselineComparison
+        ? formatComparisonMarkdown(baselineComparison)
+        : '';
+      const repeatMarkdown = repeatCheckResult
+        ? formatRepeatCommentMarkdown(repeatCheckResult.summary)
+        : '';
+
+      const renderedTemplate = commentTemplate
+        ? renderTemplate(commentTemplate, {
+            config: configRepositoryPath,
+            event,
+            runReason: config.runReason.description,
+            changedFiles: config.changedPromptFiles,
+            removedFiles: config.removedPromptFiles,
+            stats: {
+              successes: output.results.stats.successes,
+              failures: output.results.stats.failures,
+              errors: output.results.stats.errors ?? 0,
+            },
+            passRate: successRate === undefined ? '' : successRate.toFixed(2),
+            shareUrl: output.shareableUrl || '',
+            providers: breakdown.providers,
+            prompts: breakdown.prompts,
+            breakdown: breakdownMarkdown,
+            failures,
+            failuresTable: failuresMarkdown,
+            repeatSummary: repeatMarkdown,
+            baselineComparison: comparisonMarkdown,
+            tokenUsage: usageMarkdown,
+            latency: latencyMarkdown,
+          })
+        : undefined;
+
+      evaluations.push({
+        ...config,
+        output,
+        exitCode,
+        isTestFailureExit,
+        evaluateResults,
+        successRate,
+        repeatCheckResult,
+        baselineComparison,
+        sections: {
+          breakdown: breakdownMarkdown,
+          usage: usageMarkdown,
+          latency: latencyMarkdown,
+          comparison: comparisonMarkdown,
+          repeat: repeatMarkdown,
+          failures: failuresMarkdown,
+        },
+        renderedTemplate,
+      });
+    }
 
-      if (results.length === 0) {
-        throw new PromptfooActionError(
-          'No test results found - cannot check per-test repeat threshold',
-          ErrorCodes.REPEAT_CHECK_FAILED,
-          'Ensure your configuration includes valid tests to run',
-        );
-      }
-      // repeat is guaranteed defined by cross-field validation above
-      repeatCheckResult = evaluateRepeatThreshold(
-        results,
-        repeatMinPass,
-        repeatCount,
+    // Log final cache metrics and create manifest
+    core.startGroup('Cache metrics after evaluation');
+    await logCacheMetrics(cacheDir);
+    await createCacheManifest(cacheDir);
+    core.endGroup();
+
+    // Outputs cover the results of all evaluated configs
+    const allResults = evaluations.flatMap(
+      (evaluation) => evaluation.evaluateResults,
+    );
+    const breakdown = getResultBreakdown(allResults);
+    core.setOutput('provider-results', JSON.stringify(breakdown.providers));
+    // Prompt indexes are per config, so each config's prompts get their own
+    // rows, named by config when there are several
+    const promptResults = evaluations.flatMap((evaluation) =>
+      getResultBreakdown(evaluation.evaluateResults).prompts.map((row) =>
+        configs.length > 1
+          ? { config: evaluation.configRepositoryPath, ...row }
+          : row,
+      ),
+    );
+    core.setOutput('prompt-results', JSON.stringify(promptResults));
+    const usage = getUsageReport(allResults);
+    core.setOutput('total-tokens', usage.totals.total.toString());
+    core.setOutput(
+      'total-cost',
+      (Math.round(usage.totals.cost * 1e6) / 1e6).toString(),
+    );
+    const comparisons = evaluations.flatMap((evaluation) =>
+      evaluation.baselineComparison ? [evaluation.baselineComparison] : [],
+    );
+    if (comparisons.length > 0) {
+      core.setOutput(
+        'regressions',
+        comparisons
+          .reduce(
+            (total, comparison) => total + countRegressions(comparison),
+            0,
+          )
+          .toString(),
       );
     }
 
-    const promptfooSuiteSuccessRate = calculateSuccessRate(
-      output.results.stats,
+    const totals = {
+      successes: 0,
+      failures: 0,
+      errors: 0,
+    };
+    for (const { output } of evaluations) {
+      totals.successes += output.results.stats.successes;
+      totals.failures += output.results.stats.failures;
+      totals.errors += output.results.stats.errors ?? 0;
+    }
+    const isMultiConfig = configs.length > 1;
+    const overviewMarkdown = formatConfigOverviewMarkdown(
+      configs.map((config) => ({
+        config: config.configRepositoryPath,
+        stats: evaluations.find(
+          (evaluation) =>
+            evaluation.configRepositoryPath === config.configRepositoryPath,
+        )?.output.results.stats,
+      })),
     );
 
+    if (resultsBundle) {
+      resultsBundle.configs = configs.map((config) => {
+        const evaluation = evaluations.find(
+          (candidate) =>
+            candidate.configRepositoryPath === config.configRepositoryPath,
+        );
+        return {
+          config: config.configRepositoryPath,
+          stats: evaluation && {
+            successes: evaluation.output.results.stats.successes,
+            failures: evaluation.output.results.stats.failures,
+            errors: evaluation.output.results.stats.errors ?? 0,
+          },
+          // Model output is not bundled
+          failures: evaluation
+            ? collectFailures(evaluation.evaluateResults).map(
+                ({ output: _output, ...failure }) => failure,
+              )
+            : [],
+          repeatSummary: evaluation?.repeatCheckResult?.summary,
+        };
+      });
+    }
+
     // Comment on PR or output results
     if (isPullRequest && pullRequestNumber && !disableComment) {
-      const modifiedFiles = promptFiles.join(', ');
-      let body = `⚠️ LLM prompt was modified in these files: ${modifiedFiles}
-
-| Success | Failure |
-|---------|---------|
-| ${output.results.stats.successes}      | ${output.results.stats.failures}       |
-
-`;
-      if (repeatCheckResult) {
-        body += formatRepeatCommentMarkdown(repeatCheckResult.summary);
-        body += '\n';
-      }
-      if (output.shareableUrl) {
-        body += `**» [View eval results](${output.shareableUrl}) «**`;
+      let body: string;
+      if (isMultiConfig) {
+        body = `**promptfoo evaluated ${evaluations.length} of ${configs.length} configs**: ${totals.successes} passed, ${totals.failures} failed\n\n${overviewMarkdown}`;
+        for (const config of configs) {
+          const evaluation = evaluations.find(
+            (candidate) =>
+              candidate.configRepositoryPath === config.configRepositoryPath,
+          );
+          body += `\n### \`${config.configRepositoryPath}\`\n\n`;
+          body += evaluation
+            ? formatEvaluationComment(evaluation)
+            : '_Skipped: no LLM prompt, config files, or dependencies were modified._\n';
+        }
       } else {
-        body += '**» View eval results in CI console «**';
-      }
-      await octokit.rest.issues.createComment({
-        ...github.context.repo,
-        issue_number: pullRequestNumber,
-        body,
-      });
-    } else if (!isPullRequest) {
-      // For non-PR workflows, output results to workflow summary
-
-      const summary = core.summary
-        .addHeading('Promptfoo Evaluation Results')
-        .addTable([
-          [
-            { data: 'Metric', header: true },
-            { data: 'Count', header: true },
-          ],
-          ['Success', output.results.stats.successes.toString()],
-          ['Failure', output.results.stats.failures.toString()],
-        ]);
-
-      if (promptFiles.length > 0) {
-        summary.addHeading('Evaluated Files', 3);
-        summary.addList(promptFiles);
+        body = formatEvaluationComment(evaluations[0]);
       }
+      await publishComment(pullRequestNumber, body, totals);
+    }
 
-      if (repeatCheckResult) {
-        summary.addHeading('Repeat Check', 3);
-        summary.addRaw(formatRepeatCommentMarkdown(repeatCheckResult.summary));
-      }
+    if (
+      isPullRequest &&
+      pullRequestNumber &&
+      reviewComments &&
+      !resultsBundle
+    ) {
+      const changedPromptFiles: ChangedPromptFile[] = promptFiles.map(
+        (file) => {
+          const repositoryFile = toRepositoryPath(
+            path.relative(workspaceRoot, path.resolve(workingDirectory, file)),
+          );
+          return {
+            path: repositoryFile,
+            promptPath: file,
+            patch: pullRequestPatches.get(repositoryFile),
+          };
+        },
+      );
+      await postPromptReview(octokit, {
+        repo: github.context.repo,
+        pullNumber: pullRequestNumber,
+        commitId: headSha,
+        comments: buildPromptReviewComments(allResults, changedPromptFiles),
+      });
+    }
 
-      if (output.shareableUrl) {
-        summary.addLink('View detailed results', output.shareableUrl);
+    if (!isPullRequest) {
+      // For non-PR workflows, output results to workflow summary
+      if (!isMultiConfig && evaluations[0].renderedTemplate !== undefined) {
+        await core.summary.addRaw(evaluations[0].renderedTemplate).write();
       } else {
-        summary.addRaw('View eval results in CI console');
+        const summary = core.summary.addHeading('Promptfoo Evaluation Results');
+        if (isMultiConfig) {
+          summary.addRaw(overviewMarkdown);
+          for (const evaluation of evaluations) {
+            summary.addHeading(evaluation.configRepositoryPath, 2);
+            addEvaluationSummary(summary, evaluation);
+          }
+        } else {
+          addEvaluationSummary(summary, evaluations[0]);
+        }
+        await summary.write();
       }
 
-      await summary.write();
-
       // Also output to console
       core.info('=== Promptfoo Evaluation Results ===');
-      core.info(`Success: ${output.results.stats.successes}`);
-      core.info(`Failure: ${output.results.stats.failures}`);
-      if (output.shareableUrl) {
-        core.info(`View results: ${output.shareableUrl}`);
-      }
-    }
-
-    // Check if we should fail based on threshold
-    let suiteThresholdPassed = false;
-    if (failOnThreshold !== undefined) {
-      const successRate = calculateSuccessRate(output.results.stats);
-
-      if (successRate === undefined) {
-        throw new PromptfooActionError(
-          `No tests were run - cannot calculate success rate`,
-          ErrorCodes.THRESHOLD_NOT_MET,
-          `Ensure your configuration includes valid tests to run`,
-        );
-      }
-
-      if (successRate < failOnThreshold) {
-        throw new PromptfooActionError(
-          `Evaluation success rate (${successRate.toFixed(
-            2,
-          )}%) is below the required threshold (${failOnThreshold}%)`,
-          ErrorCodes.THRESHOLD_NOT_MET,
-          `Consider adjusting your prompts or lowering the threshold`,
-        );
+      for (const { configRepositoryPath, output } of evaluations) {
+        if (isMultiConfig) {
+          core.info(`Config: ${configRepositoryPath}`);
+        }
+        core.info(`Success: ${output.results.stats.successes}`);
+        core.info(`Failure: ${output.results.stats.failures}`);
+        if (output.shareableUrl) {
+          core.info(`View results: ${output.shareableUrl}`);
+        }
       }
-
-      core.info(
-        `Suite threshold passed: ${successRate.toFixed(2)}% >= ${failOnThreshold}%`,
-      );
-      suiteThresholdPassed = true;
     }
 
-    // Preserve promptfoo's own explicit pass-rate threshold when this action
-    // suppresses Promptfoo's default failed-test exit code.
-    if (
-      promptfooPassRateThreshold !== undefined &&
-      promptfooSuiteSuccessRate !== undefined &&
-      promptfooSuiteSuccessRate < promptfooPassRateThreshold
-    ) {
-      throw new PromptfooActionError(
-        `Evaluation success rate (${promptfooSuiteSuccessRate.toFixed(
-          2,
-        )}%) is below PROMPTFOO_PASS_RATE_THRESHOLD (${promptfooPassRateThreshold}%)`,
-        ErrorCodes.THRESHOLD_NOT_MET,
-        'Consider adjusting your prompts or lowering PROMPTFOO_PASS_RATE_THRESHOLD',
-      );
+    if (checkRun && !resultsBundle) {
+      const checkRuns = evaluations.map((evaluation) => {
+        const { successes, failures } = evaluation.output.results.stats;
+        return {
+          config: evaluation.configRepositoryPath,
+          options: {
+            repo: github.context.repo,
+            name: getCheckRunName(evaluation.configRepositoryPath),
+            headSha,
+            title: `${successes} passed, ${failures} failed`,
+            summary: [
+              `**${successes} passed, ${failures} failed**\n`,
+              ...getReportSections(evaluation),
+              evaluation.output.shareableUrl
+                ? `[View eval results](${evaluation.output.shareableUrl})`
+                : 'View eval results in CI console',
+            ].join('\n'),
+            annotations: buildCheckAnnotations(
+              evaluation.evaluateResults,
+              evaluation.configRepositoryPath,
+              readTestLocations(evaluation.configAbsolutePath),
+            ),
+          },
+        };
+      });
+      publishCheckRuns = async (failedConfigs) => {
+        for (const { config, options } of checkRuns) {
+          const conclusion =
+            !failedConfigs || failedConfigs.has(config) ? 'failure' : 'success';
+          await createCheckRun(octokit, { ...options, conclusion });
+        }
+      };
     }
 
-    if (
-      promptfooPassRateThreshold !== undefined &&
-      promptfooSuiteSuccessRate !== undefined
-    ) {
-      core.info(
-        `Promptfoo pass-rate threshold passed: ${promptfooSuiteSuccessRate.toFixed(
-          2,
-        )}% >= ${promptfooPassRateThreshold}%`,
-      );
+    // Apply the thresholds to each config. With several configs every config
+    // is checked before failing, so the error lists all failing configs.
+    const gateFailures: ConfigGateFailure[] = [];
+    for (const evaluation of evaluations) {
+      try {
+        checkEvaluationGates(evaluation, {
+          failOnThreshold,
+          promptfooPassRateThreshold,
+          repeatMinPass,
+          failOnRegression,
+        });
+      } catch (error) {
+        if (!isMultiConfig) {
+          throw error;
+        }
+        failedConfigs.add(evaluation.configRepositoryPath);
+        gateFailures.push({
+          config: evaluation.configRepositoryPath,
+          error: error as PromptfooActionError,
+        });
+      }
     }
 
-    // Check per-test repeat threshold (already computed above for PR comments)
-    if (repeatCheckResult) {
-      if (repeatCheckResult.passed) {
-        core.info(
-          `Repeat check passed: all ${repeatCheckResult.summary.totalGroups} test(s) met minimum (${repeatCheckResult.summary.minPass} of ${repeatCheckResult.summary.repeatCount})`,
-        );
+    if (isMultiConfig && failOnThreshold !== undefined) {
+      const overallSuccessRate = calculateSuccessRate(totals);
+      if (
+        overallSuccessRate === undefined ||
+        overallSuccessRate < failOnThreshold
+      ) {
+        gateFailures.push({
+          config: 'overall',
+          error: new PromptfooActionError(
+            overallSuccessRate === undefined
+              ? 'No tests were run - cannot calculate success rate'
+              : `Success rate across all configs (${overallSuccessRate.toFixed(
+                  2,
+                )}%) is below the required threshold (${failOnThreshold}%)`,
+            ErrorCodes.THRESHOLD_NOT_MET,
+            'Consider adjusting your prompts or lowering the threshold',
+          ),
+        });
       } else {
-        throw new PromptfooActionError(
-          formatRepeatFailureMessage(repeatCheckResult.summary),
-          ErrorCodes.REPEAT_CHECK_FAILED,
-          'Consider adjusting your prompts or lowering repeat-min-pass',
+        core.info(
+          `Overall threshold passed: ${overallSuccessRate.toFixed(2)}% >= ${failOnThreshold}%`,
         );
       }
     }
 
-    // Handle the failed-test exit code.
-    // When thresholds are configured, the user explicitly opts into tolerating
-    // some test failures. Suppress only Promptfoo's test-failure exit after the
-    // configured action-level thresholds have passed.
-    if (isTestFailureExit) {
-      const repeatThresholdPassed =
-        repeatMinPass !== undefined && repeatCheckResult?.passed;
-      if (suiteThresholdPassed || repeatThresholdPassed) {
-        const passedThresholds = [
-          suiteThresholdPassed ? 'suite threshold' : undefined,
-          repeatThresholdPassed ? 'repeat minimum' : undefined,
-        ].filter(Boolean);
-        core.info(
-          `Promptfoo exited with test-failure code ${exitCode}, but ${passedThresholds.join(
-            ' and ',
-          )} passed.`,
-        );
-      } else {
-        throw new PromptfooActionError(
-          `Promptfoo evaluation failed (exit code ${exitCode})`,
-          ErrorCodes.PROMPTFOO_EXECUTION_FAILED,
-          'Some tests failed. Check the eval results for details.',
-        );
-      }
+    if (gateFailures.length > 0) {
+      throw combineConfigGateFailures(gateFailures);
     }
+
+    await publishCheckRuns?.(new Set());
+    await writeBundle?.();
   } catch (error) {
+    await publishCheckRuns?.(
+      failedConfigs.size > 0 ? failedConfigs : undefined,
+    );
+    try {
+      await writeBundle?.();
+    } catch (bundleError) {
+      core.warning(
+        `Could not write the results bundle: ${bundleError instanceof Error ? bundleError.message : String(bundleError)}`,
+      );
+    }
     if (error instanceof Error) {
       handleError(error);
     } else {
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import type { EvaluateResult, OutputFile } from 'promptfoo';
+import { ErrorCodes, PromptfooActionError } from './errors';
+import { escapeTableCell, getEvaluateResults } from './report';
+import { groupResultsByTest, type TestGroup } from './thresholds';
+
+/**
+ * Baseline comparison utilities. Results of the current run are matched
+ * against a baseline run (the PR base commit or a stored output file) per
+ * test, prompt and provider, using the same identity as the repeat check.
+ */
+
+export const BASELINE_MODES = ['none', 'base', 'file'] as const;
+export type BaselineMode = (typeof BASELINE_MODES)[number];
+
+export type ComparisonStatus =
+  | 'newly-failing'
+  | 'newly-passing'
+  | 'still-failing'
+  | 'still-passing'
+  | 'added'
+  | 'added-failing'
+  | 'removed';
+
+export interface TestComparison {
+  label: string;
+  status: ComparisonStatus;
+  head?: TestGroup;
+  base?: TestGroup;
+}
+
+export interface BaselineComparison {
+  baseline: string;
+  tests: TestComparison[];
+  counts: Record<ComparisonStatus, number>;
+}
+
+export interface CompareOptions {
+  baseline: string;
+  minPass?: number;
+  repeatCount?: number;
+}
+
+const MAX_COMPARISON_ROWS = 25;
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  'newly-failing': '🔴 Newly failing',
+  'newly-passing': '🟢 Newly passing',
+  'still-failing': '⚪ Still failing',
+  'still-passing': 'Still passing',
+  added: '🆕 New test',
+  'added-failing': '🔴 New failing test',
+  removed: '➖ Removed test',
+};
+
+// Order of rows in the comparison table; still-passing tests are only counted.
+const STATUS_ORDER: ComparisonStatus[] = [
+  'newly-failing',
+  'added-failing',
+  'still-failing',
+  'newly-passing',
+  'added',
+  'removed',
+];
+
+/**
+ * Reads the per-test results from a stored promptfoo JSON output file.
+ */
+export function readBaselineResults(filePath: string): EvaluateResult[] {
+  let output: OutputFile;
+  try {
+    output = JSON.parse(fs.readFileSync(filePath, 'utf8')) as OutputFile;
+  } catch (error) {
+    throw new PromptfooActionError(
+      `Failed to read baseline output ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCodes.BASELINE_FAILED,
+      'Provide a JSON file written by promptfoo eval --output',
+    );
+  }
+  if (!output?.results) {
+    throw new PromptfooActionError(
+      `Baseline output ${filePath} does not contain promptfoo results`,
+      ErrorCodes.BASELINE_FAILED,
+      'Provide a JSON file written by promptfoo eval --output',
+    );
+  }
+  return getEvaluateResults(output);
+}
+
+function groupPassed(group: TestGroup, minPass?: number): boolean {
+  return group.successes >= (minPass ?? group.total);
+}
+
+function getStatus(
+  head: TestGroup | undefined,
+  base: TestGroup | undefined,
+  minPass?: number,
+): ComparisonStatus {
+  if (!head) {
+    return 'removed';
+  }
+  const headPassed = groupPassed(head, minPass);
+  if (!base) {
+    return headPassed ? 'added' : 'added-failing';
+  }
+  if (groupPassed(base, minPass)) {
+    return headPassed ? 'still-passing' : 'newly-failing';
+  }
+  return headPassed ? 'newly-passing' : 'still-failing';
+}
+
+/**
+ * Compares current results with baseline results test by test. A test passes
+ * when all of its runs pass, or at least minPass runs when repeat-min-pass is
+ * configured.
+ */
+export function compareWithBaseline(
+  head: EvaluateResult[],
+  base: EvaluateResult[],
+  options: CompareOptions,
+): BaselineComparison {
+  const headGroups = groupResultsByTest(head, options.repeatCount);
+  const baseGroups = groupResultsByTest(base, options.repeatCount);
+  const counts: Record<ComparisonStatus, number> = {
+    'newly-failing': 0,
+    'newly-passing': 0,
+    'still-failing': 0,
+    'still-passing': 0,
+    added: 0,
+    'added-failing': 0,
+    removed: 0,
+  };
+
+  const tests: TestComparison[] = [];
+  const keys = new Set([...headGroups.keys(), ...baseGroups.keys()]);
+  for (const key of keys) {
+    const headGroup = headGroups.get(key);
+    const baseGroup = baseGroups.get(key);
+    const status = getStatus(headGroup, baseGroup, options.minPass);
+    counts[status]++;
+    tests.push({
+      label: (headGroup || (baseGroup as TestGroup)).label,
+      status,
+      ...(headGroup ? { head: headGroup } : {}),
+      ...(baseGroup ? { base: baseGroup } : {}),
+    });
+  }
+
+  return { baseline: options.baseline, tests, counts };
+}
+
+/**
+ * Counts the tests that fail now without failing on the baseline. A failing
+ * new test counts too: editing a test's description or vars gives it a new
+ * identity, so it would otherwise slip past the regression check.
+ */
+export function countRegressions(comparison: BaselineComparison): number {
+  return (
+    comparison.counts['newly-failing'] + comparison.counts['added-failing']
+  );
+}
+
+function formatRuns(group: TestGroup | undefined): string {
+  return group ? `${group.successes}/${group.total}` : '-';
+}
+
+export function formatComparisonMarkdown(
+  comparison: BaselineComparison,
+): string {
+  const { counts } = comparison;
+  const parts = [
+    `${counts['newly-failing']} newly failing`,
+    `${counts['newly-passing']} newly passing`,
+    `${counts['still-failing']} still failing`,
+    `${counts['still-passing']} still passing`,
+  ];
+  if (counts['added-failing'] > 0) {
+    parts.push(`${counts['added-failing']} new failing`);
+  }
+  if (counts.added > 0) {
+    parts.push(`${counts.added} new`);
+  }
+  if (counts.removed > 0) {
+    parts.push(`${counts.removed} removed`);
+  }
+  let md = `**Baseline comparison** (vs ${comparison.baseline}): ${parts.join(', ')}\n`;
+
+  const rows = STATUS_ORDER.flatMap((status) =>
+    comparison.tests.filter((test) => test.status === status),
+  );
+  if (rows.length === 0) {
+    return md;
+  }
+
+  const shown = rows.slice(0, MAX_COMPARISON_ROWS);
+  md += '\n| Change | Test | Baseline | Current |\n';
+  md += '|--------|------|----------|---------|\n';
+  for (const row of shown) {
+    md += `| ${STATUS_LABELS[row.status]} | ${escapeTableCell(row.label)} | ${formatRuns(row.base)} | ${formatRuns(row.head)} |\n`;
+  }
+  if (rows.length > shown.length) {
+    md += `\n_...and ${rows.length - shown.length} more changed test(s)._\n`;
+  }
+  return md;
+}
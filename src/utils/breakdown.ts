@@ -0,0 +1,137 @@
+import type { EvaluateResult } from 'promptfoo';
+import { escapeTableCell, getPromptLabel, getProviderLabel } from './report';
+
+/**
+ * Breakdown utilities that split the suite pass rate by provider and by
+ * prompt, so a weak provider or prompt variant is not hidden by the totals.
+ */
+
+export interface BreakdownRow {
+  name: string;
+  passed: number;
+  failed: number;
+  total: number;
+  passRate: number;
+}
+
+export interface ProviderBreakdownRow extends BreakdownRow {
+  id: string;
+}
+
+export interface PromptBreakdownRow extends BreakdownRow {
+  index: number;
+}
+
+export interface ResultBreakdown {
+  providers: ProviderBreakdownRow[];
+  prompts: PromptBreakdownRow[];
+}
+
+function addResult<T extends BreakdownRow>(
+  rows: Map<string, T>,
+  key: string,
+  create: () => T,
+  success: boolean,
+): void {
+  let row = rows.get(key);
+  if (!row) {
+    row = create();
+    rows.set(key, row);
+  }
+  row.total++;
+  if (success) {
+    row.passed++;
+  } else {
+    row.failed++;
+  }
+}
+
+function withPassRates<T extends BreakdownRow>(rows: Map<string, T>): T[] {
+  return Array.from(rows.values(), (row) => ({
+    ...row,
+    passRate: Math.round((row.passed / row.total) * 1000) / 10,
+  }));
+}
+
+/**
+ * Counts passing and failing results per provider and per prompt. Providers
+ * with a label are reported separately from other providers sharing the same
+ * id; prompts are keyed by their index in the config.
+ */
+export function getResultBreakdown(results: EvaluateResult[]): ResultBreakdown {
+  const providers = new Map<string, ProviderBreakdownRow>();
+  const prompts = new Map<string, PromptBreakdownRow>();
+
+  for (const result of results) {
+    const providerName = getProviderLabel(result);
+    addResult(
+      providers,
+      providerName,
+      () => ({
+        name: providerName,
+        id: result.provider?.id || providerName,
+        passed: 0,
+        failed: 0,
+        total: 0,
+        passRate: 0,
+      }),
+      result.success,
+    );
+    addResult(
+      prompts,
+      String(result.promptIdx),
+      () => ({
+        name: getPromptLabel(result),
+        index: result.promptIdx,
+        passed: 0,
+        failed: 0,
+        total: 0,
+        passRate: 0,
+      }),
+      result.success,
+    );
+  }
+
+  return {
+    providers: withPassRates(providers),
+    prompts: withPassRates(prompts).sort((a, b) => a.index - b.index),
+  };
+}
+
+function formatBreakdownTable(
+  title: string,
+  column: string,
+  rows: BreakdownRow[],
+): string {
+  let md = `**${title}**\n\n`;
+  md += `| ${column} | Passed | Failed | Pass rate |\n`;
+  md += `|${'-'.repeat(column.length + 2)}|--------|--------|-----------|\n`;
+  for (const row of rows) {
+    md += `| ${escapeTableCell(row.name)} | ${row.passed} | ${row.failed} | ${row.passRate}% |\n`;
+  }
+  return md;
+}
+
+/**
+ * Renders the provider and prompt tables. A table is only shown when the run
+ * covers more than one provider or prompt, since a single row repeats the
+ * suite totals.
+ */
+export function formatBreakdownMarkdown(breakdown: ResultBreakdown): string {
+  const tables: string[] = [];
+  if (breakdown.providers.length > 1) {
+    tables.push(
+      formatBreakdownTable(
+        'Results by provider',
+        'Provider',
+        breakdown.providers,
+      ),
+    );
+  }
+  if (breakdown.prompts.length > 1) {
+    tables.push(
+      formatBreakdownTable('Results by prompt', 'Prompt', breakdown.prompts),
+    );
+  }
+  return tables.join('\n');
+}
@@ -0,0 +1,426 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CheckConclusion } from './checks';
+import { ErrorCodes, PromptfooActionError } from './errors';
+import { formatConfigOverviewMarkdown } from './multi-config';
+import {
+  escapeMarkdown,
+  type FailureDetail,
+  formatFailuresMarkdown,
+} from './report';
+import { SKIP_DESCRIPTION } from './run-reason';
+import {
+  formatRepeatCommentMarkdown,
+  type GroupingError,
+  type RepeatSummary,
+  type TestFailure,
+} from './thresholds';
+
+/**
+ * Results bundle utilities for the two-phase fork workflow. With
+ * `mode: report` the evaluation job, which has no write token on fork pull
+ * requests, writes the structured results of each config to a JSON file. A
+ * `workflow_run` job with `mode: comment` reads that file and renders the PR
+ * comment and Check Runs from it. The bundle comes from a run of untrusted
+ * code, so it carries no text to post as-is: every field is validated, every
+ * string is escaped when rendered, and results are only posted to the pull
+ * request whose head commit the triggering run built.
+ */
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export const ACTION_MODES = ['evaluate', 'report', 'comment'] as const;
+export type ActionMode = (typeof ACTION_MODES)[number];
+
+export const DEFAULT_RESULTS_BUNDLE = 'promptfoo-results.json';
+export const RESULTS_BUNDLE_VERSION = 2;
+
+// Config paths end up in comment headings, Check Run names and the comment
+// marker, so characters that could break out of those are rejected
+const UNSAFE_CONFIG_PATH_PATTERN = /[\p{Cc}`<>|]/u;
+// promptfoo assertion types, such as contains-json or promptfoo:redteam:pii
+const ASSERTION_TYPE_PATTERN = /^[\w.:-]+$/;
+const GROUPING_ERROR_KINDS: GroupingError['kind'][] = ['partial', 'ambiguous'];
+
+/** A failing test, without the model output, which is never bundled. */
+export type BundledFailure = Omit<FailureDetail, 'output'>;
+
+export interface BundledConfig {
+  /** Repository-relative config path. */
+  config: string;
+  /** Undefined when the config was skipped because nothing it uses changed. */
+  stats?: { successes: number; failures: number; errors: number };
+  failures: BundledFailure[];
+  repeatSummary?: RepeatSummary;
+}
+
+export interface ResultsBundle {
+  version: typeof RESULTS_BUNDLE_VERSION;
+  pullRequestNumber: number;
+  headSha: string;
+  /** Job that wrote the bundle, part of the PR comment marker. */
+  job: string;
+  configs: BundledConfig[];
+}
+
+export async function writeResultsBundle(
+  filePath: string,
+  bundle: ResultsBundle,
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(bundle, null, 2));
+}
+
+function invalidBundle(detail: string): PromptfooActionError {
+  return new PromptfooActionError(
+    `Invalid results bundle: ${detail}`,
+    ErrorCodes.INVALID_RESULTS_BUNDLE,
+    'Download the file written by the mode: report job without modifying it',
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function parseFailure(
+  value: unknown,
+  index: number,
+  failureIndex: number,
+): BundledFailure {
+  if (
+    !isRecord(value) ||
+    !isText(value.test) ||
+    !isText(value.provider) ||
+    !isText(value.prompt) ||
+    !isText(value.reason) ||
+    !(
+      value.assertionType === undefined ||
+      (isText(value.assertionType) &&
+        ASSERTION_TYPE_PATTERN.test(value.assertionType))
+    ) ||
+    !isCount(value.failedRuns) ||
+    !isCount(value.totalRuns)
+  ) {
+    throw invalidBundle(
+      `configs[${index}].failures[${failureIndex}] is not a failing test`,
+    );
+  }
+  return {
+    test: value.test,
+    provider: value.provider,
+    prompt: value.prompt,
+    assertionType: value.assertionType,
+    reason: value.reason,
+    failedRuns: value.failedRuns,
+    totalRuns: value.totalRuns,
+  };
+}
+
+function parseTestFailure(value: unknown): TestFailure | undefined {
+  if (
+    !isRecord(value) ||
+    !isText(value.label) ||
+    !isCount(value.passed) ||
+    !isCount(value.total)
+  ) {
+    return undefined;
+  }
+  return { label: value.label, passed: value.passed, total: value.total };
+}
+
+function parseGroupingError(value: unknown): GroupingError | undefined {
+  if (
+    !isRecord(value) ||
+    !isText(value.label) ||
+    !isCount(value.actual) ||
+    !isCount(value.expected) ||
+    !GROUPING_ERROR_KINDS.includes(value.kind as GroupingError['kind'])
+  ) {
+    return undefined;
+  }
+  return {
+    label: value.label,
+    actual: value.actual,
+    expected: value.expected,
+    kind: value.kind as GroupingError['kind'],
+  };
+}
+
+function parseRepeatSummary(
+  value: unknown,
+  index: number,
+): RepeatSummary | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const invalid = () =>
+    invalidBundle(`configs[${index}].repeatSummary is incomplete`);
+  if (
+    !isRecord(value) ||
+    !isCount(value.totalGroups) ||
+    !isCount(value.minPass) ||
+    !isCount(value.repeatCount) ||
+    !Array.isArray(value.failures) ||
+    !Array.isArray(value.groupingErrors)
+  ) {
+    throw invalid();
+  }
+  const failures = value.failures.map(parseTestFailure);
+  const groupingErrors = value.groupingErrors.map(parseGroupingError);
+  if (failures.includes(undefined) || groupingErrors.includes(undefined)) {
+    throw invalid();
+  }
+  return {
+    totalGroups: value.totalGroups,
+    failures: failures as TestFailure[],
+    groupingErrors: groupingErrors as GroupingError[],
+    minPass: value.minPass,
+    repeatCount: value.repeatCount,
+  };
+}
+
+function parseConfig(value: unknown, index: number): BundledConfig {
+  if (
+    !isRecord(value) ||
+    !isText(value.config) ||
+    !value.config ||
+    UNSAFE_CONFIG_PATH_PATTERN.test(value.config)
+  ) {
+    throw invalidBundle(`configs[${index}] must have a config path`);
+  }
+  const { stats } = value;
+  if (
+    stats !== undefined &&
+    !(
+      isRecord(stats) &&
+      isCount(stats.successes) &&
+      isCount(stats.failures) &&
+      isCount(stats.errors)
+    )
+  ) {
+    throw invalidBundle(`configs[${index}].stats must hold result counts`);
+  }
+  const failures = value.failures ?? [];
+  if (!Array.isArray(failures)) {
+    throw invalidBundle(`configs[${index}].failures must be a list`);
+  }
+  return {
+    config: value.config,
+    stats: stats && {
+      successes: stats.successes as number,
+      failures: stats.failures as number,
+      errors: stats.errors as number,
+    },
+    failures: failures.map((failure, failureIndex) =>
+      parseFailure(failure, index, failureIndex),
+    ),
+    repeatSummary: parseRepeatSummary(value.repeatSummary, index),
+  };
+}
+
+/**
+ * Reads and validates a results bundle. Unknown fields are dropped so only
+ * validated values are rendered.
+ */
+export function readResultsBundle(filePath: string): ResultsBundle {
+  let value: unknown;
+  try {
+    value = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new PromptfooActionError(
+      `Failed to read results bundle ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCodes.INVALID_RESULTS_BUNDLE,
+      'Download the artifact uploaded by the mode: report job before this step',
+    );
+  }
+
+  if (!isRecord(value) || value.version !== RESULTS_BUNDLE_VERSION) {
+    throw invalidBundle(
+      `expected version ${RESULTS_BUNDLE_VERSION}; use the same action version for both jobs`,
+    );
+  }
+  if (
+    !Number.isInteger(value.pullRequestNumber) ||
+    (value.pullRequestNumber as number) < 1
+  ) {
+    throw invalidBundle('pullRequestNumber must be a positive integer');
+  }
+  if (
+    typeof value.headSha !== 'string' ||
+    !/^[0-9a-f]{40}$/i.test(value.headSha)
+  ) {
+    throw invalidBundle('headSha must be a 40-character commit SHA');
+  }
+  if (typeof value.job !== 'string') {
+    throw invalidBundle('job must be a string');
+  }
+  if (!Array.isArray(value.configs)) {
+    throw invalidBundle('configs must be a list');
+  }
+
+  return {
+    version: RESULTS_BUNDLE_VERSION,
+    pullRequestNumber: value.pullRequestNumber as number,
+    headSha: value.headSha,
+    job: value.job,
+    configs: value.configs.map(parseConfig),
+  };
+}
+
+/**
+ * Checks that a bundle belongs to the workflow run that triggered the
+ * comment job: the run built the bundle's head commit, and the bundle's pull
+ * request in this repository is at that commit. Returns false when the pull
+ * request has moved on since, because the run for its new head reports
+ * instead.
+ */
+export async function verifyResultsBundle(
+  octokit: Octokit,
+  repo: { owner: string; repo: string },
+  bundle: ResultsBundle,
+  workflowRunHeadSha: string,
+): Promise<boolean> {
+  if (bundle.headSha !== workflowRunHeadSha) {
+    throw new PromptfooActionError(
+      `Results bundle is for commit ${bundle.headSha}, but the triggering workflow run built ${workflowRunHeadSha}`,
+      ErrorCodes.INVALID_RESULTS_BUNDLE,
+      'Download the artifact from the triggering run by setting run-id to github.event.workflow_run.id',
+    );
+  }
+  const { data: pullRequest } = await octokit.rest.pulls.get({
+    ...repo,
+    pull_number: bundle.pullRequestNumber,
+  });
+  if (pullRequest.head.sha !== workflowRunHeadSha) {
+    core.info(
+      `Pull request #${bundle.pullRequestNumber} is now at ${pullRequest.head.sha}, not at the evaluated commit ${workflowRunHeadSha}. Skipping the outdated results.`,
+    );
+    return false;
+  }
+  return true;
+}
+
+function escapeFailure(failure: BundledFailure): BundledFailure {
+  return {
+    ...failure,
+    test: escapeMarkdown(failure.test),
+    provider: escapeMarkdown(failure.provider),
+    prompt: escapeMarkdown(failure.prompt),
+    reason: escapeMarkdown(failure.reason),
+  };
+}
+
+function escapeRepeatSummary(summary: RepeatSummary): RepeatSummary {
+  return {
+    ...summary,
+    failures: summary.failures.map((failure) => ({
+      ...failure,
+      label: escapeMarkdown(failure.label),
+    })),
+    groupingErrors: summary.groupingErrors.map((groupingError) => ({
+      ...groupingError,
+      label: escapeMarkdown(groupingError.label),
+    })),
+  };
+}
+
+/**
+ * Renders the results of an evaluated config: the counts, the repeat check
+ * and the failing tests.
+ */
+export function formatBundledResults(
+  config: BundledConfig & { stats: NonNullable<BundledConfig['stats']> },
+): string {
+  const { successes, failures } = config.stats;
+  let md = `| Success | Failure |\n|---------|---------|\n| ${successes}      | ${failures}       |\n\n`;
+  if (config.repeatSummary) {
+    md += `${formatRepeatCommentMarkdown(escapeRepeatSummary(config.repeatSummary))}\n`;
+  }
+  const failuresMarkdown = formatFailuresMarkdown(
+    config.failures.map(escapeFailure),
+  );
+  if (failuresMarkdown) {
+    md += `${failuresMarkdown}\n`;
+  }
+  return `${md}**» View eval results in the CI console of the evaluation run «**`;
+}
+
+/**
+ * Renders the PR comment for a bundle. Returns undefined when every config
+ * was skipped.
+ */
+export function formatBundleComment(bundle: ResultsBundle): string | undefined {
+  const evaluated = bundle.configs.filter(
+    (config): config is Parameters<typeof formatBundledResults>[0] =>
+      config.stats !== undefined,
+  );
+  if (evaluated.length === 0) {
+    return undefined;
+  }
+  if (bundle.configs.length === 1) {
+    return formatBundledResults(evaluated[0]);
+  }
+  const successes = evaluated.reduce(
+    (sum, config) => sum + config.stats.successes,
+    0,
+  );
+  const failures = evaluated.reduce(
+    (sum, config) => sum + config.stats.failures,
+    0,
+  );
+  let body = `**promptfoo evaluated ${evaluated.length} of ${bundle.configs.length} configs**: ${successes} passed, ${failures} failed\n\n${formatConfigOverviewMarkdown(bundle.configs)}`;
+  for (const config of bundle.configs) {
+    body += `\n### \`${config.config}\`\n\n`;
+    body +=
+      config.stats !== undefined
+        ? formatBundledResults({ ...config, stats: config.stats })
+        : `_Skipped: ${SKIP_DESCRIPTION}._\n`;
+  }
+  return body;
+}
+
+/**
+ * Derives the Check Run conclusion of a bundled config from its counts and
+ * repeat check, with the threshold of the comment job. The gates of the
+ * evaluation run are not trusted. As in evaluate mode, failing tests fail the
+ * check unless the threshold or the repeat minimum tolerates them.
+ */
+export function getBundledConclusion(
+  config: BundledConfig,
+  failOnThreshold: number | undefined,
+): CheckConclusion {
+  if (!config.stats) {
+    return 'neutral';
+  }
+  const { repeatSummary } = config;
+  if (
+    repeatSummary &&
+    (repeatSummary.failures.length > 0 ||
+      repeatSummary.groupingErrors.length > 0)
+  ) {
+    return 'failure';
+  }
+  const { successes, failures, errors } = config.stats;
+  if (failOnThreshold !== undefined) {
+    const total = successes + failures + errors;
+    return total === 0 || (successes / total) * 100 < failOnThreshold
+      ? 'failure'
+      : 'success';
+  }
+  // A repeat summary is only bundled with repeat-min-pass, which it passed
+  if (repeatSummary) {
+    return 'success';
+  }
+  return failures + errors > 0 ? 'failure' : 'success';
+}
@@ -0,0 +1,221 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import * as fs from 'fs';
+import type { EvaluateResult } from 'promptfoo';
+import {
+  getFailureReason,
+  getPromptLabel,
+  getProviderLabel,
+  getTestLabel,
+} from './report';
+import { buildGroupKey } from './thresholds';
+
+/**
+ * Check Run utilities. The action reports each evaluated config as a Check
+ * Run so the result shows up in the PR checks list, with an annotation on the
+ * config line that defines each failing test.
+ */
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+// GitHub accepts at most 50 annotations per Check Run request and 65535
+// characters of summary text.
+export const MAX_CHECK_ANNOTATIONS = 50;
+const MAX_CHECK_SUMMARY_LENGTH = 65535;
+
+export type CheckConclusion = 'success' | 'failure' | 'neutral';
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'failure';
+  title: string;
+  message: string;
+}
+
+export interface TestLocation {
+  line: number;
+  description?: string;
+}
+
+export interface TestLocations {
+  testsLine?: number;
+  tests: TestLocation[];
+}
+
+export interface CheckRunOptions {
+  repo: { owner: string; repo: string };
+  name: string;
+  headSha: string;
+  conclusion: CheckConclusion;
+  title: string;
+  summary: string;
+  annotations?: CheckAnnotation[];
+}
+
+export function getCheckRunName(configPath: string): string {
+  return `promptfoo: ${configPath}`;
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function parseScalar(value: string): string {
+  const quoted = /^(['"])(.*)\1/.exec(value);
+  if (quoted) {
+    return quoted[2];
+  }
+  return value.replace(/\s+#.*$/, '').trim();
+}
+
+/**
+ * Finds the line of each inline test in a YAML config. This is a line-based
+ * scan of the top-level `tests:` block, so it only needs the config text and
+ * never fails on YAML it does not understand; tests that cannot be located
+ * fall back to the `tests:` line.
+ */
+export function locateTests(content: string): TestLocations {
+  const lines = content.split(/\r?\n/);
+  const start = lines.findIndex((line) => /^tests\s*:/.test(line));
+  if (start === -1) {
+    return { tests: [] };
+  }
+
+  const locations: TestLocations = { testsLine: start + 1, tests: [] };
+  // An inline value such as `tests: file://tests.csv` has no test items
+  if (parseScalar(lines[start].replace(/^tests\s*:/, ''))) {
+    return locations;
+  }
+
+  let itemIndent: number | undefined;
+  let keyIndent: number | undefined;
+  let current: TestLocation | undefined;
+  for (let index = start + 1; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+    const indent = getIndent(line);
+    itemIndent ??= indent;
+    const isItem = indent === itemIndent && /^-(\s|$)/.test(trimmed);
+    if (indent < itemIndent || (indent === itemIndent && !isItem)) {
+      break;
+    }
+
+    let entry = trimmed;
+    if (isItem) {
+      const key = trimmed.replace(/^-\s*/, '');
+      // A bare "-" puts the item's keys on the following lines
+      keyIndent = key ? indent + trimmed.length - key.length : undefined;
+      current = { line: index + 1 };
+      locations.tests.push(current);
+      entry = key;
+    } else {
+      keyIndent ??= indent;
+      if (indent !== keyIndent) {
+        continue;
+      }
+    }
+
+    const description = /^description\s*:\s*(.+)$/.exec(entry);
+    if (description && current && current.description === undefined) {
+      current.description = parseScalar(description[1]);
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Reads a config file and locates its tests. Unreadable files have no known
+ * test lines, so annotations point at the first line of the config.
+ */
+export function readTestLocations(configPath: string): TestLocations {
+  try {
+    return locateTests(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    core.debug(`Could not read ${configPath} to locate tests: ${error}`);
+    return { tests: [] };
+  }
+}
+
+function findTestLine(
+  result: EvaluateResult,
+  locations: TestLocations,
+): number {
+  const description = result.testCase?.description || result.description;
+  const byDescription = description
+    ? locations.tests.find((test) => test.description === description)
+    : undefined;
+  return (
+    byDescription?.line ??
+    locations.tests[result.testIdx]?.line ??
+    locations.testsLine ??
+    1
+  );
+}
+
+/**
+ * Builds one failure annotation per failing test, prompt and provider, capped
+ * at the number of annotations GitHub accepts in a single request.
+ */
+export function buildCheckAnnotations(
+  results: EvaluateResult[],
+  configPath: string,
+  locations: TestLocations,
+): CheckAnnotation[] {
+  const annotations = new Map<string, CheckAnnotation>();
+  for (const result of results) {
+    const key = buildGroupKey(result);
+    if (result.success || annotations.has(key)) {
+      continue;
+    }
+    const line = findTestLine(result, locations);
+    const { assertionType, reason } = getFailureReason(result);
+    annotations.set(key, {
+      path: configPath,
+      start_line: line,
+      end_line: line,
+      annotation_level: 'failure',
+      title: `${getTestLabel(result)} [${getProviderLabel(result)}]`,
+      message: `${assertionType ? `${assertionType}: ` : ''}${reason}\nPrompt: ${getPromptLabel(result)}`,
+    });
+  }
+  return Array.from(annotations.values()).slice(0, MAX_CHECK_ANNOTATIONS);
+}
+
+/**
+ * Creates a completed Check Run on the given commit. Failures are reported as
+ * warnings because the checks list is supplementary to the action's own result.
+ */
+export async function createCheckRun(
+  octokit: Octokit,
+  options: CheckRunOptions,
+): Promise<void> {
+  const summary =
+    options.summary.length > MAX_CHECK_SUMMARY_LENGTH
+      ? `${options.summary.slice(0, MAX_CHECK_SUMMARY_LENGTH - 100)}\n\n_Summary truncated._`
+      : options.summary;
+  try {
+    await octokit.rest.checks.create({
+      ...options.repo,
+      name: options.name,
+      head_sha: options.headSha,
+      status: 'completed',
+      conclusion: options.conclusion,
+      output: {
+        title: options.title,
+        summary,
+        annotations: options.annotations || [],
+      },
+    });
+    core.info(`Created check run "${options.name}" (${options.conclusion})`);
+  } catch (error) {
+    core.warning(
+      `Failed to create check run "${options.name}": ${error instanceof Error ? error.message : String(error)}. Make sure the workflow has "checks: write" permission.`,
+    );
+  }
+}
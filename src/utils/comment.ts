@@ -0,0 +1,219 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import * as crypto from 'crypto';
+import { escapeTableCell } from './report';
+
+/**
+ * Pull request comment utilities. The action marks its comments with a hidden
+ * HTML marker so later runs can update the same comment in place instead of
+ * posting a new one for every push.
+ */
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export const COMMENT_MODES = ['update', 'create'] as const;
+export type CommentMode = (typeof COMMENT_MODES)[number];
+
+const MAX_COMMENT_HISTORY = 20;
+const HISTORY_PATTERN = /<!-- promptfoo-action:history:(.*?) -->/;
+
+export interface CommentRun {
+  sha: string;
+  successes: number;
+  failures: number;
+  errors: number;
+  timestamp: string;
+}
+
+export interface PullRequestCommentOptions {
+  repo: { owner: string; repo: string };
+  issueNumber: number;
+  marker: string;
+  body: string;
+  run: CommentRun;
+  mode: CommentMode;
+  hideOutdated: boolean;
+}
+
+interface IssueComment {
+  id: number;
+  node_id: string;
+  body?: string;
+  user?: { login: string; type: string } | null;
+}
+
+/**
+ * Build the hidden marker that identifies this action's comment for a config
+ * and job, so separate configs or jobs in one PR keep separate comments.
+ */
+export function getCommentMarker(configPath: string, job = ''): string {
+  const key = crypto
+    .createHash('sha256')
+    .update(`${configPath}|${job}`)
+    .digest('hex')
+    .substring(0, 16);
+  return `<!-- promptfoo-action:comment:${key} -->`;
+}
+
+export function isCommentRun(value: unknown): value is CommentRun {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const run = value as Record<string, unknown>;
+  return (
+    typeof run.sha === 'string' &&
+    typeof run.successes === 'number' &&
+    typeof run.failures === 'number' &&
+    typeof run.errors === 'number' &&
+    typeof run.timestamp === 'string'
+  );
+}
+
+/**
+ * Read the run history stored in a previous comment body, newest first.
+ * Malformed or missing history is treated as empty.
+ */
+export function parseCommentRuns(body: string): CommentRun[] {
+  const match = HISTORY_PATTERN.exec(body);
+  if (!match) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(match[1]);
+    return Array.isArray(parsed) ? parsed.filter(isCommentRun) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function formatCommentHistory(runs: CommentRun[]): string {
+  if (runs.length === 0) {
+    return '';
+  }
+
+  let md = `<details>\n<summary>Previous runs (${runs.length})</summary>\n\n`;
+  md += '| Commit | Success | Failure | Errors | Date |\n';
+  md += '|--------|---------|---------|--------|------|\n';
+  for (const run of runs) {
+    md += `| ${escapeTableCell(run.sha.substring(0, 7)) || '-'} | ${run.successes} | ${run.failures} | ${run.errors} | ${escapeTableCell(run.timestamp)} |\n`;
+  }
+  md += '\n</details>\n';
+  return md;
+}
+
+/**
+ * Render the full comment body: marker, current report, collapsed history of
+ * earlier runs, and the machine-readable history for the next update.
+ */
+export function renderComment(
+  marker: string,
+  body: string,
+  runs: CommentRun[],
+): string {
+  const history = formatCommentHistory(runs.slice(1));
+  const state = JSON.stringify(runs.slice(0, MAX_COMMENT_HISTORY + 1));
+  return `${marker}\n${body}\n${history ? `\n${history}` : ''}\n<!-- promptfoo-action:history:${state} -->\n`;
+}
+
+/**
+ * The login of the token's user, or undefined for installation tokens such as
+ * GITHUB_TOKEN, which cannot read their own user and comment as a bot.
+ */
+export async function getTokenLogin(
+  octokit: Octokit,
+): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.rest.users.getAuthenticated();
+    return data.login;
+  } catch {
+    return undefined;
+  }
+}
+
+async function hideOutdatedComments(
+  octokit: Octokit,
+  comments: IssueComment[],
+): Promise<void> {
+  for (const comment of comments) {
+    try {
+      await octokit.graphql(
+        `mutation($subjectId: ID!) {
+          minimizeComment(input: { subjectId: $subjectId, classifier: OUTDATED }) {
+            clientMutationId
+          }
+        }`,
+        { subjectId: comment.node_id },
+      );
+      core.debug(`Minimized outdated comment ${comment.id}`);
+    } catch (error) {
+      core.warning(
+        `Failed to minimize outdated comment ${comment.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Post the action's PR comment. In "update" mode the token's previous comment
+ * with the same marker is edited in place and its run history carried forward; in
+ * "create" mode a new comment is posted every run.
+ */
+export async function postPullRequestComment(
+  octokit: Octokit,
+  options: PullRequestCommentOptions,
+): Promise<void> {
+  const comments = (await octokit.paginate(octokit.rest.issues.listComments, {
+    ...options.repo,
+    issue_number: options.issueNumber,
+    per_page: 100,
+  })) as IssueComment[];
+  // Anyone can post a marked comment, so only the token's own comments are
+  // updated and have their history carried forward
+  const login = await getTokenLogin(octokit);
+  const previous = comments.filter(
+    (comment) =>
+      typeof comment.body === 'string' &&
+      comment.body.startsWith(options.marker) &&
+      (login !== undefined
+        ? comment.user?.login === login
+        : comment.user?.type === 'Bot'),
+  );
+  const latest =
+    options.mode === 'update' ? previous[previous.length - 1] : undefined;
+
+  const runs = latest
+    ? [options.run, ...parseCommentRuns(latest.body as string)]
+    : [options.run];
+  const body = renderComment(options.marker, options.body, runs);
+
+  let updated = false;
+  if (latest) {
+    try {
+      await octokit.rest.issues.updateComment({
+        ...options.repo,
+        comment_id: latest.id,
+        body,
+      });
+      updated = true;
+      core.info(`Updated existing PR comment ${latest.id}`);
+    } catch (error) {
+      core.warning(
+        `Failed to update PR comment ${latest.id}, posting a new one instead: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  if (!updated) {
+    await octokit.rest.issues.createComment({
+      ...options.repo,
+      issue_number: options.issueNumber,
+      body,
+    });
+  }
+
+  if (options.hideOutdated) {
+    await hideOutdatedComments(
+      octokit,
+      updated ? previous.filter((comment) => comment !== latest) : previous,
+    );
+  }
+}
@@ -3,32 +3,211 @@ import * as fs from 'fs';
 import * as glob from 'glob';
 import { CORE_SCHEMA, load as loadYaml, mergeTag } from 'js-yaml';
 import * as path from 'path';
-import { isDirectory } from './fs';
+import { resolveImportDependencies } from './dependencies';
+import { isDirectory, isPathInside } from './fs';
+
+export interface PromptfooTestCase {
+  vars?: { [key: string]: string | { file?: string } };
+  assert?: Array<{ type?: string; value?: string | { file?: string } }>;
+  [key: string]: unknown;
+}
+
+/**
+ * Tests can be listed inline or loaded from files, either with a single
+ * `file://` reference (optionally a glob) or as file references mixed into the
+ * list of test cases.
+ */
+export type PromptfooTests = string | Array<string | PromptfooTestCase>;
+
+export interface PromptfooScenario {
+  config?: Array<Omit<PromptfooTestCase, 'assert'>>;
+  tests?: PromptfooTests;
+  [key: string]: unknown;
+}
 
 export interface PromptfooConfig {
   providers?: Array<string | { id?: string; [key: string]: unknown }>;
   prompts?: Array<string | { file?: string; [key: string]: unknown }>;
-  tests?: Array<{
-    vars?: { [key: string]: string | { file?: string } };
-    assert?: Array<{ type?: string; value?: string | { file?: string } }>;
-    [key: string]: unknown;
-  }>;
+  tests?: PromptfooTests;
+  scenarios?: string | Array<string | PromptfooScenario>;
   defaultTest?: {
     vars?: { [key: string]: string | { file?: string } };
     assert?: Array<{ type?: string; value?: string | { file?: string } }>;
   };
 }
 
-function isPathInside(baseDir: string, targetPath: string): boolean {
-  const relativePath = path.relative(baseDir, targetPath);
-  return (
-    relativePath === '' ||
-    (relativePath !== '..' &&
-      !relativePath.startsWith(`..${path.sep}`) &&
-      !path.isAbsolute(relativePath))
+const SCRIPT_CONFIG_EXTENSIONS = new Set([
+  '.js',
+  '.cjs',
+  '.mjs',
+  '.ts',
+  '.cts',
+  '.mts',
+]);
+
+// `file://providers/p.py:call_api` names a function within a code file
+const FUNCTION_SUFFIX_PATTERN = /^(.+\.(?:py|[cm]?[jt]s|[jt]sx)):[\w$.]+$/;
+const FILE_URL_PATTERN = /(['"`])(file:\/\/[^'"`\n]+)\1/g;
+const FILE_PROPERTY_PATTERN = /\bfile\s*:\s*(['"`])([^'"`\n]+)\1/g;
+const TEST_SOURCE_PATTERN =
+  /\b(tests|scenarios)\s*:\s*(['"`])(file:\/\/[^'"`\n]+)\2/g;
+
+export interface ScriptConfigReferences {
+  /** `file://` references assigned directly to `tests`. */
+  tests: string[];
+  /** `file://` references assigned directly to `scenarios`. */
+  scenarios: string[];
+  /** All other `file://` literals and `file: '...'` properties. */
+  files: string[];
+}
+
+/**
+ * Statically finds file references in the source of a JS or TS config,
+ * without executing it. Only string literals are recognized, so references
+ * built at runtime are not tracked.
+ */
+export function findScriptConfigReferences(
+  source: string,
+): ScriptConfigReferences {
+  const references: ScriptConfigReferences = {
+    tests: [],
+    scenarios: [],
+    files: [],
+  };
+  // Template literals with interpolation are only known at runtime
+  const isStatic = (value: string) => !value.includes('${');
+  const testSources = new Set<string>();
+  for (const [, key, , reference] of source.matchAll(TEST_SOURCE_PATTERN)) {
+    if (isStatic(reference)) {
+      references[key as 'tests' | 'scenarios'].push(reference);
+      testSources.add(reference);
+    }
+  }
+  for (const [, , reference] of source.matchAll(FILE_URL_PATTERN)) {
+    if (isStatic(reference) && !testSources.has(reference)) {
+      references.files.push(reference);
+    }
+  }
+  for (const [, , filePath] of source.matchAll(FILE_PROPERTY_PATTERN)) {
+    if (isStatic(filePath)) {
+      references.files.push(`file://${filePath}`);
+    }
+  }
+  return references;
+}
+
+// Test and scenario files that are parsed for further dependencies
+const DATA_FILE_EXTENSIONS = new Set([
+  '.yaml',
+  '.yml',
+  '.json',
+  '.jsonl',
+  '.csv',
+]);
+
+/**
+ * Parses CSV text into one record per row, keyed by the header row. Quoted
+ * fields may contain commas, newlines and doubled quotes.
+ */
+export function parseCsv(content: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows.filter((cells) =>
+    cells.some((cell) => cell.trim()),
+  );
+  return records.map((cells) =>
+    Object.fromEntries(
+      header.map((name, index) => [name.trim(), cells[index] ?? '']),
+    ),
   );
 }
 
+/**
+ * Reads the entries of a YAML, JSON, JSONL or CSV data file. A file holding a
+ * single object is treated as a list with one entry.
+ */
+function readDataFile(filePath: string): unknown[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  if (extension === '.csv') {
+    // CSV columns are test variables, including `__expected` assertions
+    return parseCsv(content).map((vars) => ({ vars }));
+  } else if (extension === '.jsonl') {
+    data = content
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  } else if (extension === '.json') {
+    data = JSON.parse(content);
+  } else {
+    data = loadYaml(content, { schema: CORE_SCHEMA.withTags(mergeTag) });
+  }
+  return Array.isArray(data) ? data : [data];
+}
+
+/**
+ * Removes the function name from a code file reference, so
+ * `providers/p.py:call_api` resolves to `providers/p.py`.
+ */
+function stripFunctionSuffix(filePath: string): string {
+  return FUNCTION_SUFFIX_PATTERN.exec(filePath)?.[1] ?? filePath;
+}
+
+/**
+ * Parses a YAML or JSON config. Script configs are never executed, so they
+ * parse to an empty config.
+ */
+function parseConfig(
+  configPath: string,
+  content: string,
+): PromptfooConfig | undefined {
+  const extension = path.extname(configPath).toLowerCase();
+  if (SCRIPT_CONFIG_EXTENSIONS.has(extension)) {
+    return {};
+  }
+  return (
+    extension === '.json'
+      ? JSON.parse(content)
+      : loadYaml(content, { schema: CORE_SCHEMA.withTags(mergeTag) })
+  ) as PromptfooConfig | undefined;
+}
+
 /**
  * Extracts file dependencies from a promptfoo configuration file.
  * This includes custom provider files, prompt files, test data files, etc.
@@ -46,9 +225,12 @@ export function extractFileDependencies(configPath: string): string[] {
       return [];
     }
 
-    const config = loadYaml(configContent, {
-      schema: CORE_SCHEMA.withTags(mergeTag),
-    }) as PromptfooConfig;
+    // JS and TS configs are never executed; their references are found by
+    // scanning the source once the helpers below are defined
+    const isScriptConfig = SCRIPT_CONFIG_EXTENSIONS.has(
+      path.extname(configPath).toLowerCase(),
+    );
+    const config = parseConfig(configPath, configContent);
 
     if (!config) {
       core.debug('Config file is empty or invalid');
@@ -85,25 +267,28 @@ export function extractFileDependencies(configPath: string): string[] {
       }
     };
 
-    // Helper function to process file:// paths with glob support
-    const processFileUrl = (fileUrl: string): void => {
-      const filePath = fileUrl.replace('file://', '');
+    // Helper function to process file:// paths with glob support. Returns the
+    // files the reference resolves to, so data files can be read in turn.
+    const processFileUrl = (fileUrl: string): string[] => {
+      const filePath = stripFunctionSuffix(fileUrl.replace('file://', ''));
       const absolutePath = resolveConfigDependency(
         filePath,
         'config file dependency',
       );
       if (!absolutePath) {
-        return;
+        return [];
       }
 
       // Check if the path contains glob patterns
       if (glob.hasMagic(filePath)) {
         // It's a glob pattern, expand it
         const matches = glob.sync(absolutePath, { nodir: true });
+        const files: string[] = [];
         for (const match of matches) {
           const absoluteMatch = path.resolve(match);
           if (isPathInside(dependencyRoot, absoluteMatch)) {
             dependencies.add(absoluteMatch);
+            files.push(absoluteMatch);
           } else {
             core.warning(
               `Ignoring unsafe config dependency match "${match}": config file dependency glob match must stay within the repository workspace`,
@@ -124,16 +309,19 @@ export function extractFileDependencies(configPath: string): string[] {
         if (basePath) {
           dependencies.add(path.resolve(path.join(configDir, basePath)));
         }
-      } else if (isDirectory(absolutePath)) {
+        return files;
+      }
+      if (isDirectory(absolutePath)) {
         // It's a directory, preserve trailing slash if it was there
         const directoryPath = fileUrl.endsWith('/')
           ? `${absolutePath.replace(/[\\/]+$/, '')}${path.sep}`
           : absolutePath;
         dependencies.add(directoryPath);
-      } else {
-        // It's a regular file path
-        dependencies.add(absolutePath);
+        return [];
       }
+      // It's a regular file path
+      dependencies.add(absolutePath);
+      return [absolutePath];
     };
 
     // Extract provider files
@@ -224,14 +412,123 @@ export function extractFileDependencies(configPath: string): string[] {
       extractAssertFiles(config.defaultTest.assert);
     }
 
-    // Process tests
-    if (config.tests) {
-      for (const test of config.tests) {
-        extractVarFiles(test.vars);
-        extractAssertFiles(test.assert);
+    // Data files that have already been read, so self-references terminate
+    const readDataFiles = new Set<string>();
+
+    // Reads the entries of referenced YAML, JSON, JSONL and CSV files. Other
+    // references, such as test generator scripts, are plain dependencies.
+    const processDataFileUrl = (
+      fileUrl: string,
+      processEntry: (entry: unknown) => void,
+    ): void => {
+      for (const file of processFileUrl(fileUrl)) {
+        if (
+          readDataFiles.has(file) ||
+          !DATA_FILE_EXTENSIONS.has(path.extname(file).toLowerCase())
+        ) {
+          continue;
+        }
+        readDataFiles.add(file);
+        try {
+          for (const entry of readDataFile(file)) {
+            processEntry(entry);
+          }
+        } catch (error) {
+          core.warning(
+            `Failed to read dependencies from ${path.relative(cwd, file)}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    };
+
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    // Remote test sources such as Google Sheets are not repository files
+    const isFileReference = (value: string): boolean =>
+      value.startsWith('file://') || !/^[a-z][a-z0-9+.-]*:\/\//i.test(value);
+
+    const processTestCase = (test: unknown): void => {
+      if (typeof test === 'string') {
+        processTests(test);
+      } else if (isObject(test)) {
+        extractVarFiles(test.vars as PromptfooTestCase['vars']);
+        extractAssertFiles(test.assert as PromptfooTestCase['assert']);
+      }
+    };
+
+    const processTests = (tests: unknown): void => {
+      if (typeof tests === 'string') {
+        if (isFileReference(tests)) {
+          processDataFileUrl(tests, processTestCase);
+        }
+      } else if (Array.isArray(tests)) {
+        for (const test of tests) {
+          processTestCase(test);
+        }
+      }
+    };
+
+    const processScenario = (scenario: unknown): void => {
+      if (typeof scenario === 'string') {
+        processScenarios(scenario);
+      } else if (isObject(scenario)) {
+        if (Array.isArray(scenario.config)) {
+          for (const entry of scenario.config) {
+            processTestCase(entry);
+          }
+        }
+        processTests(scenario.tests);
+      }
+    };
+
+    const processScenarios = (scenarios: unknown): void => {
+      if (typeof scenarios === 'string') {
+        if (isFileReference(scenarios)) {
+          processDataFileUrl(scenarios, processScenario);
+        }
+      } else if (Array.isArray(scenarios)) {
+        for (const scenario of scenarios) {
+          processScenario(scenario);
+        }
+      }
+    };
+
+    // Process tests and scenarios, including the files they reference
+    processTests(config.tests);
+    processScenarios(config.scenarios);
+
+    if (isScriptConfig) {
+      // Local modules the config imports can hold parts of the config too
+      const modules = resolveImportDependencies([configPath], dependencyRoot);
+      const sources = [configContent];
+      for (const modulePath of modules) {
+        dependencies.add(modulePath);
+        sources.push(fs.readFileSync(modulePath, 'utf8'));
+      }
+      for (const source of sources) {
+        const references = findScriptConfigReferences(source);
+        for (const reference of references.tests) {
+          processTests(reference);
+        }
+        for (const reference of references.scenarios) {
+          processScenarios(reference);
+        }
+        for (const reference of references.files) {
+          processFileUrl(reference);
+        }
       }
     }
 
+    // Follow local imports of code files, so a change to a helper module
+    // counts as a change to the provider or assertion that uses it
+    for (const dependency of resolveImportDependencies(
+      Array.from(dependencies),
+      dependencyRoot,
+    )) {
+      dependencies.add(dependency);
+    }
+
     // Convert absolute paths back to relative paths from working directory
     return Array.from(dependencies).map((dep) => {
       const relativePath = path.relative(cwd, dep);
@@ -249,3 +546,72 @@ export function extractFileDependencies(configPath: string): string[] {
     return [];
   }
 }
+
+function fileUrlPath(value: unknown): string | undefined {
+  return typeof value === 'string' && value.startsWith('file://')
+    ? stripFunctionSuffix(value.slice('file://'.length))
+    : undefined;
+}
+
+export interface ConfigPrompt {
+  /** Repository-relative path or glob of the prompt files. */
+  pattern: string;
+  /** Label the config gives the prompt, which promptfoo reports it under. */
+  label?: string;
+}
+
+/**
+ * Lists the prompt files a config references as repository-relative paths or
+ * globs, so they can be watched when the `prompts` input is omitted. Prompts
+ * of JS and TS configs are unknown without running them, so those configs
+ * return an empty list. Unsafe references are skipped; extractFileDependencies
+ * already warns about them.
+ */
+export function extractConfigPrompts(configPath: string): ConfigPrompt[] {
+  const configDir = path.dirname(configPath);
+  const cwd = process.cwd();
+  const dependencyRoot = isPathInside(cwd, configDir) ? cwd : configDir;
+
+  try {
+    const config = parseConfig(configPath, fs.readFileSync(configPath, 'utf8'));
+    if (!Array.isArray(config?.prompts)) {
+      return [];
+    }
+
+    const prompts: ConfigPrompt[] = [];
+    for (const prompt of config.prompts) {
+      // Prompt objects reference their file by `file` or a `file://` id
+      const filePath =
+        typeof prompt === 'string'
+          ? fileUrlPath(prompt)
+          : (prompt?.file ?? fileUrlPath(prompt?.id));
+      if (!filePath || filePath.includes('\0')) {
+        continue;
+      }
+      const absolutePath = path.resolve(configDir, filePath);
+      if (!isPathInside(dependencyRoot, absolutePath)) {
+        continue;
+      }
+      const repositoryPath = path
+        .relative(cwd, absolutePath)
+        .split(path.sep)
+        .join('/');
+      // A prompt directory holds prompt files at any depth
+      const pattern =
+        !glob.hasMagic(filePath) && isDirectory(absolutePath)
+          ? `${repositoryPath}/**`
+          : repositoryPath;
+      prompts.push(
+        typeof prompt !== 'string' && typeof prompt.label === 'string'
+          ? { pattern, label: prompt.label }
+          : { pattern },
+      );
+    }
+    return prompts;
+  } catch (error) {
+    core.warning(
+      `Failed to read prompts from config: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return [];
+  }
+}
@@ -0,0 +1,194 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isFile, isPathInside } from './fs';
+
+/**
+ * Import dependency utilities. Custom providers, assertions and other code
+ * files referenced by a config often import local helper modules; those
+ * helpers are followed through static imports so that editing them also
+ * triggers an evaluation.
+ */
+
+export const MAX_IMPORT_DEPTH = 10;
+
+const JS_EXTENSIONS = [
+  '.js',
+  '.mjs',
+  '.cjs',
+  '.jsx',
+  '.ts',
+  '.mts',
+  '.cts',
+  '.tsx',
+];
+const PYTHON_EXTENSION = '.py';
+
+// `import x from '...'`, `export * from '...'`, `import '...'`,
+// `import('...')` and `require('...')` with a string literal
+const JS_IMPORT_PATTERN =
+  /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(['"])([^'"\n]+)\1/g;
+const PYTHON_IMPORT_PATTERN = /^\s*import\s+([^#\n]+)/;
+const PYTHON_FROM_IMPORT_PATTERN =
+  /^\s*from\s+(\.*[\w.]*)\s+import\s+\(?([^#\n]*)/;
+
+function isJavaScriptFile(filePath: string): boolean {
+  return JS_EXTENSIONS.includes(path.extname(filePath));
+}
+
+function isPythonFile(filePath: string): boolean {
+  return path.extname(filePath) === PYTHON_EXTENSION;
+}
+
+/**
+ * Resolves a relative JS/TS import the way Node and TypeScript bundlers do:
+ * the exact file, the file with a known extension, a `.ts` source for a `.js`
+ * specifier, or an index file in a directory.
+ */
+function resolveJavaScriptImport(
+  fromFile: string,
+  specifier: string,
+): string | undefined {
+  if (!specifier.startsWith('.')) {
+    // Packages are tracked by the lockfile, not by file changes
+    return undefined;
+  }
+  const target = path.resolve(path.dirname(fromFile), specifier);
+  const withoutExtension = target.replace(/\.(?:[mc]?js|jsx)$/, '');
+  const candidates = [
+    target,
+    ...JS_EXTENSIONS.map((extension) => `${withoutExtension}${extension}`),
+    ...JS_EXTENSIONS.map((extension) => path.join(target, `index${extension}`)),
+  ];
+  return candidates.find(isFile);
+}
+
+function resolvePythonModule(
+  baseDirs: string[],
+  modulePath: string,
+): string | undefined {
+  const relativePath = modulePath.split('.').join(path.sep);
+  for (const baseDir of baseDirs) {
+    const candidates = [
+      path.join(baseDir, `${relativePath}${PYTHON_EXTENSION}`),
+      path.join(baseDir, relativePath, `__init__${PYTHON_EXTENSION}`),
+    ];
+    const match = candidates.find(isFile);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+function parseImportedNames(names: string): string[] {
+  return names
+    .replace(/[()]/g, '')
+    .split(',')
+    .map((name) => name.trim().split(/\s+/)[0])
+    .filter((name) => /^[\w.]+$/.test(name));
+}
+
+/**
+ * Resolves local Python imports. Absolute imports are looked up next to the
+ * importing file and at the workspace root, where promptfoo runs scripts from;
+ * `from package import name` also matches `name` as a submodule.
+ */
+function resolvePythonImports(
+  fromFile: string,
+  content: string,
+  rootDir: string,
+): string[] {
+  const fileDir = path.dirname(fromFile);
+  const resolved: Array<string | undefined> = [];
+  for (const line of content.split(/\r?\n/)) {
+    const fromImport = PYTHON_FROM_IMPORT_PATTERN.exec(line);
+    if (fromImport) {
+      const [, moduleName, names] = fromImport;
+      const modulePath = moduleName.replace(/^\.+/, '');
+      const dots = moduleName.length - modulePath.length;
+      // One dot is the importing file's package, each further dot its parent
+      const baseDirs =
+        dots > 0
+          ? [path.resolve(fileDir, ...Array(dots - 1).fill('..'))]
+          : [fileDir, rootDir];
+      if (modulePath) {
+        resolved.push(resolvePythonModule(baseDirs, modulePath));
+      }
+      for (const name of parseImportedNames(names)) {
+        resolved.push(
+          resolvePythonModule(
+            baseDirs,
+            modulePath ? `${modulePath}.${name}` : name,
+          ),
+        );
+      }
+      continue;
+    }
+    const plainImport = PYTHON_IMPORT_PATTERN.exec(line);
+    if (plainImport) {
+      for (const name of parseImportedNames(plainImport[1])) {
+        resolved.push(resolvePythonModule([fileDir, rootDir], name));
+      }
+    }
+  }
+  return resolved.filter((file): file is string => !!file);
+}
+
+function resolveJavaScriptImports(fromFile: string, content: string): string[] {
+  return Array.from(content.matchAll(JS_IMPORT_PATTERN), (match) =>
+    resolveJavaScriptImport(fromFile, match[2]),
+  ).filter((file): file is string => !!file);
+}
+
+/**
+ * Follows static imports of local modules from the given JS/TS and Python
+ * files and returns the absolute paths of the imported files, excluding the
+ * starting files. Imports are followed breadth-first up to `maxDepth` levels,
+ * each file is read at most once so import cycles terminate, and files
+ * outside `rootDir` are ignored.
+ */
+export function resolveImportDependencies(
+  files: string[],
+  rootDir: string,
+  maxDepth: number = MAX_IMPORT_DEPTH,
+): string[] {
+  const visited = new Set(files.map((file) => path.resolve(file)));
+  const found: string[] = [];
+  let current = Array.from(visited);
+
+  for (let depth = 1; depth <= maxDepth && current.length > 0; depth++) {
+    const next: string[] = [];
+    for (const file of current) {
+      if (!isJavaScriptFile(file) && !isPythonFile(file)) {
+        continue;
+      }
+      let content: string;
+      try {
+        content = fs.readFileSync(file, 'utf8');
+      } catch (error) {
+        core.debug(`Could not read ${file} to resolve its imports: ${error}`);
+        continue;
+      }
+      const imports = isPythonFile(file)
+        ? resolvePythonImports(file, content, rootDir)
+        : resolveJavaScriptImports(file, content);
+      for (const imported of imports) {
+        if (visited.has(imported) || !isPathInside(rootDir, imported)) {
+          continue;
+        }
+        visited.add(imported);
+        found.push(imported);
+        next.push(imported);
+      }
+    }
+    current = next;
+  }
+
+  if (current.length > 0) {
+    core.debug(
+      `Stopped following imports after ${maxDepth} levels; imports of ${current.length} file(s) were not resolved`,
+    );
+  }
+  return found;
+}
@@ -0,0 +1,120 @@
+import * as core from '@actions/core';
+import type { RunReason } from './run-reason';
+
+/**
+ * Dry-run utilities. With `dry-run: true` the action resolves the changed
+ * files, decides what to evaluate, and assembles the promptfoo command and
+ * environment, then prints that plan instead of running promptfoo.
+ */
+
+// Provider keys the action passes to promptfoo, from inputs or the workflow
+const PROVIDER_ENV_VARS = [
+  'OPENAI_API_KEY',
+  'AZURE_OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'HF_API_TOKEN',
+  'AWS_ACCESS_KEY_ID',
+  'AWS_SECRET_ACCESS_KEY',
+  'REPLICATE_API_KEY',
+  'PALM_API_KEY',
+  'VERTEX_API_KEY',
+  'COHERE_API_KEY',
+  'MISTRAL_API_KEY',
+  'GROQ_API_KEY',
+];
+const SECRET_NAME_PATTERN = /KEY|TOKEN|SECRET|PASSWORD/i;
+const SHELL_SAFE_PATTERN = /^[\w@%+=:,./-]+$/;
+
+export const REDACTED = '***';
+
+export interface DryRunCommand {
+  /** Repository-relative config path. */
+  config: string;
+  /** Arguments for npx, without the generated `-o` output file. */
+  args: string[];
+}
+
+export interface DryRunPlan {
+  runReason: RunReason;
+  /** Prompt files passed with `--prompts`, relative to the working directory. */
+  promptFiles: string[];
+  /** Empty when every config is skipped. */
+  commands: DryRunCommand[];
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Picks the provider keys and promptfoo settings from the evaluation
+ * environment, with secret values redacted. The rest of the inherited
+ * environment is left out.
+ */
+export function getPlanEnvironment(
+  env: NodeJS.ProcessEnv,
+): Record<string, string> {
+  const planEnv: Record<string, string> = {};
+  for (const name of Object.keys(env).sort()) {
+    const value = env[name];
+    if (
+      value === undefined ||
+      !(PROVIDER_ENV_VARS.includes(name) || name.startsWith('PROMPTFOO_'))
+    ) {
+      continue;
+    }
+    planEnv[name] = SECRET_NAME_PATTERN.test(name) ? REDACTED : value;
+  }
+  return planEnv;
+}
+
+function quoteArg(arg: string): string {
+  return SHELL_SAFE_PATTERN.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export function formatDryRunPlan(plan: DryRunPlan): string[] {
+  const lines = [
+    `Would run: ${plan.commands.length > 0 ? 'yes' : 'no'}`,
+    `Reason: ${plan.runReason.description}`,
+  ];
+  if (plan.runReason.files.length > 0) {
+    lines.push(`Triggering files: ${plan.runReason.files.join(', ')}`);
+  }
+  if (plan.commands.length === 0) {
+    return lines;
+  }
+  lines.push(
+    `Prompt files: ${plan.promptFiles.length > 0 ? plan.promptFiles.join(', ') : '(from the config)'}`,
+  );
+  for (const command of plan.commands) {
+    lines.push(
+      `Command for ${command.config}: npx ${command.args.map(quoteArg).join(' ')}`,
+    );
+  }
+  const planEnv = Object.entries(getPlanEnvironment(plan.env));
+  lines.push(
+    planEnv.length > 0 ? 'Environment:' : 'Environment: (no provider keys)',
+  );
+  for (const [name, value] of planEnv) {
+    lines.push(`  ${name}=${value}`);
+  }
+  return lines;
+}
+
+/**
+ * Prints the plan to the log and the workflow summary, and sets the
+ * `would-run` and `promptfoo-args` outputs.
+ */
+export async function reportDryRun(plan: DryRunPlan): Promise<void> {
+  const lines = formatDryRunPlan(plan);
+  core.info('Dry run: promptfoo was not run');
+  for (const line of lines) {
+    core.info(line);
+  }
+  core.setOutput('would-run', String(plan.commands.length > 0));
+  core.setOutput(
+    'promptfoo-args',
+    JSON.stringify(plan.commands.map((command) => command.args)),
+  );
+  await core.summary
+    .addHeading('Promptfoo Dry Run')
+    .addRaw(`\`\`\`\n${lines.join('\n')}\n\`\`\``, true)
+    .write();
+}
@@ -21,6 +21,10 @@ export const ErrorCodes = {
   INVALID_CONFIGURATION: 'INVALID_CONFIGURATION',
   AUTH_FAILED: 'AUTH_FAILED',
   REPEAT_CHECK_FAILED: 'REPEAT_CHECK_FAILED',
+  BASELINE_FAILED: 'BASELINE_FAILED',
+  REGRESSION_DETECTED: 'REGRESSION_DETECTED',
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+  INVALID_RESULTS_BUNDLE: 'INVALID_RESULTS_BUNDLE',
 } as const;
 
 export function formatErrorMessage(error: unknown): string {
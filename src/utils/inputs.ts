@@ -35,3 +35,19 @@ export function parseOptionalPercentage(
   }
   return n;
 }
+
+export function parseOptionalChoice<T extends string>(
+  raw: string,
+  name: string,
+  choices: readonly T[],
+): T | undefined {
+  if (!raw) return undefined;
+  if (!(choices as readonly string[]).includes(raw)) {
+    throw new PromptfooActionError(
+      `${name} must be one of ${choices.join(', ')}, got "${raw}"`,
+      ErrorCodes.INVALID_CONFIGURATION,
+      `Set ${name} to ${choices.map((choice) => `"${choice}"`).join(' or ')}`,
+    );
+  }
+  return raw as T;
+}
@@ -0,0 +1,120 @@
+import type { EvaluateResult } from 'promptfoo';
+import {
+  escapeTableCell,
+  getPromptLabel,
+  getProviderLabel,
+  getTestLabel,
+} from './report';
+
+/**
+ * Latency utilities that summarize promptfoo's per-result `latencyMs` values
+ * per provider and list the slowest tests.
+ */
+
+const MAX_SLOW_TESTS = 5;
+
+export interface LatencyStats {
+  provider: string;
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface SlowTest {
+  test: string;
+  provider: string;
+  prompt: string;
+  latencyMs: number;
+}
+
+export interface LatencyReport {
+  providers: LatencyStats[];
+  slowest: SlowTest[];
+}
+
+/**
+ * Nearest-rank percentile of an ascending list of values.
+ */
+export function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+/**
+ * Collects latency statistics. Results served from promptfoo's cache are
+ * skipped because their latency does not reflect the provider.
+ */
+export function getLatencyReport(results: EvaluateResult[]): LatencyReport {
+  const latencies = new Map<string, number[]>();
+  const timed: SlowTest[] = [];
+
+  for (const result of results) {
+    const latencyMs = result.latencyMs;
+    if (
+      typeof latencyMs !== 'number' ||
+      !Number.isFinite(latencyMs) ||
+      result.response?.cached
+    ) {
+      continue;
+    }
+    const provider = getProviderLabel(result);
+    const values = latencies.get(provider) || [];
+    values.push(latencyMs);
+    latencies.set(provider, values);
+    timed.push({
+      test: getTestLabel(result),
+      provider,
+      prompt: getPromptLabel(result),
+      latencyMs,
+    });
+  }
+
+  const providers = Array.from(latencies, ([provider, values]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      provider,
+      count: sorted.length,
+      p50: percentile(sorted, 50),
+      p90: percentile(sorted, 90),
+      p99: percentile(sorted, 99),
+      max: sorted[sorted.length - 1],
+    };
+  });
+
+  return {
+    providers,
+    slowest: timed
+      .sort((a, b) => b.latencyMs - a.latencyMs)
+      .slice(0, MAX_SLOW_TESTS),
+  };
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)} ms`;
+  }
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function formatLatencyMarkdown(report: LatencyReport): string {
+  if (report.providers.length === 0) {
+    return '';
+  }
+
+  let md = '**Latency by provider**\n\n';
+  md += '| Provider | Runs | p50 | p90 | p99 | Max |\n';
+  md += '|----------|------|-----|-----|-----|-----|\n';
+  for (const stats of report.providers) {
+    md += `| ${escapeTableCell(stats.provider)} | ${stats.count} | ${formatDuration(stats.p50)} | ${formatDuration(stats.p90)} | ${formatDuration(stats.p99)} | ${formatDuration(stats.max)} |\n`;
+  }
+
+  md += '\n**Slowest tests**\n\n';
+  md += '| Test | Provider | Prompt | Latency |\n';
+  md += '|------|----------|--------|---------|\n';
+  for (const test of report.slowest) {
+    md += `| ${escapeTableCell(test.test)} | ${escapeTableCell(test.provider)} | ${escapeTableCell(test.prompt)} | ${formatDuration(test.latencyMs)} |\n`;
+  }
+  return md;
+}
@@ -0,0 +1,162 @@
+import * as glob from 'glob';
+import * as path from 'path';
+import { ErrorCodes, PromptfooActionError } from './errors';
+import { isFile } from './fs';
+import { escapeTableCell } from './report';
+
+/**
+ * Utilities for evaluating several promptfoo configs in one action run. Each
+ * config is evaluated on its own and reported as a section of one combined
+ * comment or summary.
+ */
+
+/** File names recognized as promptfoo configs by `discover-configs`. */
+export const CONFIG_FILE_NAMES = [
+  'promptfooconfig.yaml',
+  'promptfooconfig.yml',
+  'promptfooconfig.json',
+  'promptfooconfig.js',
+];
+
+export interface ConfigOverviewRow {
+  config: string;
+  /** Undefined when the config was skipped because nothing it uses changed. */
+  stats?: { successes: number; failures: number };
+}
+
+export interface ConfigGateFailure {
+  config: string;
+  error: PromptfooActionError;
+}
+
+/**
+ * Resolves the `config` input, a newline-separated list of config paths or
+ * globs relative to the working directory. Globs must match at least one file
+ * so a typo cannot silently disable an evaluation.
+ */
+export function resolveConfigPaths(
+  input: string,
+  workingDirectory: string,
+): string[] {
+  const configPaths: string[] = [];
+  const entries = input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    if (!glob.hasMagic(entry)) {
+      configPaths.push(entry);
+      continue;
+    }
+    const matches = glob
+      .sync(entry, {
+        cwd: workingDirectory,
+        nodir: true,
+        ignore: ['**/node_modules/**'],
+      })
+      .sort();
+    if (matches.length === 0) {
+      throw new PromptfooActionError(
+        `No config files match "${entry}"`,
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Config globs are resolved relative to working-directory',
+      );
+    }
+    configPaths.push(...matches);
+  }
+
+  // The same config listed twice would be evaluated and reported twice
+  const seen = new Set<string>();
+  const uniquePaths = configPaths.filter((configPath) => {
+    const key = path.resolve(workingDirectory, configPath);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  if (uniquePaths.length === 0) {
+    throw new PromptfooActionError(
+      'config must list at least one config file',
+      ErrorCodes.INVALID_CONFIGURATION,
+      'Set config to a config path or glob, one per line',
+    );
+  }
+  return uniquePaths;
+}
+
+/**
+ * Picks the promptfoo configs out of a listing of workspace files, given
+ * relative to the working directory, and returns them sorted. Files that are
+ * listed but no longer exist on disk, such as deleted tracked files, are left
+ * out.
+ */
+export function findConfigFiles(
+  files: string[],
+  workingDirectory: string,
+): string[] {
+  const configPaths = files
+    .filter((file) => CONFIG_FILE_NAMES.includes(path.posix.basename(file)))
+    .filter((file) => isFile(path.resolve(workingDirectory, file)))
+    .sort();
+
+  if (configPaths.length === 0) {
+    throw new PromptfooActionError(
+      `No promptfoo configs found in ${workingDirectory}`,
+      ErrorCodes.INVALID_CONFIGURATION,
+      `Config discovery looks for ${CONFIG_FILE_NAMES.join(', ')} files that are not ignored by .gitignore`,
+    );
+  }
+  return configPaths;
+}
+
+/**
+ * Renders the overview table at the top of a combined report, with one row
+ * per config including skipped ones.
+ */
+export function formatConfigOverviewMarkdown(
+  rows: ConfigOverviewRow[],
+): string {
+  let md = '| Config | Success | Failure | Pass rate |\n';
+  md += '|--------|---------|---------|-----------|\n';
+  for (const row of rows) {
+    const config = `\`${escapeTableCell(row.config)}\``;
+    if (!row.stats) {
+      md += `| ${config} | - | - | Skipped |\n`;
+      continue;
+    }
+    const { successes, failures } = row.stats;
+    const total = successes + failures;
+    const passRate =
+      total > 0 ? `${((successes / total) * 100).toFixed(2)}%` : '-';
+    md += `| ${config} | ${successes} | ${failures} | ${passRate} |\n`;
+  }
+  return md;
+}
+
+/**
+ * Combines the gate failures of several configs, and of the overall check,
+ * into the error the action fails with. A single failure keeps its own code
+ * and help text.
+ */
+export function combineConfigGateFailures(
+  failures: ConfigGateFailure[],
+): PromptfooActionError {
+  if (failures.length === 1) {
+    const [{ config, error }] = failures;
+    return new PromptfooActionError(
+      `${config}: ${error.message}`,
+      error.code,
+      error.helpText,
+    );
+  }
+  return new PromptfooActionError(
+    `${failures.length} checks failed: ${failures
+      .map(({ config, error }) => `${config}: ${error.message}`)
+      .join('; ')}`,
+    failures[0].error.code,
+    'See the per-config results above for details',
+  );
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import type { ConfigPrompt } from './config';
+
+/**
+ * Narrows an evaluation that uses the config's own prompts to the prompts
+ * whose files changed, with promptfoo's `--filter-prompts`. The config still
+ * defines the prompts, so their labels and settings are kept.
+ */
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the `--filter-prompts` pattern for the changed prompt files of a
+ * config. Paths are repository-relative. A labeled prompt is matched by its
+ * label, which promptfoo follows with the file path and text for file
+ * prompts; any other prompt by its file path, which promptfoo puts in the
+ * default label. Returns undefined when a changed file is not one of the
+ * config's prompts, since the evaluation cannot then be narrowed safely.
+ */
+export function getChangedPromptFilter(
+  prompts: ConfigPrompt[],
+  changedFiles: string[],
+  configDir: string,
+): string | undefined {
+  if (changedFiles.length === 0) {
+    return undefined;
+  }
+  const patterns = new Set<string>();
+  for (const file of changedFiles) {
+    const matches = prompts.filter((prompt) =>
+      path.matchesGlob(file, prompt.pattern),
+    );
+    if (matches.length === 0) {
+      return undefined;
+    }
+    for (const prompt of matches) {
+      patterns.add(
+        prompt.label !== undefined
+          ? `^${escapeRegExp(prompt.label)}(?::|$)`
+          : `(?:^|/)${escapeRegExp(path.posix.relative(configDir, file))}(?::|$)`,
+      );
+    }
+  }
+  return [...patterns].join('|');
+}
@@ -0,0 +1,213 @@
+import type { EvaluateResult, GradingResult, OutputFile } from 'promptfoo';
+import { buildGroupKey } from './thresholds';
+
+/**
+ * Report utilities that turn promptfoo's per-result output into markdown for
+ * PR comments and job summaries.
+ */
+
+const MAX_FAILURE_ROWS = 25;
+const MAX_REASON_LENGTH = 200;
+const MAX_OUTPUT_LENGTH = 1000;
+
+export interface FailureDetail {
+  test: string;
+  provider: string;
+  prompt: string;
+  assertionType?: string;
+  reason: string;
+  output?: string;
+  failedRuns: number;
+  totalRuns: number;
+}
+
+/**
+ * Returns the per-result entries from a promptfoo output file. Unlike the
+ * strict repeat-check validation, malformed entries are skipped so reporting
+ * never fails an otherwise valid run.
+ */
+export function getEvaluateResults(output: OutputFile): EvaluateResult[] {
+  const rawResults = (output.results as { results?: unknown }).results;
+  if (!Array.isArray(rawResults)) {
+    return [];
+  }
+  return rawResults.filter(
+    (item): item is EvaluateResult =>
+      !!item &&
+      typeof item === 'object' &&
+      typeof (item as { success?: unknown }).success === 'boolean',
+  );
+}
+
+function formatSingleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(value: string, maxLength: number): string {
+  if (value.length <= maxLength) {
+    return value;
+  }
+  return `${value.slice(0, maxLength - 3)}...`;
+}
+
+export function escapeTableCell(value: string): string {
+  return formatSingleLine(value).replace(/\|/g, '\\|');
+}
+
+/**
+ * Escapes the markdown punctuation of untrusted text, so it renders as plain
+ * text without links, images, HTML or mentions. Pipes are left to
+ * escapeTableCell.
+ */
+export function escapeMarkdown(value: string): string {
+  return formatSingleLine(value).replace(/[!-/:-@[-`{}~]/g, '\\$&');
+}
+
+function escapeHtml(value: string): string {
+  return formatSingleLine(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function getTestLabel(result: EvaluateResult): string {
+  const description = result.description || result.testCase?.description;
+  if (description) {
+    return formatSingleLine(description);
+  }
+  return `test(${truncate(formatSingleLine(JSON.stringify(result.vars || result.testCase?.vars || {})), 80)})`;
+}
+
+export function getProviderLabel(result: EvaluateResult): string {
+  return result.provider?.label || result.provider?.id || 'unknown provider';
+}
+
+export function getPromptLabel(result: EvaluateResult): string {
+  return result.prompt?.label || `prompt ${result.promptIdx}`;
+}
+
+function findFailingAssertion(
+  gradingResult: GradingResult,
+): GradingResult | undefined {
+  for (const component of gradingResult.componentResults || []) {
+    if (!component.pass) {
+      return findFailingAssertion(component) || component;
+    }
+  }
+  return undefined;
+}
+
+export function getFailureReason(result: EvaluateResult): {
+  assertionType?: string;
+  reason: string;
+} {
+  if (result.error) {
+    return { reason: result.error };
+  }
+  const gradingResult = result.gradingResult;
+  if (!gradingResult) {
+    return { reason: 'No grading result' };
+  }
+  const failing = findFailingAssertion(gradingResult) || gradingResult;
+  return {
+    assertionType: failing.assertion?.type || gradingResult.assertion?.type,
+    reason: failing.reason || gradingResult.reason || 'No reason given',
+  };
+}
+
+function getOutputText(result: EvaluateResult): string | undefined {
+  const output = result.response?.output;
+  if (output === undefined || output === null || output === '') {
+    return undefined;
+  }
+  return typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+}
+
+/**
+ * Collects one entry per failing test. Repeated runs of the same test, prompt
+ * and provider are folded into a single entry with a failed-run count, so the
+ * failures list lines up with the repeat check instead of repeating rows.
+ */
+export function collectFailures(results: EvaluateResult[]): FailureDetail[] {
+  const failures = new Map<string, FailureDetail>();
+  const totals = new Map<string, number>();
+
+  for (const result of results) {
+    const key = buildGroupKey(result);
+    totals.set(key, (totals.get(key) || 0) + 1);
+    if (result.success) {
+      continue;
+    }
+
+    const existing = failures.get(key);
+    if (existing) {
+      existing.failedRuns++;
+      continue;
+    }
+
+    const { assertionType, reason } = getFailureReason(result);
+    const output = getOutputText(result);
+    failures.set(key, {
+      test: getTestLabel(result),
+      provider: getProviderLabel(result),
+      prompt: getPromptLabel(result),
+      ...(assertionType ? { assertionType } : {}),
+      reason,
+      ...(output ? { output } : {}),
+      failedRuns: 1,
+      totalRuns: 0,
+    });
+  }
+
+  for (const [key, failure] of failures) {
+    failure.totalRuns = totals.get(key) as number;
+  }
+
+  return Array.from(failures.values());
+}
+
+function formatCodeBlock(value: string): string {
+  const longestFence = Math.max(
+    0,
+    ...(value.match(/`+/g) || []).map((fence) => fence.length),
+  );
+  const fence = '`'.repeat(Math.max(3, longestFence + 1));
+  return `${fence}\n${value}\n${fence}`;
+}
+
+function formatOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `${output.slice(0, MAX_OUTPUT_LENGTH)}\n... (truncated, ${output.length} characters total)`;
+}
+
+export function formatFailuresMarkdown(failures: FailureDetail[]): string {
+  if (failures.length === 0) {
+    return '';
+  }
+
+  const shown = failures.slice(0, MAX_FAILURE_ROWS);
+  let md = `**Failed tests** (${failures.length})\n\n`;
+  md += '| Test | Provider | Prompt | Assertion | Reason |\n';
+  md += '|------|----------|--------|-----------|--------|\n';
+  for (const failure of shown) {
+    const runs =
+      failure.totalRuns > 1
+        ? ` (failed ${failure.failedRuns}/${failure.totalRuns} runs)`
+        : '';
+    md += `| ${escapeTableCell(failure.test)}${runs} | ${escapeTableCell(failure.provider)} | ${escapeTableCell(failure.prompt)} | ${failure.assertionType ? `\`${escapeTableCell(failure.assertionType)}\`` : '-'} | ${escapeTableCell(truncate(failure.reason, MAX_REASON_LENGTH))} |\n`;
+  }
+  if (failures.length > shown.length) {
+    md += `\n_...and ${failures.length - shown.length} more failing test(s). See the full eval results for details._\n`;
+  }
+
+  for (const failure of shown) {
+    if (!failure.output) {
+      continue;
+    }
+    md += `\n<details>\n<summary>Output: ${escapeHtml(failure.test)} [${escapeHtml(failure.provider)}]</summary>\n\n${formatCodeBlock(formatOutput(failure.output))}\n\n</details>\n`;
+  }
+
+  return md;
+}
@@ -0,0 +1,239 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import type { EvaluateResult } from 'promptfoo';
+import { getTokenLogin } from './comment';
+import { collectFailures, escapeTableCell } from './report';
+
+/**
+ * Pull request review utilities. Failures of tests that use a changed prompt
+ * file are posted as inline review comments on the changed lines of that
+ * file, next to the edit that caused them.
+ */
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+const MAX_FAILURES_PER_COMMENT = 10;
+const MAX_REASON_LENGTH = 200;
+
+/** Hidden marker that identifies the action's inline review comments. */
+export const REVIEW_COMMENT_MARKER = '<!-- promptfoo-action:review -->';
+
+export interface ChangedPromptFile {
+  /** Repository-relative path, as used by the pull request diff. */
+  path: string;
+  /** Path passed to promptfoo with --prompts, as it appears in prompt labels. */
+  promptPath: string;
+  /** Unified diff of the file from the pull request files API. */
+  patch?: string;
+}
+
+export interface ReviewComment {
+  path: string;
+  line: number;
+  side: 'RIGHT';
+  body: string;
+}
+
+export interface PromptReviewOptions {
+  repo: { owner: string; repo: string };
+  pullNumber: number;
+  commitId: string;
+  comments: ReviewComment[];
+}
+
+interface PostedReviewComment {
+  id: number;
+  path: string;
+  line?: number | null;
+  body?: string;
+  user?: { login?: string; type?: string } | null;
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Returns the new-file line number of the first added line in a unified diff
+ * patch, or undefined when the patch only removes lines.
+ */
+export function getFirstAddedLine(patch: string): number | undefined {
+  let line = 0;
+  for (const diffLine of patch.split('\n')) {
+    const header = HUNK_HEADER.exec(diffLine);
+    if (header) {
+      line = Number(header[1]);
+      continue;
+    }
+    if (diffLine.startsWith('+')) {
+      return line;
+    }
+    if (!diffLine.startsWith('-') && !diffLine.startsWith('\\')) {
+      line++;
+    }
+  }
+  return undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a result was produced by the given prompt file. Promptfoo labels
+ * file prompts as "<path>: <content>", so the path has to appear as a whole
+ * path segment in the prompt label or id.
+ */
+export function usesPromptFile(
+  result: EvaluateResult,
+  promptPath: string,
+): boolean {
+  const normalized = promptPath.replace(/\\/g, '/').replace(/^\.\//, '');
+  const pattern = new RegExp(
+    `(^|[/\\s:])${escapeRegExp(normalized)}($|[:\\s])`,
+  );
+  const prompt = result.prompt as { label?: string; id?: string } | undefined;
+  return [prompt?.label, prompt?.id].some(
+    (value) => typeof value === 'string' && pattern.test(value),
+  );
+}
+
+function formatReviewBody(results: EvaluateResult[]): string {
+  const failures = collectFailures(results);
+  const lines = [
+    REVIEW_COMMENT_MARKER,
+    `**promptfoo**: ${failures.length} failing test(s) use this prompt.`,
+    '',
+  ];
+  for (const failure of failures.slice(0, MAX_FAILURES_PER_COMMENT)) {
+    const runs =
+      failure.totalRuns > 1
+        ? ` (failed ${failure.failedRuns}/${failure.totalRuns} runs)`
+        : '';
+    const reason =
+      failure.reason.length > MAX_REASON_LENGTH
+        ? `${failure.reason.slice(0, MAX_REASON_LENGTH - 3)}...`
+        : failure.reason;
+    lines.push(
+      `- **${escapeTableCell(failure.test)}**${runs} [${escapeTableCell(failure.provider)}]: ${failure.assertionType ? `\`${failure.assertionType}\` ` : ''}${escapeTableCell(reason)}`,
+    );
+  }
+  if (failures.length > MAX_FAILURES_PER_COMMENT) {
+    lines.push(
+      `- _...and ${failures.length - MAX_FAILURES_PER_COMMENT} more. See the PR comment or eval results for details._`,
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds one inline comment per changed prompt file with failing tests,
+ * anchored on the first added line of its diff. Files whose diff only removes
+ * lines or is not available are skipped.
+ */
+export function buildPromptReviewComments(
+  results: EvaluateResult[],
+  files: ChangedPromptFile[],
+): ReviewComment[] {
+  const comments: ReviewComment[] = [];
+  for (const file of files) {
+    // Passing runs are kept so repeated tests report failed-run counts
+    const fileResults = results.filter((result) =>
+      usesPromptFile(result, file.promptPath),
+    );
+    if (fileResults.every((result) => result.success)) {
+      continue;
+    }
+    const line = file.patch ? getFirstAddedLine(file.patch) : undefined;
+    if (line === undefined) {
+      core.debug(`No added lines to comment on in ${file.path}`);
+      continue;
+    }
+    comments.push({
+      path: file.path,
+      line,
+      side: 'RIGHT',
+      body: formatReviewBody(fileResults),
+    });
+  }
+  return comments;
+}
+
+/**
+ * The token's earlier inline comments, so a new run can update them instead of
+ * posting the same comments again. Anyone can post a marked comment, so only
+ * the token's own comments are returned.
+ */
+async function getPreviousReviewComments(
+  octokit: Octokit,
+  options: PromptReviewOptions,
+): Promise<PostedReviewComment[]> {
+  const comments = (await octokit.paginate(
+    octokit.rest.pulls.listReviewComments,
+    {
+      ...options.repo,
+      pull_number: options.pullNumber,
+      per_page: 100,
+    },
+  )) as PostedReviewComment[];
+  const login = await getTokenLogin(octokit);
+  return comments.filter(
+    (comment) =>
+      typeof comment.body === 'string' &&
+      comment.body.startsWith(REVIEW_COMMENT_MARKER) &&
+      (login !== undefined
+        ? comment.user?.login === login
+        : comment.user?.type === 'Bot'),
+  );
+}
+
+/**
+ * Posts the inline comments as a single PR review. A comment the token already
+ * posted on the same line of the same file is updated in place instead, so
+ * repeated runs do not pile up reviews. Failures are reported as warnings so a
+ * rejected review never hides the evaluation result.
+ */
+export async function postPromptReview(
+  octokit: Octokit,
+  options: PromptReviewOptions,
+): Promise<void> {
+  if (options.comments.length === 0) {
+    return;
+  }
+  try {
+    const previous = await getPreviousReviewComments(octokit, options);
+    const newComments: ReviewComment[] = [];
+    for (const comment of options.comments) {
+      const existing = previous.find(
+        (posted) =>
+          posted.path === comment.path && posted.line === comment.line,
+      );
+      if (!existing) {
+        newComments.push(comment);
+      } else if (existing.body !== comment.body) {
+        await octokit.rest.pulls.updateReviewComment({
+          ...options.repo,
+          comment_id: existing.id,
+          body: comment.body,
+        });
+        core.info(`Updated review comment ${existing.id} on ${comment.path}`);
+      } else {
+        core.debug(`Review comment on ${comment.path} is unchanged`);
+      }
+    }
+    if (newComments.length === 0) {
+      return;
+    }
+    await octokit.rest.pulls.createReview({
+      ...options.repo,
+      pull_number: options.pullNumber,
+      commit_id: options.commitId,
+      event: 'COMMENT',
+      body: `promptfoo found failing tests for ${newComments.length} changed prompt file(s).`,
+      comments: newComments,
+    });
+    core.info(`Posted review comments on ${newComments.length} prompt file(s)`);
+  } catch (error) {
+    core.warning(
+      `Failed to post review comments: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
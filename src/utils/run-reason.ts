@@ -0,0 +1,123 @@
+/**
+ * Explains why the action evaluated or skipped a config, for reports,
+ * templates, and the `run-reason` output.
+ */
+
+export const RUN_REASON_CATEGORIES = [
+  'force-run',
+  'comment-command',
+  'no-change-information',
+  'prompt-files',
+  'config',
+  'dependencies',
+  'no-prompt-globs',
+] as const;
+export type RunReasonCategory = (typeof RUN_REASON_CATEGORIES)[number];
+
+const CATEGORY_DESCRIPTIONS: Record<RunReasonCategory, string> = {
+  'force-run': 'force-run is enabled',
+  'comment-command': 'requested with /promptfoo eval',
+  'no-change-information':
+    'no changed-file information, evaluating all matching prompts',
+  'prompt-files': 'prompt files changed',
+  config: 'config changed',
+  dependencies: 'config dependencies changed',
+  'no-prompt-globs': 'no prompt globs configured, evaluating the config',
+};
+
+export const SKIP_DESCRIPTION =
+  'no LLM prompt, config files, or dependencies were modified';
+
+export interface RunReasonInput {
+  forceRun: boolean;
+  /** The run was requested with a `/promptfoo eval` pull request comment. */
+  commandRequested: boolean;
+  hasChangeInformation: boolean;
+  /**
+   * The config is skipped when nothing it uses changed. Otherwise, as for a
+   * single config without prompt globs, it is evaluated on every run.
+   */
+  skipsUnchanged: boolean;
+  /** Changed files by repository path, grouped by what they are to the config. */
+  promptFiles: string[];
+  configFiles: string[];
+  dependencyFiles: string[];
+}
+
+export interface RunReason {
+  /** False when the config is skipped because nothing it uses changed. */
+  run: boolean;
+  /** Every reason that applies, in order of precedence. */
+  categories: RunReasonCategory[];
+  /** Changed files that triggered the evaluation, by repository path. */
+  files: string[];
+  description: string;
+}
+
+function buildRunReason(
+  categories: RunReasonCategory[],
+  files: string[],
+): RunReason {
+  const ordered = RUN_REASON_CATEGORIES.filter((category) =>
+    categories.includes(category),
+  );
+  return {
+    run: ordered.length > 0,
+    categories: ordered,
+    files: [...new Set(files)],
+    description:
+      ordered.length > 0
+        ? ordered.map((category) => CATEGORY_DESCRIPTIONS[category]).join('; ')
+        : SKIP_DESCRIPTION,
+  };
+}
+
+export function getRunReason(input: RunReasonInput): RunReason {
+  const categories: RunReasonCategory[] = [];
+  const files: string[] = [];
+  if (input.forceRun) {
+    categories.push('force-run');
+  }
+  if (input.commandRequested) {
+    categories.push('comment-command');
+  }
+  if (!input.hasChangeInformation) {
+    // Every matching prompt is evaluated, so none of them is a trigger
+    categories.push('no-change-information');
+  } else {
+    const changes: Array<[RunReasonCategory, string[]]> = [
+      ['prompt-files', input.promptFiles],
+      ['config', input.configFiles],
+      ['dependencies', input.dependencyFiles],
+    ];
+    for (const [category, changedFiles] of changes) {
+      if (changedFiles.length > 0) {
+        categories.push(category);
+        files.push(...changedFiles);
+      }
+    }
+  }
+  if (categories.length === 0 && !input.skipsUnchanged) {
+    categories.push('no-prompt-globs');
+  }
+  return buildRunReason(categories, files);
+}
+
+/**
+ * Combines the reasons of several configs into the reason for the whole run,
+ * which evaluated something if any config was evaluated.
+ */
+export function mergeRunReasons(reasons: RunReason[]): RunReason {
+  return buildRunReason(
+    reasons.flatMap((reason) => reason.categories),
+    reasons.flatMap((reason) => reason.files),
+  );
+}
+
+export function formatRunReasonMarkdown(reason: RunReason): string {
+  if (!reason.run) {
+    return `**Skipped:** ${reason.description}.`;
+  }
+  const files = reason.files.map((file) => `\`${file}\``).join(', ');
+  return `**Run reason:** ${reason.description}${files ? ` (${files})` : ''}`;
+}
@@ -0,0 +1,116 @@
+import * as core from '@actions/core';
+import type * as github from '@actions/github';
+import { ErrorCodes, PromptfooActionError } from './errors';
+
+/**
+ * Pull request comment command utilities. Maintainers can start an
+ * evaluation by commenting `/promptfoo eval` on a pull request, optionally
+ * with `--repeat <n>` or `--filter-providers <pattern>`.
+ */
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export const SLASH_COMMAND = '/promptfoo eval';
+
+// The legacy permission field reports the maintain role as write
+const WRITE_PERMISSIONS = ['admin', 'write'];
+
+const COMMAND_PATTERN = /^\/promptfoo\s+eval(?:\s+(.*))?$/;
+const ARGUMENT_PATTERN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+export interface SlashCommand {
+  /** Value of `--repeat`, validated like the `repeat` input. */
+  repeat?: string;
+  /** Pattern passed to promptfoo's `--filter-providers`. */
+  filterProviders?: string;
+}
+
+/**
+ * Parses the first `/promptfoo eval` line of a comment. Returns undefined when
+ * the comment holds no command, and throws for unknown or incomplete options
+ * so a mistyped command does not silently run with the defaults.
+ */
+export function parseSlashCommand(body: string): SlashCommand | undefined {
+  const match = body
+    .split(/\r?\n/)
+    .map((line) => COMMAND_PATTERN.exec(line.trim()))
+    .find((lineMatch) => lineMatch !== null);
+  if (!match) {
+    return undefined;
+  }
+
+  const args = Array.from(
+    (match[1] ?? '').matchAll(ARGUMENT_PATTERN),
+    ([, doubleQuoted, singleQuoted, bare]) =>
+      doubleQuoted ?? singleQuoted ?? bare,
+  );
+  const command: SlashCommand = {};
+  for (let i = 0; i < args.length; i++) {
+    const [option, inlineValue] = args[i].split(/=(.*)/);
+    const value = inlineValue ?? args[++i];
+    if (option !== '--repeat' && option !== '--filter-providers') {
+      throw new PromptfooActionError(
+        `Unknown ${SLASH_COMMAND} option: ${option}`,
+        ErrorCodes.INVALID_CONFIGURATION,
+        'Supported options are --repeat <n> and --filter-providers <pattern>',
+      );
+    }
+    if (value === undefined || value === '') {
+      throw new PromptfooActionError(
+        `${SLASH_COMMAND} option ${option} requires a value`,
+        ErrorCodes.INVALID_CONFIGURATION,
+        `Use ${option}=<value> or ${option} <value>`,
+      );
+    }
+    if (option === '--repeat') {
+      command.repeat = value;
+    } else {
+      command.filterProviders = value;
+    }
+  }
+  return command;
+}
+
+/**
+ * Verifies that the commenter may start evaluations, which run with the
+ * workflow's secrets. Only collaborators with write access qualify.
+ */
+export async function verifyCommandPermission(
+  octokit: Octokit,
+  repo: { owner: string; repo: string },
+  username: string,
+): Promise<void> {
+  const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+    ...repo,
+    username,
+  });
+  if (!WRITE_PERMISSIONS.includes(data.permission)) {
+    throw new PromptfooActionError(
+      `${username} is not allowed to run ${SLASH_COMMAND} (permission: ${data.permission})`,
+      ErrorCodes.PERMISSION_DENIED,
+      'Only users with write access to the repository can start evaluations from a comment',
+    );
+  }
+}
+
+/**
+ * Reacts to the command comment so the commenter can see that the evaluation
+ * started. Failures only log a warning because the reaction is cosmetic.
+ */
+export async function acknowledgeCommand(
+  octokit: Octokit,
+  repo: { owner: string; repo: string },
+  commentId: number,
+): Promise<void> {
+  try {
+    await octokit.rest.reactions.createForIssueComment({
+      ...repo,
+      comment_id: commentId,
+      content: 'rocket',
+    });
+  } catch (error) {
+    core.warning(
+      `Could not react to the ${SLASH_COMMAND} comment: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import { ErrorCodes, PromptfooActionError } from './errors';
+
+/**
+ * A small logic-light template language for PR comments and job summaries.
+ *
+ * - `{{name}}` and `{{name.field}}` insert a value
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`
+ *   render a block depending on whether the value is truthy; empty lists and
+ *   empty strings count as false
+ * - `{{#each list}}...{{/each}}` renders a block per item; inside the block
+ *   `{{this}}` is the item, `{{@index}}` its zero-based index, and item fields
+ *   can be used directly
+ */
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string }
+  | {
+      type: 'if';
+      path: string;
+      negate: boolean;
+      body: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+const TAG_PATTERN = /\{\{\s*([#/]?)([@\w.]*)\s*([@\w.]*)\s*\}\}/g;
+
+function templateError(message: string): PromptfooActionError {
+  return new PromptfooActionError(
+    `Invalid comment-template: ${message}`,
+    ErrorCodes.INVALID_CONFIGURATION,
+    'See the "Custom Comment Templates" section of the README for the supported syntax',
+  );
+}
+
+function getBlockName(node: BlockNode): string {
+  if (node.type === 'each') {
+    return 'each';
+  }
+  return node.negate ? 'unless' : 'if';
+}
+
+/**
+ * Parses a template into nodes. Unknown or unbalanced block tags are
+ * configuration errors, so a broken template fails before the evaluation runs.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Each open block with the list new nodes are added to
+  const stack: Array<{ node: BlockNode; target: TemplateNode[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      target.push({
+        type: 'text',
+        value: source.slice(lastIndex, match.index),
+      });
+    }
+    lastIndex = match.index + match[0].length;
+    const [, marker, name, argument] = match;
+
+    if (marker === '#') {
+      if (
+        (name !== 'if' && name !== 'unless' && name !== 'each') ||
+        !argument
+      ) {
+        throw templateError(`unsupported block "${match[0]}"`);
+      }
+      const node: BlockNode =
+        name === 'each'
+          ? { type: 'each', path: argument, body: [] }
+          : {
+              type: 'if',
+              path: argument,
+              negate: name === 'unless',
+              body: [],
+              otherwise: [],
+            };
+      target.push(node);
+      stack.push({ node, target: node.body });
+      target = node.body;
+    } else if (marker === '/') {
+      const open = stack.pop();
+      if (!open || name !== getBlockName(open.node) || argument) {
+        throw templateError(`unexpected "${match[0]}"`);
+      }
+      const parent = stack[stack.length - 1];
+      target = parent ? parent.target : root;
+    } else if (name === 'else' && !argument) {
+      const open = stack[stack.length - 1];
+      if (open?.node.type !== 'if' || target === open.node.otherwise) {
+        throw templateError('"{{else}}" outside of an if block');
+      }
+      open.target = open.node.otherwise;
+      target = open.node.otherwise;
+    } else if (name && !argument) {
+      target.push({ type: 'value', path: name });
+    } else {
+      throw templateError(`invalid tag "${match[0]}"`);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw templateError(`unclosed "{{#${getBlockName(stack[0].node)}}}" block`);
+  }
+  if (lastIndex < source.length) {
+    target.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * Reads and parses a template file.
+ */
+export function loadTemplate(filePath: string): TemplateNode[] {
+  let source: string;
+  try {
+    source = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new PromptfooActionError(
+      `Failed to read comment-template ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCodes.INVALID_CONFIGURATION,
+      'Set comment-template to a file path relative to working-directory',
+    );
+  }
+  return parseTemplate(source);
+}
+
+type Scope = { value: unknown; index?: number };
+
+function lookup(path: string, scopes: Scope[]): unknown {
+  const current = scopes[scopes.length - 1];
+  if (path === '@index') {
+    return current.index;
+  }
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+  if (head === 'this') {
+    value = current.value;
+  } else {
+    // Names resolve from the innermost scope outwards
+    const scope = [...scopes]
+      .reverse()
+      .find(
+        (candidate) =>
+          !!candidate.value &&
+          typeof candidate.value === 'object' &&
+          head in (candidate.value as object),
+      );
+    value = scope ? (scope.value as Record<string, unknown>)[head] : undefined;
+  }
+  for (const key of rest) {
+    value =
+      value && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'value') {
+      output += formatValue(lookup(node.path, scopes));
+    } else if (node.type === 'if') {
+      const condition = isTruthy(lookup(node.path, scopes)) !== node.negate;
+      output += renderNodes(condition ? node.body : node.otherwise, scopes);
+    } else {
+      const items = lookup(node.path, scopes);
+      if (Array.isArray(items)) {
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, [...scopes, { value: item, index }]);
+        });
+      }
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(
+  nodes: TemplateNode[],
+  context: Record<string, unknown>,
+): string {
+  return renderNodes(nodes, [{ value: context }]);
+}
@@ -87,7 +87,7 @@ function getTestCaseIdentifier(result: EvaluateResult): string | undefined {
   return undefined;
 }
 
-function buildGroupKey(result: EvaluateResult): string {
+export function buildGroupKey(result: EvaluateResult): string {
   const providerId = result.provider?.id || '';
   const fingerprint = stableStringify(
     result.testCase || {
@@ -0,0 +1,134 @@
+import type { EvaluateResult } from 'promptfoo';
+import { escapeTableCell, getPromptLabel, getProviderLabel } from './report';
+
+/**
+ * Usage utilities that add up token counts and estimated cost from
+ * promptfoo's per-result output, in total and per provider and prompt.
+ */
+
+export interface UsageTotals {
+  total: number;
+  prompt: number;
+  completion: number;
+  cached: number;
+  cost: number;
+}
+
+export interface UsageRow extends UsageTotals {
+  name: string;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  providers: UsageRow[];
+  prompts: UsageRow[];
+}
+
+function emptyTotals(): UsageTotals {
+  return { total: 0, prompt: 0, completion: 0, cached: 0, cost: 0 };
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function addUsage(totals: UsageTotals, result: EvaluateResult): void {
+  const tokenUsage = result.tokenUsage || result.response?.tokenUsage;
+  totals.total += toCount(tokenUsage?.total);
+  totals.prompt += toCount(tokenUsage?.prompt);
+  totals.completion += toCount(tokenUsage?.completion);
+  totals.cached += toCount(tokenUsage?.cached);
+  totals.cost += toCount(result.cost);
+}
+
+function addRow<K>(
+  rows: Map<K, UsageRow>,
+  key: K,
+  name: string,
+  result: EvaluateResult,
+): void {
+  let row = rows.get(key);
+  if (!row) {
+    row = { name, ...emptyTotals() };
+    rows.set(key, row);
+  }
+  addUsage(row, result);
+}
+
+/**
+ * Sums token usage and cost over all results. Totals are built from the
+ * per-result entries so that they always match the provider and prompt rows.
+ */
+export function getUsageReport(results: EvaluateResult[]): UsageReport {
+  const totals = emptyTotals();
+  const providers = new Map<string, UsageRow>();
+  const prompts = new Map<number, UsageRow>();
+
+  for (const result of results) {
+    addUsage(totals, result);
+    const providerName = getProviderLabel(result);
+    addRow(providers, providerName, providerName, result);
+    addRow(prompts, result.promptIdx, getPromptLabel(result), result);
+  }
+
+  return {
+    totals,
+    providers: Array.from(providers.values()),
+    prompts: Array.from(prompts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, row]) => row),
+  };
+}
+
+export function formatTokenCount(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+/**
+ * Formats an estimated cost in US dollars. Small amounts keep four decimals so
+ * cheap runs do not show up as $0.00.
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+function formatUsageTable(
+  title: string,
+  column: string,
+  rows: UsageRow[],
+): string {
+  let md = `**${title}**\n\n`;
+  md += `| ${column} | Total tokens | Prompt | Completion | Cached | Cost |\n`;
+  md += `|${'-'.repeat(column.length + 2)}|--------------|--------|------------|--------|------|\n`;
+  for (const row of rows) {
+    md += `| ${escapeTableCell(row.name)} | ${formatTokenCount(row.total)} | ${formatTokenCount(row.prompt)} | ${formatTokenCount(row.completion)} | ${formatTokenCount(row.cached)} | ${formatCost(row.cost)} |\n`;
+  }
+  return md;
+}
+
+/**
+ * Renders the usage line and, when the run covers several providers or
+ * prompts, the per-provider and per-prompt tables. Returns an empty string
+ * when promptfoo reported no usage at all.
+ */
+export function formatUsageMarkdown(report: UsageReport): string {
+  const { totals } = report;
+  if (totals.total === 0 && totals.cost === 0) {
+    return '';
+  }
+
+  const sections = [
+    `**Token usage**: ${formatTokenCount(totals.total)} tokens (prompt ${formatTokenCount(totals.prompt)}, completion ${formatTokenCount(totals.completion)}, cached ${formatTokenCount(totals.cached)}), estimated cost ${formatCost(totals.cost)}\n`,
+  ];
+  if (report.providers.length > 1) {
+    sections.push(
+      formatUsageTable('Usage by provider', 'Provider', report.providers),
+    );
+  }
+  if (report.prompts.length > 1) {
+    sections.push(
+      formatUsageTable('Usage by prompt', 'Prompt', report.prompts),
+    );
+  }
+  return sections.join('\n');
+}